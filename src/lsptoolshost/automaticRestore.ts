@@ -0,0 +1,249 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { languageServerOptions } from '../shared/options';
+import { isProjectFile } from '../shared/utils/projectFiles';
+
+export type AutomaticRestorePolicy = 'always' | 'prompt' | 'never' | 'onProjectFileSave';
+
+export type AutomaticRestoreOutcome = 'restored' | 'prompted' | 'declined' | 'skipped' | 'deferred';
+
+export interface AutomaticRestoreHistoryEntry {
+    time: Date;
+    projectFiles: string[];
+    policy: AutomaticRestorePolicy;
+    outcome: AutomaticRestoreOutcome;
+}
+
+/** Requests from the server arriving within this many milliseconds of each other are restored together. */
+const BatchDelay = 1000;
+
+/** With the onProjectFileSave policy, restores are allowed for projects saved within this many milliseconds. */
+const ProjectFileSaveWindow = 30000;
+
+const MaxHistoryEntries = 100;
+
+/**
+ * Decides whether the restores the server asks for should run, based on the dotnet.projects.automaticRestorePolicy
+ * setting.  Requests arriving in quick succession are batched into a single restore, and every decision is kept in a
+ * history so that repeated automatic restores can be investigated.
+ */
+export class AutomaticRestoreScheduler implements vscode.Disposable {
+    private readonly _history: AutomaticRestoreHistoryEntry[] = [];
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    /** The projects requested since the current batch started, and the requests waiting on it. */
+    private _batch = new Set<string>();
+    private _batchWaiters: (() => void)[] = [];
+    private _batchTimer: NodeJS.Timeout | undefined;
+
+    /** Projects waiting for their project file to be saved before they are restored. */
+    private readonly _deferred = new Set<string>();
+
+    /** The time each project file was last saved. */
+    private readonly _savedProjects = new Map<string, number>();
+
+    constructor(
+        private readonly _restore: (projectFiles: string[]) => Promise<void>,
+        private readonly _channel: vscode.OutputChannel
+    ) {
+        this._disposables.push(vscode.workspace.onDidSaveTextDocument(async (d) => this.onDidSave(d)));
+    }
+
+    public dispose() {
+        clearTimeout(this._batchTimer);
+        this._batchWaiters.forEach((resolve) => resolve());
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    /**
+     * Handles a request from the server to restore the given projects.  Resolves once the batch containing the request
+     * has been handled; prompts are not waited on, so an unanswered prompt does not hold up the server.
+     */
+    public async request(projectFiles: string[]): Promise<void> {
+        projectFiles.forEach((p) => this._batch.add(path.normalize(p)));
+        if (this._batchTimer === undefined) {
+            this._batchTimer = setTimeout(async () => this.flush(), BatchDelay);
+        }
+
+        return new Promise((resolve) => this._batchWaiters.push(resolve));
+    }
+
+    /**
+     * Shows the automatic restores, most recent first.
+     */
+    public async showHistory(): Promise<void> {
+        if (this._history.length === 0) {
+            await vscode.window.showInformationMessage(vscode.l10n.t('No automatic restores have been requested.'));
+            return;
+        }
+
+        const items: vscode.QuickPickItem[] = [...this._history].reverse().map((entry) => ({
+            label: `${getOutcomeIcon(entry.outcome)} ${formatProjects(entry.projectFiles)}`,
+            description: getOutcomeText(entry.outcome),
+            detail: vscode.l10n.t('{0} (policy: {1})', entry.time.toLocaleString(), entry.policy),
+        }));
+        await vscode.window.showQuickPick(items, {
+            placeHolder: vscode.l10n.t('Automatic restores requested by the language server'),
+        });
+    }
+
+    private async flush(): Promise<void> {
+        const projectFiles = [...this._batch];
+        const waiters = this._batchWaiters;
+        this._batch = new Set();
+        this._batchWaiters = [];
+        this._batchTimer = undefined;
+
+        try {
+            if (projectFiles.length > 0) {
+                await this.handle(projectFiles);
+            }
+        } finally {
+            waiters.forEach((resolve) => resolve());
+        }
+    }
+
+    private async handle(projectFiles: string[]): Promise<void> {
+        const policy = languageServerOptions.automaticRestorePolicy as AutomaticRestorePolicy;
+        switch (policy) {
+            case 'never':
+                this.record(projectFiles, policy, 'skipped');
+                return;
+            case 'prompt': {
+                const entry = this.record(projectFiles, policy, 'prompted');
+                this.prompt(entry).catch((e) => {
+                    throw new Error(vscode.l10n.t('Failed to restore projects: {0}', `${e}`));
+                });
+                return;
+            }
+            case 'onProjectFileSave': {
+                const now = Date.now();
+                const saved = projectFiles.filter(
+                    (p) => now - (this._savedProjects.get(p) ?? 0) < ProjectFileSaveWindow
+                );
+                const unsaved = projectFiles.filter((p) => !saved.includes(p));
+                if (unsaved.length > 0) {
+                    unsaved.forEach((p) => this._deferred.add(p));
+                    this.record(unsaved, policy, 'deferred');
+                }
+                if (saved.length > 0) {
+                    this.record(saved, policy, 'restored');
+                    await this._restore(saved);
+                }
+                return;
+            }
+            default:
+                this.record(projectFiles, policy, 'restored');
+                await this._restore(projectFiles);
+        }
+    }
+
+    private async prompt(entry: AutomaticRestoreHistoryEntry): Promise<void> {
+        const restore = vscode.l10n.t('Restore');
+        const alwaysRestore = vscode.l10n.t('Always Restore');
+        const result = await vscode.window.showInformationMessage(
+            vscode.l10n.t('{0} need to be restored. Restore now?', formatProjects(entry.projectFiles)),
+            restore,
+            alwaysRestore
+        );
+
+        if (result === undefined) {
+            this.updateOutcome(entry, 'declined');
+            return;
+        }
+
+        if (result === alwaysRestore) {
+            await vscode.workspace
+                .getConfiguration()
+                .update('dotnet.projects.automaticRestorePolicy', 'always', vscode.ConfigurationTarget.Global);
+        }
+
+        this.updateOutcome(entry, 'restored');
+        await this._restore(entry.projectFiles);
+    }
+
+    private async onDidSave(document: vscode.TextDocument): Promise<void> {
+        if (!isProjectFile(document.fileName)) {
+            return;
+        }
+
+        const projectFile = path.normalize(document.fileName);
+        if (!this._deferred.delete(projectFile)) {
+            // The server asks for a restore after reloading the saved project, if it needs one.
+            this._savedProjects.set(projectFile, Date.now());
+            return;
+        }
+
+        this.record([projectFile], 'onProjectFileSave', 'restored');
+        await this._restore([projectFile]);
+    }
+
+    private record(
+        projectFiles: string[],
+        policy: AutomaticRestorePolicy,
+        outcome: AutomaticRestoreOutcome
+    ): AutomaticRestoreHistoryEntry {
+        const entry: AutomaticRestoreHistoryEntry = { time: new Date(), projectFiles, policy, outcome };
+        this._history.push(entry);
+        if (this._history.length > MaxHistoryEntries) {
+            this._history.shift();
+        }
+
+        this.log(entry);
+        return entry;
+    }
+
+    private updateOutcome(entry: AutomaticRestoreHistoryEntry, outcome: AutomaticRestoreOutcome) {
+        entry.outcome = outcome;
+        this.log(entry);
+    }
+
+    private log(entry: AutomaticRestoreHistoryEntry) {
+        this._channel.appendLine(
+            vscode.l10n.t(
+                'Automatic restore of {0} (policy: {1}): {2}',
+                entry.projectFiles.join(', '),
+                entry.policy,
+                getOutcomeText(entry.outcome)
+            )
+        );
+    }
+}
+
+function formatProjects(projectFiles: string[]): string {
+    return projectFiles.map((p) => path.basename(p)).join(', ');
+}
+
+function getOutcomeIcon(outcome: AutomaticRestoreOutcome): string {
+    switch (outcome) {
+        case 'restored':
+            return '$(check)';
+        case 'prompted':
+            return '$(question)';
+        case 'declined':
+        case 'skipped':
+            return '$(circle-slash)';
+        case 'deferred':
+            return '$(clock)';
+    }
+}
+
+function getOutcomeText(outcome: AutomaticRestoreOutcome): string {
+    switch (outcome) {
+        case 'restored':
+            return vscode.l10n.t('Restored');
+        case 'prompted':
+            return vscode.l10n.t('Waiting for confirmation');
+        case 'declined':
+            return vscode.l10n.t('Declined');
+        case 'skipped':
+            return vscode.l10n.t('Skipped by policy');
+        case 'deferred':
+            return vscode.l10n.t('Deferred until the project file is saved');
+    }
+}
@@ -0,0 +1,124 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+const BuildHistoryStateKey = 'dotnet.buildDiagnostics.history';
+
+/** The number of builds kept in the history. */
+const MaxBuilds = 10;
+
+/** The number of diagnostics kept for each build, so that a broken build doesn't fill the workspace state. */
+const MaxDiagnosticsPerBuild = 2000;
+
+export interface BuildDiagnostic {
+    /** The path of the file the diagnostic was reported in. */
+    file: string;
+
+    /** The diagnostic ID, like CS0168. */
+    code: string;
+
+    severity: vscode.DiagnosticSeverity;
+    message: string;
+
+    /** The zero based position of the diagnostic. */
+    line: number;
+    character: number;
+
+    /** Whether only the build reports the diagnostic, so it isn't shown by live diagnostics. */
+    buildOnly: boolean;
+}
+
+export interface BuildResult {
+    /** When the build finished, in milliseconds since the epoch. */
+    time: number;
+
+    diagnostics: BuildDiagnostic[];
+
+    /** Whether the build reported more diagnostics than are kept, so it can't be compared with other builds. */
+    truncated?: boolean;
+}
+
+export type BuildDiagnosticStatus = 'new' | 'unchanged' | 'fixed';
+
+export interface ComparedBuildDiagnostic {
+    diagnostic: BuildDiagnostic;
+    status: BuildDiagnosticStatus;
+}
+
+/**
+ * Remembers the diagnostics of recent builds in workspace state, so that a build can be compared with the one before
+ * it even after the window is reloaded.
+ */
+export class BuildDiagnosticsHistory {
+    constructor(private readonly _workspaceState: vscode.Memento) {}
+
+    /** The recent builds, oldest first. */
+    public get builds(): BuildResult[] {
+        return this._workspaceState.get<BuildResult[]>(BuildHistoryStateKey) ?? [];
+    }
+
+    public async record(build: BuildResult): Promise<void> {
+        const trimmed =
+            build.diagnostics.length > MaxDiagnosticsPerBuild
+                ? { ...build, diagnostics: build.diagnostics.slice(0, MaxDiagnosticsPerBuild), truncated: true }
+                : build;
+        await this._workspaceState.update(BuildHistoryStateKey, [...this.builds, trimmed].slice(-MaxBuilds));
+    }
+
+    public async clear(): Promise<void> {
+        await this._workspaceState.update(BuildHistoryStateKey, undefined);
+    }
+}
+
+/**
+ * Compares the diagnostics of a build with the build before it.  Diagnostics are matched by file, ID and message, not
+ * position, so that edits moving a diagnostic don't report it as fixed and new again.  Truncated builds aren't
+ * compared, as the diagnostics left out of either build would be reported as new or fixed.
+ */
+export function compareBuilds(build: BuildResult, previousBuild: BuildResult | undefined): ComparedBuildDiagnostic[] {
+    if (previousBuild === undefined || build.truncated || previousBuild.truncated) {
+        return build.diagnostics.map((diagnostic) => ({ diagnostic, status: 'unchanged' }));
+    }
+
+    // Count the matching diagnostics, as the same diagnostic can be reported more than once in a file.
+    const previousCounts = countDiagnostics(previousBuild.diagnostics);
+    const compared: ComparedBuildDiagnostic[] = [];
+    for (const diagnostic of build.diagnostics) {
+        const key = getDiagnosticKey(diagnostic);
+        const count = previousCounts.get(key) ?? 0;
+        if (count > 0) {
+            previousCounts.set(key, count - 1);
+            compared.push({ diagnostic, status: 'unchanged' });
+        } else {
+            compared.push({ diagnostic, status: 'new' });
+        }
+    }
+
+    // Whatever is left over from the previous build was fixed.
+    for (const diagnostic of previousBuild.diagnostics) {
+        const key = getDiagnosticKey(diagnostic);
+        const count = previousCounts.get(key) ?? 0;
+        if (count > 0) {
+            previousCounts.set(key, count - 1);
+            compared.push({ diagnostic, status: 'fixed' });
+        }
+    }
+
+    return compared;
+}
+
+function countDiagnostics(diagnostics: BuildDiagnostic[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const diagnostic of diagnostics) {
+        const key = getDiagnosticKey(diagnostic);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+    return counts;
+}
+
+function getDiagnosticKey(diagnostic: BuildDiagnostic): string {
+    return `${diagnostic.file}|${diagnostic.code}|${diagnostic.message}`;
+}
@@ -4,6 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 import * as vscode from 'vscode';
 import { languageServerOptions } from '../shared/options';
+import { BuildDiagnostic, BuildDiagnosticsHistory } from './buildDiagnosticsHistory';
 
 export enum AnalysisSetting {
     FullSolution = 'fullSolution',
@@ -19,7 +20,12 @@ export class BuildDiagnosticsService {
      * When live diagnostics aren't loaded for a file, then these are all of the diagnostics reported by the build.*/
     private _diagnosticsReportedByBuild: vscode.DiagnosticCollection;
 
-    constructor(buildDiagnostics: vscode.DiagnosticCollection) {
+    private _onDidRecordBuildEmitter = new vscode.EventEmitter<void>();
+
+    /** Fires when the diagnostics of a build were added to the history. */
+    public readonly onDidRecordBuild = this._onDidRecordBuildEmitter.event;
+
+    constructor(buildDiagnostics: vscode.DiagnosticCollection, public readonly history: BuildDiagnosticsHistory) {
         this._diagnosticsReportedByBuild = buildDiagnostics;
     }
 
@@ -46,6 +52,36 @@ export class BuildDiagnosticsService {
         }
 
         this._diagnosticsReportedByBuild.set(displayedBuildDiagnostics);
+
+        await this.history.record({
+            time: Date.now(),
+            diagnostics: BuildDiagnosticsService.toBuildDiagnostics(buildDiagnostics, buildOnlyIds),
+        });
+        this._onDidRecordBuildEmitter.fire();
+    }
+
+    private static toBuildDiagnostics(
+        buildDiagnostics: { [uri: string]: vscode.Diagnostic[] },
+        buildOnlyIds: string[]
+    ): BuildDiagnostic[] {
+        const result: BuildDiagnostic[] = [];
+        for (const [file, diagnosticList] of Object.entries(buildDiagnostics)) {
+            for (const d of diagnosticList) {
+                const code = typeof d.code === 'object' ? d.code.value : d.code;
+                result.push({
+                    file,
+                    code: code?.toString() ?? '',
+                    severity: d.severity,
+                    message: d.message,
+                    line: d.range.start.line,
+                    character: d.range.start.character,
+                    buildOnly:
+                        BuildDiagnosticsService.isBuildOnlyDiagnostic(buildOnlyIds, d) ||
+                        BuildDiagnosticsService.isProjectSystemDiagnostic(d),
+                });
+            }
+        }
+        return result;
     }
 
     private compareUri(a: vscode.Uri, b: vscode.Uri): boolean {
@@ -0,0 +1,303 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BuildDiagnosticsService } from './buildDiagnosticsService';
+import { BuildResult, compareBuilds, ComparedBuildDiagnostic } from './buildDiagnosticsHistory';
+import { findContainingProjectFile } from '../shared/utils/projectFiles';
+import { showInformationMessage } from '../shared/observers/utils/showMessage';
+
+/** The workspace state key of the filter of the build diagnostics view. */
+const FilterStateKey = 'dotnet.buildDiagnostics.filter';
+
+export enum BuildDiagnosticsFilter {
+    /** Every diagnostic reported by the build. */
+    All = 'all',
+    /** Diagnostics only the build reports, which live diagnostics don't show. */
+    BuildOnly = 'buildOnly',
+    /** Diagnostics live diagnostics also report. */
+    Live = 'live',
+}
+
+type BuildDiagnosticsNode =
+    | { kind: 'project'; projectFile: string | undefined; diagnostics: ComparedBuildDiagnostic[] }
+    | { kind: 'code'; code: string; diagnostics: ComparedBuildDiagnostic[] }
+    | { kind: 'diagnostic'; compared: ComparedBuildDiagnostic };
+
+export function registerBuildDiagnosticsView(
+    context: vscode.ExtensionContext,
+    buildDiagnosticsService: BuildDiagnosticsService
+) {
+    const view = new BuildDiagnosticsView(buildDiagnosticsService, context.workspaceState);
+    const treeView = vscode.window.createTreeView('dotnet.buildDiagnostics', {
+        treeDataProvider: view,
+        showCollapseAll: true,
+    });
+    view.onDidChangeTreeData(() => (treeView.description = view.description));
+    treeView.description = view.description;
+    context.subscriptions.push(view, treeView);
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.buildDiagnostics.changeFilter', async () => view.changeFilter())
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.buildDiagnostics.selectBuild', async () => view.selectBuild())
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.buildDiagnostics.clearHistory', async () => view.clearHistory())
+    );
+}
+
+/**
+ * Shows the diagnostics of a build grouped by project and diagnostic ID, marking which are new and which were fixed
+ * since the build before it.  Unlike the Problems panel, the diagnostics are kept when the next build starts.
+ */
+class BuildDiagnosticsView implements vscode.TreeDataProvider<BuildDiagnosticsNode>, vscode.Disposable {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    /** The time of the build shown, or undefined to show the latest build. */
+    private _selectedBuildTime: number | undefined;
+
+    /** Cache of the project file containing each directory. */
+    private readonly _projectFileCache = new Map<string, string | undefined>();
+
+    constructor(
+        private readonly _buildDiagnosticsService: BuildDiagnosticsService,
+        private readonly _workspaceState: vscode.Memento
+    ) {
+        this._disposables.push(
+            this._onDidChangeTreeData,
+            _buildDiagnosticsService.onDidRecordBuild(() => {
+                // Follow along with new builds.
+                this._selectedBuildTime = undefined;
+                this.refresh();
+            })
+        );
+    }
+
+    public dispose() {
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    public refresh() {
+        this._projectFileCache.clear();
+        this._onDidChangeTreeData.fire();
+    }
+
+    private get filter(): BuildDiagnosticsFilter {
+        return this._workspaceState.get<BuildDiagnosticsFilter>(FilterStateKey) ?? BuildDiagnosticsFilter.All;
+    }
+
+    /** Describes the build and filter shown, for the title of the view. */
+    public get description(): string | undefined {
+        const build = this.getSelectedBuild()?.build;
+        if (build === undefined) {
+            return undefined;
+        }
+
+        return `${new Date(build.time).toLocaleTimeString()} · ${getFilterLabel(this.filter)}`;
+    }
+
+    public async changeFilter(): Promise<void> {
+        const items = [BuildDiagnosticsFilter.All, BuildDiagnosticsFilter.BuildOnly, BuildDiagnosticsFilter.Live].map(
+            (filter) => ({
+                label: getFilterLabel(filter),
+                description: filter === this.filter ? vscode.l10n.t('Current') : undefined,
+                filter,
+            })
+        );
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: vscode.l10n.t('Select which build diagnostics to show'),
+        });
+        if (selected) {
+            await this._workspaceState.update(FilterStateKey, selected.filter);
+            this.refresh();
+        }
+    }
+
+    public async selectBuild(): Promise<void> {
+        const builds = this._buildDiagnosticsService.history.builds;
+        if (builds.length === 0) {
+            showInformationMessage(vscode, vscode.l10n.t('No builds have reported diagnostics yet.'));
+            return;
+        }
+
+        const items = builds
+            .map((build, index) => ({
+                label: new Date(build.time).toLocaleString(),
+                description: build.truncated
+                    ? vscode.l10n.t('More than {0} issues, not compared', build.diagnostics.length)
+                    : getBuildSummary(compareBuilds(build, builds[index - 1])),
+                time: build.time,
+            }))
+            .reverse();
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: vscode.l10n.t('Select the build to compare with the build before it'),
+        });
+        if (selected) {
+            this._selectedBuildTime = selected === items[0] ? undefined : selected.time;
+            this.refresh();
+        }
+    }
+
+    public async clearHistory(): Promise<void> {
+        await this._buildDiagnosticsService.history.clear();
+        this._selectedBuildTime = undefined;
+        this.refresh();
+    }
+
+    public getTreeItem(node: BuildDiagnosticsNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'project': {
+                const label =
+                    node.projectFile !== undefined
+                        ? path.basename(node.projectFile, path.extname(node.projectFile))
+                        : vscode.l10n.t('Other Files');
+                const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('project');
+                item.tooltip = node.projectFile;
+                item.description = getBuildSummary(node.diagnostics);
+                item.contextValue = 'project';
+                return item;
+            }
+            case 'code': {
+                const item = new vscode.TreeItem(node.code || vscode.l10n.t('(no ID)'));
+                item.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+                item.iconPath = getSeverityIcon(node.diagnostics[0].diagnostic.severity);
+                item.description = getBuildSummary(node.diagnostics);
+                item.contextValue = 'code';
+                return item;
+            }
+            case 'diagnostic': {
+                const { diagnostic, status } = node.compared;
+                const item = new vscode.TreeItem(diagnostic.message, vscode.TreeItemCollapsibleState.None);
+                const location = `${path.basename(diagnostic.file)}:${diagnostic.line + 1}`;
+                switch (status) {
+                    case 'new':
+                        item.description = vscode.l10n.t('New · {0}', location);
+                        item.iconPath = getSeverityIcon(diagnostic.severity);
+                        break;
+                    case 'fixed':
+                        item.description = vscode.l10n.t('Fixed · {0}', location);
+                        item.iconPath = new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'));
+                        break;
+                    default:
+                        item.description = location;
+                        item.iconPath = getSeverityIcon(diagnostic.severity);
+                        break;
+                }
+                item.tooltip = `${diagnostic.file}:${diagnostic.line + 1}:${diagnostic.character + 1}`;
+                item.contextValue = `diagnostic.${status}`;
+                const position = new vscode.Position(diagnostic.line, diagnostic.character);
+                item.command = {
+                    command: 'vscode.open',
+                    title: vscode.l10n.t('Open'),
+                    arguments: [vscode.Uri.file(diagnostic.file), { selection: new vscode.Range(position, position) }],
+                };
+                return item;
+            }
+        }
+    }
+
+    public getChildren(node?: BuildDiagnosticsNode): BuildDiagnosticsNode[] {
+        if (node === undefined) {
+            const selected = this.getSelectedBuild();
+            if (selected === undefined) {
+                return [];
+            }
+
+            const diagnostics = compareBuilds(selected.build, selected.previousBuild).filter((d) =>
+                this.matchesFilter(d)
+            );
+            return groupBy(diagnostics, (d) => findContainingProjectFile(d.diagnostic.file, this._projectFileCache))
+                .sort(([a], [b]) => (a === undefined ? 1 : b === undefined ? -1 : a.localeCompare(b)))
+                .map(([projectFile, projectDiagnostics]) => ({
+                    kind: 'project',
+                    projectFile,
+                    diagnostics: projectDiagnostics,
+                }));
+        }
+
+        switch (node.kind) {
+            case 'project':
+                return groupBy(node.diagnostics, (d) => d.diagnostic.code)
+                    .sort(([a], [b]) => a.localeCompare(b))
+                    .map(([code, diagnostics]) => ({ kind: 'code', code, diagnostics }));
+            case 'code':
+                return [...node.diagnostics]
+                    .sort((a, b) => getStatusOrder(a) - getStatusOrder(b))
+                    .map((compared) => ({ kind: 'diagnostic', compared }));
+            default:
+                return [];
+        }
+    }
+
+    private getSelectedBuild(): { build: BuildResult; previousBuild: BuildResult | undefined } | undefined {
+        const builds = this._buildDiagnosticsService.history.builds;
+        const index =
+            this._selectedBuildTime === undefined
+                ? builds.length - 1
+                : builds.findIndex((b) => b.time === this._selectedBuildTime);
+        return index >= 0 ? { build: builds[index], previousBuild: builds[index - 1] } : undefined;
+    }
+
+    private matchesFilter(compared: ComparedBuildDiagnostic): boolean {
+        switch (this.filter) {
+            case BuildDiagnosticsFilter.BuildOnly:
+                return compared.diagnostic.buildOnly;
+            case BuildDiagnosticsFilter.Live:
+                return !compared.diagnostic.buildOnly;
+            default:
+                return true;
+        }
+    }
+}
+
+function getFilterLabel(filter: BuildDiagnosticsFilter): string {
+    switch (filter) {
+        case BuildDiagnosticsFilter.BuildOnly:
+            return vscode.l10n.t('Build-only diagnostics');
+        case BuildDiagnosticsFilter.Live:
+            return vscode.l10n.t('Live diagnostics');
+        default:
+            return vscode.l10n.t('All diagnostics');
+    }
+}
+
+function getBuildSummary(diagnostics: ComparedBuildDiagnostic[]): string {
+    const newCount = diagnostics.filter((d) => d.status === 'new').length;
+    const fixedCount = diagnostics.filter((d) => d.status === 'fixed').length;
+    const count = diagnostics.length - fixedCount;
+    return vscode.l10n.t('{0} issues, {1} new, {2} fixed', count, newCount, fixedCount);
+}
+
+function getSeverityIcon(severity: vscode.DiagnosticSeverity): vscode.ThemeIcon {
+    switch (severity) {
+        case vscode.DiagnosticSeverity.Error:
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+        case vscode.DiagnosticSeverity.Warning:
+            return new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+        default:
+            return new vscode.ThemeIcon('info', new vscode.ThemeColor('problemsInfoIcon.foreground'));
+    }
+}
+
+/** Lists new diagnostics first, then the remaining ones, then the fixed ones. */
+function getStatusOrder(compared: ComparedBuildDiagnostic): number {
+    return compared.status === 'new' ? 0 : compared.status === 'unchanged' ? 1 : 2;
+}
+
+function groupBy<K>(diagnostics: ComparedBuildDiagnostic[], getKey: (d: ComparedBuildDiagnostic) => K) {
+    const groups = new Map<K, ComparedBuildDiagnostic[]>();
+    for (const diagnostic of diagnostics) {
+        const key = getKey(diagnostic);
+        groups.set(key, [...(groups.get(key) ?? []), diagnostic]);
+    }
+    return [...groups.entries()];
+}
@@ -0,0 +1,144 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+
+export interface LineCoverage {
+    /** The 1-based line number. */
+    line: number;
+    hits: number;
+    branches?: { covered: number; total: number };
+}
+
+export interface FileCoverageReport {
+    path: string;
+
+    /** The name of the assembly (project) the file was compiled into. */
+    packageName: string;
+    lines: LineCoverage[];
+}
+
+export interface CoverageReport {
+    files: FileCoverageReport[];
+}
+
+const PackageRegex = /<package\b([^>]*)>([\s\S]*?)<\/package>/g;
+const ClassRegex = /<class\b([^>]*?)(?:\/>|>([\s\S]*?)<\/class>)/g;
+const LineRegex = /<line\b([^>]*?)\/?>/g;
+const SourceRegex = /<source>([^<]*)<\/source>/g;
+const ConditionCoverageRegex = /\((\d+)\/(\d+)\)/;
+
+/**
+ * Parses a Cobertura coverage report (as produced by the coverlet "XPlat code coverage" collector).  File names are
+ * resolved against the report's source directories, preferring a directory where {@link fileExists} finds the file.
+ */
+export function parseCobertura(xml: string, fileExists: (filePath: string) => boolean): CoverageReport {
+    const sources = [...xml.matchAll(SourceRegex)].map((m) => unescapeXml(m[1].trim()));
+    const files = new Map<string, FileCoverageReport>();
+
+    for (const packageMatch of xml.matchAll(PackageRegex)) {
+        const packageName = getAttribute(packageMatch[1], 'name') ?? '';
+        for (const classMatch of packageMatch[2].matchAll(ClassRegex)) {
+            const fileName = getAttribute(classMatch[1], 'filename');
+            if (fileName === undefined) {
+                continue;
+            }
+
+            const filePath = resolveFileName(fileName, sources, fileExists);
+            let file = files.get(filePath);
+            if (file === undefined) {
+                file = { path: filePath, packageName, lines: [] };
+                files.set(filePath, file);
+            }
+
+            // Lines appear both in a class's methods and in the class itself (and in every part of a partial
+            // class), so merge them by line number.
+            for (const lineMatch of (classMatch[2] ?? '').matchAll(LineRegex)) {
+                const line = parseLine(lineMatch[1]);
+                if (line !== undefined) {
+                    addLine(file.lines, line);
+                }
+            }
+        }
+    }
+
+    const report = { files: [...files.values()] };
+    report.files.forEach((f) => f.lines.sort((a, b) => a.line - b.line));
+    return report;
+}
+
+/**
+ * Combines the reports from several test runs, for example when tests in more than one project cover the same code.
+ */
+export function mergeCoverage(reports: CoverageReport[]): CoverageReport {
+    const files = new Map<string, FileCoverageReport>();
+    for (const file of reports.flatMap((r) => r.files)) {
+        const existing = files.get(file.path);
+        if (existing === undefined) {
+            files.set(file.path, { ...file, lines: file.lines.map((l) => ({ ...l })) });
+        } else {
+            file.lines.forEach((line) => addLine(existing.lines, line, /*sumHits*/ true));
+            existing.lines.sort((a, b) => a.line - b.line);
+        }
+    }
+
+    return { files: [...files.values()] };
+}
+
+export function getCoveredLineCount(lines: LineCoverage[]): number {
+    return lines.filter((l) => l.hits > 0).length;
+}
+
+function addLine(lines: LineCoverage[], line: LineCoverage, sumHits = false) {
+    const existing = lines.find((l) => l.line === line.line);
+    if (existing === undefined) {
+        lines.push({ ...line });
+        return;
+    }
+
+    existing.hits = sumHits ? existing.hits + line.hits : Math.max(existing.hits, line.hits);
+    if (line.branches && (!existing.branches || line.branches.covered > existing.branches.covered)) {
+        existing.branches = { ...line.branches };
+    }
+}
+
+function parseLine(attributes: string): LineCoverage | undefined {
+    const line = parseInt(getAttribute(attributes, 'number') ?? '', 10);
+    const hits = parseInt(getAttribute(attributes, 'hits') ?? '', 10);
+    if (isNaN(line) || isNaN(hits)) {
+        return undefined;
+    }
+
+    const result: LineCoverage = { line, hits };
+    const conditionCoverage = ConditionCoverageRegex.exec(getAttribute(attributes, 'condition-coverage') ?? '');
+    if (getAttribute(attributes, 'branch') === 'true' && conditionCoverage) {
+        result.branches = { covered: parseInt(conditionCoverage[1], 10), total: parseInt(conditionCoverage[2], 10) };
+    }
+
+    return result;
+}
+
+function resolveFileName(fileName: string, sources: string[], fileExists: (filePath: string) => boolean): string {
+    const name = unescapeXml(fileName);
+    if (path.isAbsolute(name) || sources.length === 0) {
+        return name;
+    }
+
+    const candidates = sources.map((source) => path.join(source, name));
+    return candidates.find((c) => fileExists(c)) ?? candidates[0];
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+    return new RegExp(`\\b${name}\\s*=\\s*"([^"]*)"`).exec(attributes)?.[1];
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
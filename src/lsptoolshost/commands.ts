@@ -3,21 +3,27 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { UriConverter } from './uriConverter';
 import * as languageClient from 'vscode-languageclient/node';
 import { RoslynLanguageServer } from './roslynLanguageServer';
 import { createLaunchTargetForSolution } from '../shared/launchTarget';
 import reportIssue from '../shared/reportIssue';
+import { exportDiagnosticBundle } from '../shared/diagnosticBundle';
+import { BufferedOutputChannel } from '../shared/bufferedOutputChannel';
 import { getDotnetInfo } from '../shared/utils/getDotnetInfo';
 import { IHostExecutableResolver } from '../shared/constants/IHostExecutableResolver';
 import { getCSharpDevKit } from '../utils/getCSharpDevKit';
+import { parseSolutionProjects, SolutionFilesGlob } from '../shared/utils/projectFiles';
 
 export function registerCommands(
     context: vscode.ExtensionContext,
     languageServer: RoslynLanguageServer,
     hostExecutableResolver: IHostExecutableResolver,
-    outputChannel: vscode.LogOutputChannel
+    outputChannel: vscode.LogOutputChannel,
+    traceChannel: BufferedOutputChannel
 ) {
     // It is very important to be careful about the types used as parameters for these command callbacks.
     // If the arguments are coming from the server as json, it is NOT appropriate to use type definitions
@@ -41,9 +47,16 @@ export function registerCommands(
     );
     if (!getCSharpDevKit()) {
         context.subscriptions.push(
-            vscode.commands.registerCommand('dotnet.openSolution', async () => openSolution(languageServer))
+            vscode.commands.registerCommand('dotnet.openSolution', async (workspaceFolder?: vscode.WorkspaceFolder) =>
+                openSolution(languageServer, workspaceFolder)
+            )
         );
     }
+    context.subscriptions.push(
+        vscode.commands.registerCommand('csharp.changeProjectContext', async () =>
+            languageServer._projectContextService.changeProjectContext()
+        )
+    );
     context.subscriptions.push(
         vscode.commands.registerCommand('csharp.reportIssue', async () =>
             reportIssue(
@@ -54,6 +67,17 @@ export function registerCommands(
             )
         )
     );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('csharp.exportDiagnosticBundle', async () =>
+            exportDiagnosticBundle(
+                context,
+                hostExecutableResolver,
+                { name: 'Roslyn', version: languageServer.serverVersion },
+                [traceChannel],
+                languageServer.projectConfigurations
+            )
+        )
+    );
     context.subscriptions.push(
         vscode.commands.registerCommand('csharp.showOutputWindow', async () => outputChannel.show())
     );
@@ -176,16 +200,33 @@ function outputAndThrow(outputChannel: vscode.LogOutputChannel, message: string)
     throw new Error(message);
 }
 
-async function openSolution(languageServer: RoslynLanguageServer): Promise<vscode.Uri | undefined> {
+/**
+ * Lets the user pick a solution to open.  In a multi-root workspace, the solution replaces the one opened for its
+ * workspace folder.
+ * @param workspaceFolder If given, only the solutions in this workspace folder are offered.
+ */
+async function openSolution(
+    languageServer: RoslynLanguageServer,
+    workspaceFolder?: vscode.WorkspaceFolder
+): Promise<vscode.Uri | undefined> {
     if (!vscode.workspace.workspaceFolders) {
         return undefined;
     }
 
-    const solutionFiles = await vscode.workspace.findFiles('**/*.{sln,slnf}');
-    const launchTargets = solutionFiles.map(createLaunchTargetForSolution);
+    const solutionFiles = await vscode.workspace.findFiles(
+        workspaceFolder ? new vscode.RelativePattern(workspaceFolder, SolutionFilesGlob) : SolutionFilesGlob
+    );
+    const launchTargets = await Promise.all(
+        solutionFiles.map(async (solutionFile) => ({
+            ...createLaunchTargetForSolution(solutionFile),
+            detail: await getSolutionProjectNames(solutionFile),
+        }))
+    );
     const launchTarget = await vscode.window.showQuickPick(launchTargets, {
         matchOnDescription: true,
-        placeHolder: `Select solution file`,
+        placeHolder: workspaceFolder
+            ? vscode.l10n.t('Select solution file for {0}', workspaceFolder.name)
+            : `Select solution file`,
     });
 
     if (launchTarget) {
@@ -194,3 +235,18 @@ async function openSolution(languageServer: RoslynLanguageServer): Promise<vscod
         return uri;
     }
 }
+
+/**
+ * Returns the names of the projects in a solution, to show alongside it in the picker.
+ */
+async function getSolutionProjectNames(solutionFile: vscode.Uri): Promise<string | undefined> {
+    try {
+        const text = await fs.promises.readFile(solutionFile.fsPath, 'utf8');
+        const projectNames = parseSolutionProjects(solutionFile.fsPath, text).map((p) =>
+            path.basename(p, path.extname(p))
+        );
+        return projectNames.length > 0 ? projectNames.join(', ') : undefined;
+    } catch {
+        return undefined;
+    }
+}
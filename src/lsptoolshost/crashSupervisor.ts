@@ -0,0 +1,223 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+    CloseAction,
+    CloseHandlerResult,
+    ErrorAction,
+    ErrorHandler,
+    ErrorHandlerResult,
+    Message,
+} from 'vscode-languageclient/node';
+import { RoslynLanguageServer } from './roslynLanguageServer';
+import { CrashLoopCount, CrashLoopWindow, ServerCrash, ServerCrashHistory } from './serverCrashHistory';
+import { getCrashDumpEnvironmentVariables } from './dotnetRuntimeExtensionResolver';
+import { languageServerOptions } from '../shared/options';
+import { ActionOption, showErrorMessage } from '../shared/observers/utils/showMessage';
+
+/** The number of stderr lines kept for each server process. */
+const MaxStderrLines = 20;
+
+/** How long to wait for the server process to exit once its connection closed, in milliseconds. */
+const ExitTimeout = 5000;
+
+interface ServerExit {
+    code: number | null;
+    signal: NodeJS.Signals | null;
+}
+
+/**
+ * Decides whether the language server is restarted when its connection closes unexpectedly.  Each crash is recorded
+ * with the process's exit code and last stderr lines; when the server keeps crashing with the same solution open, it
+ * is not restarted and the user is offered ways to recover instead.  After a crash, crash dumps are collected for the
+ * following server processes (unless the user configured where to collect them).
+ */
+export class ServerCrashSupervisor implements ErrorHandler {
+    public readonly history: ServerCrashHistory;
+
+    private readonly _automaticCrashDumpPath: string;
+    private _collectCrashDumps = false;
+
+    private _process: { pid: number | undefined; crashDumpPath: string | undefined; exit: Promise<ServerExit> } = {
+        pid: undefined,
+        crashDumpPath: undefined,
+        exit: Promise.resolve({ code: null, signal: null }),
+    };
+    private _stderr: string[] = [];
+
+    constructor(
+        private readonly _languageServer: RoslynLanguageServer,
+        context: vscode.ExtensionContext,
+        private readonly _channel: vscode.LogOutputChannel
+    ) {
+        this.history = new ServerCrashHistory(context.workspaceState);
+        this._automaticCrashDumpPath = path.join(context.logUri.fsPath, 'crashDumps');
+
+        // Keep collecting dumps if the server crashed just before the window was reloaded.
+        const lastCrash = this.history.crashes[this.history.crashes.length - 1];
+        this._collectCrashDumps = lastCrash !== undefined && Date.now() - lastCrash.time <= CrashLoopWindow;
+    }
+
+    /**
+     * Returns the additional environment variables to start the server process with.
+     */
+    public getEnvironmentVariables(): NodeJS.ProcessEnv {
+        // A configured crash dump path is already handled when resolving the runtime.
+        if (languageServerOptions.crashDumpPath || !this._collectCrashDumps) {
+            return {};
+        }
+
+        fs.mkdirSync(this._automaticCrashDumpPath, { recursive: true });
+        this._channel.info(`Collecting crash dumps of the language server in ${this._automaticCrashDumpPath}`);
+        return getCrashDumpEnvironmentVariables(this._automaticCrashDumpPath);
+    }
+
+    /**
+     * Watches a newly started server process for its stderr output and exit.
+     */
+    public watch(childProcess: cp.ChildProcessWithoutNullStreams) {
+        this._stderr = [];
+        this._process = {
+            pid: childProcess.pid,
+            crashDumpPath:
+                languageServerOptions.crashDumpPath ||
+                (this._collectCrashDumps ? this._automaticCrashDumpPath : undefined),
+            exit: new Promise<ServerExit>((resolve) =>
+                childProcess.on('exit', (code, signal) => resolve({ code, signal }))
+            ),
+        };
+
+        childProcess.stderr.on('data', (data: Buffer | string) => {
+            const lines = data
+                .toString()
+                .split(/\r?\n/)
+                .filter((l) => l.trim() !== '');
+            this._stderr = [...this._stderr, ...lines].slice(-MaxStderrLines);
+        });
+    }
+
+    public error(_error: Error, _message: Message | undefined, count: number | undefined): ErrorHandlerResult {
+        // Like the default error handler, give up on the connection after a few errors in a row.
+        return { action: count !== undefined && count <= 3 ? ErrorAction.Continue : ErrorAction.Shutdown };
+    }
+
+    public async closed(): Promise<CloseHandlerResult> {
+        const exit = await Promise.race([
+            this._process.exit,
+            new Promise<ServerExit>((resolve) => setTimeout(() => resolve({ code: null, signal: null }), ExitTimeout)),
+        ]);
+
+        const crash: ServerCrash = {
+            time: Date.now(),
+            exitCode: exit.code,
+            signal: exit.signal,
+            workspace: this.getWorkspace(),
+            stderr: this._stderr,
+            crashDump: this.findCrashDump(),
+        };
+        await this.history.record(crash);
+        this.logCrash(crash);
+
+        // Collect a dump if the server crashes again.
+        this._collectCrashDumps = true;
+
+        if (this.history.isCrashLoop()) {
+            this.offerRecovery(crash);
+            return { action: CloseAction.DoNotRestart, handled: true };
+        }
+
+        return { action: CloseAction.Restart, handled: true };
+    }
+
+    private getWorkspace(): string[] {
+        const solutionFiles = this._languageServer.solutionFiles;
+        return (solutionFiles.length > 0 ? solutionFiles : this._languageServer.projectFiles).map((u) => u.fsPath);
+    }
+
+    private findCrashDump(): string | undefined {
+        const { pid, crashDumpPath } = this._process;
+        if (pid === undefined || crashDumpPath === undefined) {
+            return undefined;
+        }
+
+        try {
+            const dump = fs.readdirSync(crashDumpPath).find((f) => f.endsWith(`.${pid}.dmp`));
+            return dump !== undefined ? path.join(crashDumpPath, dump) : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private logCrash(crash: ServerCrash) {
+        this._channel.error(
+            `Language server crashed (exit code: ${crash.exitCode}, signal: ${crash.signal}) with ${
+                crash.workspace.length > 0 ? crash.workspace.join(', ') : 'no solution'
+            } open.`
+        );
+        if (crash.stderr.length > 0) {
+            this._channel.error(`Last output on stderr:\n${crash.stderr.join('\n')}`);
+        }
+        if (crash.crashDump !== undefined) {
+            this._channel.error(`Crash dump written to ${crash.crashDump}`);
+        }
+    }
+
+    private offerRecovery(crash: ServerCrash) {
+        const items: ActionOption[] = [];
+        if (this._languageServer.solutionFiles.length > 0) {
+            items.push({
+                title: vscode.l10n.t('Reopen Without Solution'),
+                action: async () => {
+                    await this.history.clear();
+                    await this._languageServer.restartWithoutWorkspace();
+                },
+            });
+        }
+
+        const useServerGC = languageServerOptions.useServerGC;
+        items.push({
+            title: useServerGC ? vscode.l10n.t('Restart Without Server GC') : vscode.l10n.t('Restart With Server GC'),
+            action: async () => {
+                await vscode.workspace.getConfiguration().update('dotnet.server.useServerGC', !useServerGC, false);
+                await this.history.clear();
+                await this._languageServer.restart();
+            },
+        });
+
+        const crashDump = crash.crashDump;
+        if (crashDump !== undefined) {
+            items.push({
+                title: vscode.l10n.t('Open Crash Dump Folder'),
+                action: async () => {
+                    await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(crashDump));
+                },
+            });
+        }
+
+        items.push({
+            title: vscode.l10n.t('Show Output'),
+            action: async () => this._channel.show(),
+        });
+
+        const message =
+            crash.workspace.length > 0
+                ? vscode.l10n.t(
+                      'The C# language server crashed {0} times in the last {1} minutes while loading {2}, so it will not be restarted.',
+                      CrashLoopCount,
+                      CrashLoopWindow / 60000,
+                      crash.workspace.map((f) => path.basename(f)).join(', ')
+                  )
+                : vscode.l10n.t(
+                      'The C# language server crashed {0} times in the last {1} minutes, so it will not be restarted.',
+                      CrashLoopCount,
+                      CrashLoopWindow / 60000
+                  );
+        showErrorMessage(vscode, message, ...items);
+    }
+}
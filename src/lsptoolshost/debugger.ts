@@ -4,7 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as vscode from 'vscode';
-import { addAssetsIfNecessary, generateAssets } from '../shared/assets';
+import { addAssetsIfNecessary, generateAssets, generateCompoundAssets } from '../shared/assets';
 import { DotnetWorkspaceConfigurationProvider } from '../shared/workspaceConfigurationProvider';
 import { IWorkspaceDebugInformationProvider } from '../shared/IWorkspaceDebugInformationProvider';
 import { RoslynLanguageServer } from './roslynLanguageServer';
@@ -14,6 +14,10 @@ import { ServerState } from './serverStateChange';
 import { DotnetConfigurationResolver } from '../shared/dotnetConfigurationProvider';
 import { getCSharpDevKit } from '../utils/getCSharpDevKit';
 import { RoslynLanguageServerEvents } from './languageServerEvents';
+import { StartupProjectStateKey } from './solutionExplorer';
+import { LaunchJsonDriftService } from '../shared/launchJsonDrift';
+import { DotnetTaskProvider } from '../shared/dotnetTaskProvider';
+import { registerHotReload } from './hotReload';
 
 export function registerDebugger(
     context: vscode.ExtensionContext,
@@ -25,8 +29,25 @@ export function registerDebugger(
     const workspaceInformationProvider: IWorkspaceDebugInformationProvider =
         new RoslynWorkspaceDebugInformationProvider(languageServer, csharpOutputChannel);
 
+    const launchJsonDriftService = new LaunchJsonDriftService(workspaceInformationProvider);
+    context.subscriptions.push(launchJsonDriftService);
+
+    if (!getCSharpDevKit()) {
+        // C# Dev Kit provides its own build tasks and Hot Reload.
+        registerHotReload(context, languageServer, workspaceInformationProvider, csharpOutputChannel);
+        context.subscriptions.push(
+            vscode.tasks.registerTaskProvider(
+                DotnetTaskProvider.type,
+                new DotnetTaskProvider(workspaceInformationProvider)
+            )
+        );
+    }
+
     const disposable = languageServerEvents.onServerStateChange(async (e) => {
         if (e.state === ServerState.ProjectInitializationComplete) {
+            // Projects may have been renamed or retargeted since launch.json was generated.
+            await launchJsonDriftService.refresh();
+
             const csharpDevkitExtension = getCSharpDevKit();
             if (!csharpDevkitExtension) {
                 // Update or add tasks.json and launch.json
@@ -46,7 +67,9 @@ export function registerDebugger(
     context.subscriptions.push(
         vscode.debug.registerDebugConfigurationProvider(
             'dotnet',
-            new DotnetConfigurationResolver(workspaceInformationProvider, dotnetWorkspaceConfigurationProvider)
+            new DotnetConfigurationResolver(workspaceInformationProvider, dotnetWorkspaceConfigurationProvider, () =>
+                context.workspaceState.get<string>(StartupProjectStateKey)
+            )
         )
     );
     context.subscriptions.push(
@@ -57,4 +80,9 @@ export function registerDebugger(
             generateAssets(workspaceInformationProvider, selectedIndex)
         )
     );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.generateAssets.compound', async (selectedIndices) =>
+            generateCompoundAssets(workspaceInformationProvider, selectedIndices)
+        )
+    );
 }
@@ -83,14 +83,7 @@ export class DotnetRuntimeExtensionResolver implements IHostExecutableResolver {
         env.DOTNET_ROOT_USER = process.env.DOTNET_ROOT ?? 'EMPTY';
 
         if (languageServerOptions.crashDumpPath) {
-            // Enable dump collection
-            env.DOTNET_DbgEnableMiniDump = '1';
-            // Collect heap dump
-            env.DOTNET_DbgMiniDumpType = '2';
-            // Collect crashreport.json with additional thread and stack frame information.
-            env.DOTNET_EnableCrashReport = '1';
-            // The dump file name format is <executable>.<pid>.dmp
-            env.DOTNET_DbgMiniDumpName = path.join(languageServerOptions.crashDumpPath, '%e.%p.dmp');
+            Object.assign(env, getCrashDumpEnvironmentVariables(languageServerOptions.crashDumpPath));
         }
 
         return env;
@@ -181,3 +174,19 @@ export class DotnetRuntimeExtensionResolver implements IHostExecutableResolver {
         }
     }
 }
+
+/**
+ * Returns the environment variables that make a .NET process write a crash dump to the directory when it crashes.
+ */
+export function getCrashDumpEnvironmentVariables(crashDumpPath: string): NodeJS.ProcessEnv {
+    return {
+        // Enable dump collection
+        DOTNET_DbgEnableMiniDump: '1',
+        // Collect heap dump
+        DOTNET_DbgMiniDumpType: '2',
+        // Collect crashreport.json with additional thread and stack frame information.
+        DOTNET_EnableCrashReport: '1',
+        // The dump file name format is <executable>.<pid>.dmp
+        DOTNET_DbgMiniDumpName: path.join(crashDumpPath, '%e.%p.dmp'),
+    };
+}
@@ -0,0 +1,400 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RoslynLanguageServer } from './roslynLanguageServer';
+import {
+    HotReloadCommitUpdatesRequest,
+    HotReloadDiagnostic,
+    HotReloadEndSessionRequest,
+    HotReloadGetUpdatesRequest,
+    HotReloadStartSessionRequest,
+    HotReloadUpdates,
+    HotReloadUpdateStatus,
+} from './roslynProtocol';
+import { UriConverter } from './uriConverter';
+import {
+    IWorkspaceDebugInformationProvider,
+    ProjectDebugInformation,
+} from '../shared/IWorkspaceDebugInformationProvider';
+import { showErrorMessage, showInformationMessage, showWarningMessage } from '../shared/observers/utils/showMessage';
+
+/** The context key set while a debug session that Hot Reload applies changes to is running. */
+const HotReloadActiveContextKey = 'csharp.hotReload.active';
+
+/**
+ * The experimental server capability declaring that the server implements the Hot Reload requests, and that the
+ * debugger it ships with implements {@link ApplyUpdatesRequest}.  No released server or debugger implements this
+ * protocol yet, so Hot Reload stays off until one advertises the capability.
+ */
+const HotReloadCapability = 'hotReloadProvider';
+
+/** The debug adapter request applying the updates to the process being debugged. */
+const ApplyUpdatesRequest = 'applyHotReloadUpdates';
+
+export enum HotReloadState {
+    /** Changes are applied to the running sessions when C# files are saved. */
+    Ready,
+    Applying,
+    Applied,
+    /** The changes contain compilation errors. */
+    Blocked,
+    /** The changes contain rude edits, so the session has to be restarted to apply them. */
+    RestartRequired,
+    /** The language server couldn't compute the updates. */
+    Unavailable,
+}
+
+export function isHotReloadEnabled(): boolean {
+    return vscode.workspace.getConfiguration('csharp.experimental.debug').get<boolean>('hotReload') ?? false;
+}
+
+/** Whether Hot Reload is turned on and the running language server supports it. */
+function isHotReloadAvailable(languageServer: RoslynLanguageServer): boolean {
+    return (
+        isHotReloadEnabled() &&
+        languageServer.isRunning() &&
+        languageServer.hasExperimentalCapability(HotReloadCapability)
+    );
+}
+
+/**
+ * Lets the runtime accept updates to the assemblies of a launched process, which it only does when started with
+ * DOTNET_MODIFIABLE_ASSEMBLIES=debug.
+ */
+export function addHotReloadEnvironment(configuration: vscode.DebugConfiguration): vscode.DebugConfiguration {
+    if (configuration.request === 'launch' && !configuration.noDebug) {
+        configuration.env = { DOTNET_MODIFIABLE_ASSEMBLIES: 'debug', ...configuration.env };
+    }
+
+    return configuration;
+}
+
+/** Returns the project whose output is the program launched by the configuration. */
+export function findLaunchedProject(
+    projects: ProjectDebugInformation[],
+    program: string | undefined
+): ProjectDebugInformation | undefined {
+    if (!program) {
+        return undefined;
+    }
+
+    return projects.find((p) => path.resolve(p.outputPath) === path.resolve(program));
+}
+
+export function registerHotReload(
+    context: vscode.ExtensionContext,
+    languageServer: RoslynLanguageServer,
+    workspaceInformationProvider: IWorkspaceDebugInformationProvider,
+    channel: vscode.LogOutputChannel
+) {
+    context.subscriptions.push(
+        vscode.debug.registerDebugConfigurationProvider('coreclr', {
+            resolveDebugConfiguration: (_folder, configuration) =>
+                isHotReloadAvailable(languageServer) ? addHotReloadEnvironment(configuration) : configuration,
+        })
+    );
+
+    const hotReload = new HotReloadService(languageServer, workspaceInformationProvider, channel);
+    context.subscriptions.push(hotReload);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('csharp.hotReload.apply', async () => hotReload.applyChanges())
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('csharp.hotReload.restart', async () => hotReload.restartSessions())
+    );
+}
+
+/**
+ * Applies the code changes to the launched coreclr debug sessions when C# files are saved, when the
+ * csharp.experimental.debug.hotReload option is set.  The language server computes the updates from the changes
+ * since the session started, and the debugger applies them to the process.  Changes the running process can't take,
+ * like rude edits, are reported as diagnostics along with an offer to restart the session.
+ */
+class HotReloadService implements vscode.Disposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('csharp-hot-reload');
+    private readonly _statusItem: vscode.StatusBarItem;
+
+    /** The debug sessions changes are applied to, keyed by session id. */
+    private readonly _sessions = new Map<string, vscode.DebugSession>();
+
+    private _state = HotReloadState.Ready;
+
+    /** Whether the user was told that the language server doesn't support Hot Reload. */
+    private _reportedUnsupported = false;
+
+    /** Saves while changes are being applied chain onto this, so that the changes are applied in order. */
+    private _pendingApply: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly _languageServer: RoslynLanguageServer,
+        private readonly _workspaceInformationProvider: IWorkspaceDebugInformationProvider,
+        private readonly _channel: vscode.LogOutputChannel
+    ) {
+        this._statusItem = vscode.window.createStatusBarItem('csharp.hotReloadStatus', vscode.StatusBarAlignment.Left);
+        this._statusItem.name = vscode.l10n.t('C# Hot Reload');
+
+        this._disposables.push(
+            this._statusItem,
+            this._diagnostics,
+            vscode.debug.onDidStartDebugSession(async (session) => this.startSession(session)),
+            vscode.debug.onDidTerminateDebugSession(async (session) => this.endSession(session)),
+            vscode.workspace.onDidSaveTextDocument(async (document) => {
+                if (document.languageId === 'csharp' || document.languageId === 'aspnetcorerazor') {
+                    await this.applyChanges();
+                }
+            })
+        );
+    }
+
+    public dispose() {
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    public async applyChanges(): Promise<void> {
+        this._pendingApply = this._pendingApply
+            .then(async () => {
+                for (const session of this._sessions.values()) {
+                    await this.applySessionChanges(session);
+                }
+            })
+            .catch((e) => this._channel.error(`Unable to apply code changes: ${e}`));
+        return this._pendingApply;
+    }
+
+    /** Restarts the sessions, building and launching the projects again with all of the changes. */
+    public async restartSessions(): Promise<void> {
+        for (const session of [...this._sessions.values()]) {
+            await vscode.debug.stopDebugging(session);
+            await vscode.debug.startDebugging(session.workspaceFolder, session.configuration);
+        }
+    }
+
+    private async startSession(session: vscode.DebugSession): Promise<void> {
+        const configuration = session.configuration;
+        if (
+            !isHotReloadAvailable(this._languageServer) ||
+            session.type !== 'coreclr' ||
+            configuration.request !== 'launch' ||
+            configuration.noDebug ||
+            session.workspaceFolder === undefined
+        ) {
+            return;
+        }
+
+        const projects = await this._workspaceInformationProvider.getWorkspaceDebugInformation(
+            session.workspaceFolder.uri
+        );
+        const project = findLaunchedProject(projects ?? [], configuration.program);
+        if (project === undefined) {
+            this._channel.debug(`Hot Reload is not available for '${session.name}', its program is not a project.`);
+            return;
+        }
+
+        const cancellationSource = new vscode.CancellationTokenSource();
+        try {
+            await this._languageServer.sendRequest(
+                HotReloadStartSessionRequest.type,
+                { sessionId: session.id, projectFilePaths: [project.projectPath] },
+                cancellationSource.token
+            );
+        } catch (e) {
+            this._channel.warn(`Unable to start Hot Reload for '${session.name}': ${e}`);
+            if (!this._reportedUnsupported) {
+                this._reportedUnsupported = true;
+                showInformationMessage(
+                    vscode,
+                    vscode.l10n.t("Hot Reload is not available for '{0}', see the C# output for details.", session.name)
+                );
+            }
+            return;
+        } finally {
+            cancellationSource.dispose();
+        }
+
+        this._sessions.set(session.id, session);
+        this.setState(HotReloadState.Ready);
+    }
+
+    private async endSession(session: vscode.DebugSession): Promise<void> {
+        if (!this._sessions.delete(session.id)) {
+            return;
+        }
+
+        if (this._sessions.size === 0) {
+            this._diagnostics.clear();
+        }
+        this.setState(HotReloadState.Ready);
+
+        const cancellationSource = new vscode.CancellationTokenSource();
+        try {
+            await this._languageServer.sendRequest(
+                HotReloadEndSessionRequest.type,
+                { sessionId: session.id },
+                cancellationSource.token
+            );
+        } catch (e) {
+            this._channel.debug(`Unable to end Hot Reload for '${session.name}': ${e}`);
+        } finally {
+            cancellationSource.dispose();
+        }
+    }
+
+    private async applySessionChanges(session: vscode.DebugSession): Promise<void> {
+        const cancellationSource = new vscode.CancellationTokenSource();
+        try {
+            await this.applySessionChangesCore(session, cancellationSource.token);
+        } finally {
+            cancellationSource.dispose();
+        }
+    }
+
+    private async applySessionChangesCore(session: vscode.DebugSession, token: vscode.CancellationToken) {
+        this.setState(HotReloadState.Applying);
+        let result: HotReloadUpdates;
+        try {
+            result = await this._languageServer.sendRequest(
+                HotReloadGetUpdatesRequest.type,
+                { sessionId: session.id },
+                token
+            );
+        } catch (e) {
+            this._channel.warn(`Unable to get Hot Reload updates for '${session.name}': ${e}`);
+            this.setState(HotReloadState.Unavailable);
+            return;
+        }
+
+        this.setDiagnostics(result.diagnostics);
+        switch (result.status) {
+            case HotReloadUpdateStatus.None:
+                this.setState(HotReloadState.Ready);
+                return;
+            case HotReloadUpdateStatus.Blocked:
+                this.setState(HotReloadState.Blocked);
+                return;
+            case HotReloadUpdateStatus.RestartRequired:
+                this.setState(HotReloadState.RestartRequired);
+                this.offerRestart(session, result.diagnostics);
+                return;
+        }
+
+        let applied = false;
+        try {
+            await session.customRequest(ApplyUpdatesRequest, { updates: result.updates });
+            applied = true;
+        } catch (e) {
+            showErrorMessage(vscode, vscode.l10n.t("Unable to apply code changes to '{0}': {1}", session.name, `${e}`));
+        }
+
+        // Let the server know whether the changes are the baseline of the next ones.
+        try {
+            await this._languageServer.sendRequest(
+                HotReloadCommitUpdatesRequest.type,
+                { sessionId: session.id, applied },
+                token
+            );
+        } catch (e) {
+            this._channel.warn(`Unable to commit Hot Reload updates for '${session.name}': ${e}`);
+        }
+
+        this.setState(applied ? HotReloadState.Applied : HotReloadState.RestartRequired);
+    }
+
+    private offerRestart(session: vscode.DebugSession, diagnostics: HotReloadDiagnostic[]) {
+        const message =
+            diagnostics.length > 0
+                ? vscode.l10n.t(
+                      "Code changes can't be applied to '{0}' while it is running: {1}",
+                      session.name,
+                      `${diagnostics[0].code}: ${diagnostics[0].message}`
+                  )
+                : vscode.l10n.t("Code changes can't be applied to '{0}' while it is running.", session.name);
+        showWarningMessage(
+            vscode,
+            message,
+            { title: vscode.l10n.t('Restart'), command: 'csharp.hotReload.restart' },
+            { title: vscode.l10n.t('Show Problems'), command: 'workbench.actions.view.problems' }
+        );
+    }
+
+    private setDiagnostics(hotReloadDiagnostics: HotReloadDiagnostic[]) {
+        const diagnosticsByUri = new Map<string, vscode.Diagnostic[]>();
+        for (const hotReloadDiagnostic of hotReloadDiagnostics) {
+            const { start, end } = hotReloadDiagnostic.range;
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(start.line, start.character, end.line, end.character),
+                hotReloadDiagnostic.message,
+                // LSP severities start at 1 for errors, VS Code severities at 0.
+                hotReloadDiagnostic.severity - 1
+            );
+            diagnostic.code = hotReloadDiagnostic.code;
+            diagnostic.source = vscode.l10n.t('Hot Reload');
+            diagnosticsByUri.set(hotReloadDiagnostic.uri, [
+                ...(diagnosticsByUri.get(hotReloadDiagnostic.uri) ?? []),
+                diagnostic,
+            ]);
+        }
+
+        this._diagnostics.clear();
+        for (const [uri, diagnostics] of diagnosticsByUri) {
+            this._diagnostics.set(UriConverter.deserialize(uri), diagnostics);
+        }
+    }
+
+    /** Shows the state in the status bar while there are sessions to apply changes to. */
+    private setState(state: HotReloadState) {
+        this._state = state;
+        void vscode.commands.executeCommand('setContext', HotReloadActiveContextKey, this._sessions.size > 0);
+
+        if (this._sessions.size === 0) {
+            this._statusItem.hide();
+            return;
+        }
+
+        const { text, tooltip } = getStatusText(this._state);
+        this._statusItem.text = text;
+        this._statusItem.tooltip = tooltip;
+        this._statusItem.command =
+            this._state === HotReloadState.RestartRequired ? 'csharp.hotReload.restart' : 'csharp.hotReload.apply';
+        this._statusItem.show();
+    }
+}
+
+function getStatusText(state: HotReloadState): { text: string; tooltip: string } {
+    switch (state) {
+        case HotReloadState.Applying:
+            return {
+                text: '$(sync~spin) ' + vscode.l10n.t('Hot Reload'),
+                tooltip: vscode.l10n.t('Applying code changes'),
+            };
+        case HotReloadState.Applied:
+            return {
+                text: '$(flame) ' + vscode.l10n.t('Hot Reload'),
+                tooltip: vscode.l10n.t('Code changes were applied'),
+            };
+        case HotReloadState.Blocked:
+            return {
+                text: '$(error) ' + vscode.l10n.t('Hot Reload'),
+                tooltip: vscode.l10n.t('Fix the compilation errors to apply code changes'),
+            };
+        case HotReloadState.RestartRequired:
+            return {
+                text: '$(warning) ' + vscode.l10n.t('Hot Reload'),
+                tooltip: vscode.l10n.t('Restart debugging to apply code changes'),
+            };
+        case HotReloadState.Unavailable:
+            return {
+                text: '$(circle-slash) ' + vscode.l10n.t('Hot Reload'),
+                tooltip: vscode.l10n.t('Unable to get the code changes, see the C# output for details'),
+            };
+        default:
+            return {
+                text: '$(flame) ' + vscode.l10n.t('Hot Reload'),
+                tooltip: vscode.l10n.t('Code changes are applied when C# files are saved'),
+            };
+    }
+}
@@ -73,6 +73,12 @@ class ProjectContextStatus {
         projectContextService.onActiveFileContextChanged((e) => {
             item.text = e.context._vs_label;
 
+            // Files in multi-targeted projects, or linked into several projects, can be viewed in each context.
+            item.command =
+                e.contexts.length > 1
+                    ? { command: 'csharp.changeProjectContext', title: vscode.l10n.t('Change Context') }
+                    : undefined;
+
             // Show a warning when the active file is part of the Miscellaneous File workspace and
             // project initialization is complete.
             if (languageServer.state === ServerState.ProjectInitializationComplete) {
@@ -0,0 +1,82 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { ServerHealthMonitor } from '../shared/serverHealthMonitor';
+import { BufferedOutputChannel } from '../shared/bufferedOutputChannel';
+
+/** The LSP error codes of cancelled requests: RequestCancelled and ServerCancelled. */
+const CancelledErrorCodes = [-32800, -32802];
+
+export type LspTraceEvent =
+    | { kind: 'requestSent'; method: string; id: number }
+    | { kind: 'responseReceived'; method: string; id: number; durationMs: number; errorCode: number | undefined };
+
+/**
+ * Parses a line of the text LSP trace written by the language client, returning the request events it describes.
+ */
+export function parseLspTraceLine(line: string): LspTraceEvent | undefined {
+    const sent = /^\[Trace - [^\]]+\] Sending request '(.+) - \((\d+)\)'\./.exec(line);
+    if (sent) {
+        return { kind: 'requestSent', method: sent[1], id: Number(sent[2]) };
+    }
+
+    const received =
+        /^\[Trace - [^\]]+\] Received response '(.+) - \((\d+)\)' in (\d+)ms\.(?: Request failed: .* \((-?\d+)\)\.)?/.exec(
+            line
+        );
+    if (received) {
+        return {
+            kind: 'responseReceived',
+            method: received[1],
+            id: Number(received[2]),
+            durationMs: Number(received[3]),
+            errorCode: received[4] !== undefined ? Number(received[4]) : undefined,
+        };
+    }
+
+    return undefined;
+}
+
+/**
+ * The channel the language client writes its trace to.  Forwards everything to the real output channel, and feeds the
+ * requests in the trace to the health monitor.
+ */
+export class LspTraceOutputChannel extends BufferedOutputChannel {
+    private _partialLine = '';
+
+    constructor(channel: vscode.OutputChannel, private readonly _monitor: ServerHealthMonitor) {
+        super(channel);
+    }
+
+    public clear(): void {
+        super.clear();
+        this._partialLine = '';
+    }
+
+    protected onAppend(text: string) {
+        super.onAppend(text);
+        this.handleText(text);
+    }
+
+    private handleText(text: string) {
+        const lines = (this._partialLine + text).split('\n');
+        this._partialLine = lines.pop()!;
+        for (const line of lines) {
+            const event = parseLspTraceLine(line);
+            if (event?.kind === 'requestSent') {
+                this._monitor.requestStarted(event.id, event.method);
+            } else if (event?.kind === 'responseReceived') {
+                const outcome =
+                    event.errorCode === undefined
+                        ? 'succeeded'
+                        : CancelledErrorCodes.includes(event.errorCode)
+                        ? 'cancelled'
+                        : 'failed';
+                this._monitor.requestCompleted(event.id, outcome, undefined, event.durationMs);
+            }
+        }
+    }
+}
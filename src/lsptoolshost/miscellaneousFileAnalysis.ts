@@ -0,0 +1,84 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+
+/** Why a project does not compile a file that is in its folder. */
+export type ProjectExclusion =
+    | { kind: 'compileRemove'; pattern: string; line: number }
+    | { kind: 'defaultCompileItemsDisabled'; line: number }
+    | { kind: 'defaultItemExcludes'; folder: string };
+
+/** Folders the .NET SDK leaves out of the default compile items. */
+const DefaultExcludedFolders = ['bin', 'obj'];
+
+/**
+ * Finds why the project (whose text is given) does not include a file from its folder, by looking for the ways SDK-style
+ * projects commonly exclude files.  Returns undefined if no reason could be found.
+ */
+export function findProjectExclusion(
+    projectFile: string,
+    projectText: string,
+    filePath: string
+): ProjectExclusion | undefined {
+    const relativePath = path.relative(path.dirname(projectFile), filePath).replace(/\\/g, '/');
+    const lines = projectText.split(/\r?\n/);
+
+    for (let line = 0; line < lines.length; line++) {
+        for (const match of lines[line].matchAll(/<Compile\s+Remove\s*=\s*"([^"]+)"/gi)) {
+            const pattern = match[1]
+                .split(';')
+                .map((p) => p.trim())
+                .find((p) => matchesMSBuildGlob(p, relativePath));
+            if (pattern !== undefined) {
+                return { kind: 'compileRemove', pattern, line };
+            }
+        }
+    }
+
+    const folder = relativePath.split('/')[0];
+    if (DefaultExcludedFolders.includes(folder.toLowerCase())) {
+        return { kind: 'defaultItemExcludes', folder };
+    }
+
+    const disabledLine = lines.findIndex((l) => /<EnableDefaultCompileItems>\s*false\s*</i.test(l));
+    const includedExplicitly = [...projectText.matchAll(/<Compile\s+Include\s*=\s*"([^"]+)"/gi)].some((match) =>
+        match[1].split(';').some((p) => matchesMSBuildGlob(p.trim(), relativePath))
+    );
+    if (disabledLine !== -1 && !includedExplicitly) {
+        return { kind: 'defaultCompileItemsDisabled', line: disabledLine };
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns whether a path relative to the project matches an MSBuild glob.  Globs using properties can't be evaluated
+ * here and never match.
+ */
+function matchesMSBuildGlob(pattern: string, relativePath: string): boolean {
+    if (pattern === '' || pattern.includes('$(')) {
+        return false;
+    }
+
+    const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+    let regex = '';
+    for (let i = 0; i < normalized.length; i++) {
+        const c = normalized[i];
+        if (c === '*' && normalized[i + 1] === '*') {
+            // '**/' matches any number of folders, including none.
+            regex += normalized[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += normalized[i + 2] === '/' ? 2 : 1;
+        } else if (c === '*') {
+            regex += '[^/]*';
+        } else if (c === '?') {
+            regex += '[^/]';
+        } else {
+            regex += c.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${regex}$`, 'i').test(relativePath);
+}
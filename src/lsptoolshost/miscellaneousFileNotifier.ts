@@ -5,10 +5,26 @@
 
 import * as vscode from 'vscode';
 import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
 import { RoslynLanguageServer } from './roslynLanguageServer';
 import { ActionOption, showWarningMessage } from '../shared/observers/utils/showMessage';
 import { ServerState } from './serverStateChange';
 import { languageServerOptions } from '../shared/options';
+import {
+    findContainingProjectFile,
+    normalizeFilePath,
+    parseSolutionProjects,
+    SolutionFilesGlob,
+} from '../shared/utils/projectFiles';
+import { RestorableProjects } from './roslynProtocol';
+import { findProjectExclusion } from './miscellaneousFileAnalysis';
+
+/** Why a document is not part of the open workspace, and the actions that can fix it. */
+interface MiscellaneousFileDiagnosis {
+    reason: string;
+    remedies: ActionOption[];
+}
 
 const SuppressMiscellaneousFilesToastsOption = 'dotnet.server.suppressMiscellaneousFilesToasts';
 const NotifiedDocuments = new Set<string>();
@@ -17,7 +33,7 @@ export function registerMiscellaneousFileNotifier(
     context: vscode.ExtensionContext,
     languageServer: RoslynLanguageServer
 ) {
-    languageServer._projectContextService.onActiveFileContextChanged((e) => {
+    languageServer._projectContextService.onActiveFileContextChanged(async (e) => {
         // Only warn for C# miscellaneous files when the workspace is fully initialized.
         if (
             e.languageId !== 'csharp' ||
@@ -44,6 +60,7 @@ export function registerMiscellaneousFileNotifier(
 
         NotifiedDocuments.add(hash);
 
+        const diagnosis = await diagnoseMiscellaneousFile(languageServer, e.uri);
         const message = vscode.l10n.t(
             'The active document is not part of the open workspace. Not all language features will be available.'
         );
@@ -55,10 +72,154 @@ export function registerMiscellaneousFileNotifier(
                 context.workspaceState.update(SuppressMiscellaneousFilesToastsOption, true);
             },
         };
-        showWarningMessage(vscode, message, dismissItem, disableWorkspace);
+        showWarningMessage(
+            vscode,
+            diagnosis ? `${message} ${diagnosis.reason}` : message,
+            ...(diagnosis?.remedies ?? []),
+            dismissItem,
+            disableWorkspace
+        );
     });
 }
 
+/**
+ * Works out why a file isn't part of the open workspace from its nearest project, and which actions would add it.
+ */
+async function diagnoseMiscellaneousFile(
+    languageServer: RoslynLanguageServer,
+    uri: vscode.Uri
+): Promise<MiscellaneousFileDiagnosis | undefined> {
+    if (uri.scheme !== 'file') {
+        return undefined;
+    }
+
+    const projectFile = findContainingProjectFile(uri.fsPath);
+    if (projectFile === undefined) {
+        return { reason: vscode.l10n.t('It is not in the folder of any project.'), remedies: [] };
+    }
+
+    const projectName = path.basename(projectFile);
+    const openProjectFile = (line = 0): ActionOption => ({
+        title: vscode.l10n.t('Open {0}', projectName),
+        action: async () => {
+            const position = new vscode.Position(line, 0);
+            await vscode.window.showTextDocument(vscode.Uri.file(projectFile), {
+                selection: new vscode.Range(position, position),
+            });
+        },
+    });
+
+    let loadedProjects: string[];
+    try {
+        loadedProjects = await languageServer.sendRequest0(
+            RestorableProjects.type,
+            new vscode.CancellationTokenSource().token
+        );
+    } catch {
+        return undefined;
+    }
+
+    if (!loadedProjects.some((p) => normalizeFilePath(p) === normalizeFilePath(projectFile))) {
+        const remedies: ActionOption[] = [];
+        const solutionFile = await findSolutionContaining(projectFile);
+        if (solutionFile !== undefined) {
+            remedies.push({
+                title: vscode.l10n.t('Open {0}', path.basename(solutionFile.fsPath)),
+                action: async () => openSolutionReplacingWorkspace(languageServer, solutionFile),
+            });
+        }
+        remedies.push({
+            title: vscode.l10n.t('Load {0}', projectName),
+            action: async () => languageServer.addProjects([vscode.Uri.file(projectFile)]),
+        });
+
+        return {
+            reason: vscode.l10n.t('Its project, {0}, is not part of the opened solution.', projectName),
+            remedies,
+        };
+    }
+
+    let projectText: string;
+    try {
+        projectText = await fs.promises.readFile(projectFile, 'utf8');
+    } catch {
+        return undefined;
+    }
+
+    const exclusion = findProjectExclusion(projectFile, projectText, uri.fsPath);
+    switch (exclusion?.kind) {
+        case 'compileRemove':
+            return {
+                reason: vscode.l10n.t(
+                    'It is removed from {0} by <Compile Remove="{1}" />.',
+                    projectName,
+                    exclusion.pattern
+                ),
+                remedies: [openProjectFile(exclusion.line)],
+            };
+        case 'defaultCompileItemsDisabled':
+            return {
+                reason: vscode.l10n.t(
+                    '{0} disables the default compile items and does not include it explicitly.',
+                    projectName
+                ),
+                remedies: [openProjectFile(exclusion.line)],
+            };
+        case 'defaultItemExcludes':
+            return {
+                reason: vscode.l10n.t(
+                    "Files in the '{0}' folder are excluded from {1} by default.",
+                    exclusion.folder,
+                    projectName
+                ),
+                remedies: [],
+            };
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Finds a solution in the workspace that contains the project.
+ */
+async function findSolutionContaining(projectFile: string): Promise<vscode.Uri | undefined> {
+    const solutionFiles = await vscode.workspace.findFiles(SolutionFilesGlob, '**/node_modules/**');
+    for (const solutionFile of solutionFiles) {
+        try {
+            const text = await fs.promises.readFile(solutionFile.fsPath, 'utf8');
+            const projects = parseSolutionProjects(solutionFile.fsPath, text);
+            if (projects.some((p) => normalizeFilePath(p) === normalizeFilePath(projectFile))) {
+                return solutionFile;
+            }
+        } catch {
+            // Ignore solutions we can't read.
+        }
+    }
+
+    return undefined;
+}
+
 function createHash(data: string): string {
     return crypto.createHash('sha256').update(data).digest('hex');
 }
+
+/** Opens the solution once the user confirmed that the solution or projects already opened will be unloaded. */
+async function openSolutionReplacingWorkspace(languageServer: RoslynLanguageServer, solutionFile: vscode.Uri) {
+    const openedWorkspace = languageServer.workspaceDisplayName();
+    if (openedWorkspace !== '') {
+        const openItem = vscode.l10n.t('Open');
+        const result = await vscode.window.showWarningMessage(
+            vscode.l10n.t('Open {0}?', path.basename(solutionFile.fsPath)),
+            {
+                modal: true,
+                detail: vscode.l10n.t('{0} will be unloaded.', openedWorkspace),
+            },
+            openItem
+        );
+        if (result !== openItem) {
+            return;
+        }
+    }
+
+    await languageServer.openSolution(solutionFile);
+}
@@ -0,0 +1,80 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Schedules operations that are scoped to a set of keys (for example project file paths).
+ * Operations sharing a key run one after another in the order they were enqueued, while operations with
+ * disjoint keys run concurrently.  An operation without keys is scoped to everything; it waits for all
+ * previously enqueued operations and every later operation waits for it.
+ */
+export class OperationQueue {
+    /** The completion of the last operation enqueued for each key. */
+    private _tails = new Map<string, Promise<void>>();
+
+    /** The completion of the last operation enqueued without keys. */
+    private _exclusiveTail: Promise<void> = Promise.resolve();
+
+    private _pending = new Map<string, number>();
+    private _pendingExclusive = 0;
+
+    public async enqueue<T>(keys: string[] | undefined, operation: () => Promise<T>): Promise<T> {
+        const uniqueKeys = keys ? [...new Set(keys)] : undefined;
+
+        let previous: Promise<unknown>;
+        if (uniqueKeys === undefined) {
+            previous = Promise.all([this._exclusiveTail, ...this._tails.values()]);
+        } else {
+            previous = Promise.all([this._exclusiveTail, ...uniqueKeys.map(async (key) => this._tails.get(key))]);
+        }
+
+        this.markPending(uniqueKeys, 1);
+        const result = previous.then(async () => operation());
+        const tail = result.then(
+            () => this.markPending(uniqueKeys, -1),
+            () => this.markPending(uniqueKeys, -1)
+        );
+
+        if (uniqueKeys === undefined) {
+            this._exclusiveTail = tail;
+            // Every later operation waits on the exclusive operation, which in turn waits on all the current tails.
+            this._tails.clear();
+        } else {
+            uniqueKeys.forEach((key) => this._tails.set(key, tail));
+        }
+
+        return result;
+    }
+
+    /**
+     * Returns true if an operation enqueued with these keys would have to wait for another operation to complete.
+     */
+    public isBusy(keys: string[] | undefined): boolean {
+        if (this._pendingExclusive > 0) {
+            return true;
+        }
+
+        if (keys === undefined) {
+            return this._pending.size > 0;
+        }
+
+        return keys.some((key) => this._pending.has(key));
+    }
+
+    private markPending(keys: string[] | undefined, delta: number) {
+        if (keys === undefined) {
+            this._pendingExclusive += delta;
+            return;
+        }
+
+        for (const key of keys) {
+            const count = (this._pending.get(key) ?? 0) + delta;
+            if (count > 0) {
+                this._pending.set(key, count);
+            } else {
+                this._pending.delete(key);
+            }
+        }
+    }
+}
@@ -3,16 +3,33 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
 import { EOL } from 'os';
 import { LogOutputChannel } from 'vscode';
+import { RoslynLanguageServer } from './roslynLanguageServer';
+import { languageServerOptions } from '../shared/options';
+import { getDotnetInfo } from '../shared/utils/getDotnetInfo';
+import { writeZipFile, ZipEntry } from '../shared/utils/zipFile';
+import { getLogFileEntries } from '../shared/diagnosticBundle';
+import { showErrorMessage, showInformationMessage } from '../shared/observers/utils/showMessage';
+
+/** How long to wait for the trace to be flushed once the server stopped, in milliseconds. */
+const TraceFlushTimeout = 10000;
+
+/** The trace being recorded, which the server is started with. */
+let _recording: { outputPath: string; providers: string[] } | undefined;
 
 export function getProfilingEnvVars(outputChannel: LogOutputChannel): NodeJS.ProcessEnv {
     let profilingEnvVars = {};
-    if (process.env.ROSLYN_DOTNET_EventPipeOutputPath) {
+    const outputPath = _recording?.outputPath ?? process.env.ROSLYN_DOTNET_EventPipeOutputPath;
+    if (outputPath) {
         profilingEnvVars = {
             DOTNET_EnableEventPipe: 1,
-            DOTNET_EventPipeConfig: 'Microsoft-Windows-DotNETRuntime:0x1F000080018:5',
-            DOTNET_EventPipeOutputPath: process.env.ROSLYN_DOTNET_EventPipeOutputPath,
+            DOTNET_EventPipeConfig:
+                _recording?.providers.join(',') ?? 'Microsoft-Windows-DotNETRuntime:0x1F000080018:5',
+            DOTNET_EventPipeOutputPath: outputPath,
             DOTNET_ReadyToRun: 0,
             DOTNET_TieredCompilation: 1,
             DOTNET_TC_CallCounting: 0,
@@ -24,3 +41,121 @@ export function getProfilingEnvVars(outputChannel: LogOutputChannel): NodeJS.Pro
 
     return profilingEnvVars;
 }
+
+export function registerPerformanceTraceCommand(
+    context: vscode.ExtensionContext,
+    languageServer: RoslynLanguageServer,
+    outputChannel: LogOutputChannel
+) {
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.server.recordPerformanceTrace', async () =>
+            recordPerformanceTrace(context, languageServer, outputChannel)
+        )
+    );
+}
+
+/**
+ * Restarts the server with EventPipe enabled, records for the duration the user picks, then restarts the server
+ * without it and zips the trace with the logs and `dotnet --info` output.
+ */
+async function recordPerformanceTrace(
+    context: vscode.ExtensionContext,
+    languageServer: RoslynLanguageServer,
+    outputChannel: LogOutputChannel
+): Promise<void> {
+    if (_recording !== undefined) {
+        showInformationMessage(vscode, vscode.l10n.t('A performance trace is already being recorded.'));
+        return;
+    }
+
+    const durations = [10, 30, 60, 120].map((seconds) => ({
+        label: vscode.l10n.t('{0} seconds', seconds),
+        seconds,
+    }));
+    const duration = await vscode.window.showQuickPick(durations, {
+        placeHolder: vscode.l10n.t('How long should the performance trace be recorded?'),
+    });
+    if (!duration) {
+        return;
+    }
+
+    const name = `trace-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    const traceDirectory = path.join(context.logUri.fsPath, 'traces');
+    await fs.promises.mkdir(traceDirectory, { recursive: true });
+    const tracePath = path.join(traceDirectory, `${name}.nettrace`);
+
+    _recording = { outputPath: tracePath, providers: languageServerOptions.eventPipeProviders };
+    try {
+        await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: vscode.l10n.t('Recording language server performance trace'),
+                cancellable: true,
+            },
+            async (progress, token) => {
+                outputChannel.info(`Restarting the language server to record a performance trace to ${tracePath}`);
+                await languageServer.restart();
+
+                // Cancelling stops the recording early, but still produces the trace.
+                for (let elapsed = 0; elapsed < duration.seconds && !token.isCancellationRequested; elapsed++) {
+                    progress.report({
+                        message: vscode.l10n.t('{0} seconds left', duration.seconds - elapsed),
+                        increment: 100 / duration.seconds,
+                    });
+                    await new Promise((resolve) => setTimeout(resolve, 1000));
+                }
+
+                // The trace is only complete once the runtime shuts down, so stop the server before restarting it.
+                progress.report({ message: vscode.l10n.t('Stopping the language server') });
+                await languageServer.stop();
+            }
+        );
+    } finally {
+        // Whether or not recording failed, restart the server without tracing so that the user isn't left without one.
+        _recording = undefined;
+        await waitForTraceFlush(tracePath);
+        await languageServer.restart();
+    }
+
+    try {
+        const zipPath = path.join(traceDirectory, `${name}.zip`);
+        await writeZipFile(zipPath, await getTraceBundleEntries(context, tracePath));
+        outputChannel.info(`Performance trace written to ${zipPath}`);
+        showInformationMessage(vscode, vscode.l10n.t('The language server performance trace was recorded.'), {
+            title: vscode.l10n.t('Reveal in File Explorer'),
+            command: 'revealFileInOS',
+            arguments: [vscode.Uri.file(zipPath)],
+        });
+    } catch (e) {
+        outputChannel.error(`Failed to bundle the performance trace`, e);
+        showErrorMessage(vscode, vscode.l10n.t('Failed to bundle the performance trace: {0}', `${e}`));
+    }
+}
+
+/**
+ * Waits until the trace file stops growing, which happens once the server process flushed it.
+ */
+async function waitForTraceFlush(tracePath: string): Promise<void> {
+    let size = -1;
+    for (let waited = 0; waited < TraceFlushTimeout; waited += 500) {
+        const currentSize = fs.existsSync(tracePath) ? (await fs.promises.stat(tracePath)).size : -1;
+        if (currentSize > 0 && currentSize === size) {
+            return;
+        }
+
+        size = currentSize;
+        await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+}
+
+async function getTraceBundleEntries(context: vscode.ExtensionContext, tracePath: string): Promise<ZipEntry[]> {
+    if (!fs.existsSync(tracePath)) {
+        throw new Error(vscode.l10n.t('The language server did not write a trace to {0}.', tracePath));
+    }
+
+    return [
+        { name: path.basename(tracePath), filePath: tracePath },
+        { name: 'dotnet-info.txt', data: (await getDotnetInfo([])).FullInfo },
+        ...(await getLogFileEntries(context)),
+    ];
+}
@@ -13,10 +13,15 @@ import {
     ProjectNeedsRestoreRequest,
 } from './roslynProtocol';
 import path from 'path';
-import { showErrorMessage } from '../shared/observers/utils/showMessage';
 import { getCSharpDevKit } from '../utils/getCSharpDevKit';
+import { OperationQueue } from './operationQueue';
+import { RestoreStatusTracker } from './restoreStatus';
+import { showErrorMessage, showInformationMessage } from '../shared/observers/utils/showMessage';
+import { AutomaticRestoreScheduler } from './automaticRestore';
 
-let _restoreInProgress = false;
+/** Restores of the same project are queued behind each other, while restores of different projects execute concurrently. */
+const _restoreQueue = new OperationQueue();
+let _restoreStatus: RestoreStatusTracker | undefined;
 
 export function registerRestoreCommands(context: vscode.ExtensionContext, languageServer: RoslynLanguageServer) {
     if (getCSharpDevKit()) {
@@ -24,19 +29,49 @@ export function registerRestoreCommands(context: vscode.ExtensionContext, langua
         return;
     }
     const restoreChannel = vscode.window.createOutputChannel(vscode.l10n.t('.NET NuGet Restore'));
+    _restoreStatus = new RestoreStatusTracker();
+    context.subscriptions.push(_restoreStatus);
     context.subscriptions.push(
-        vscode.commands.registerCommand('dotnet.restore.project', async (_request): Promise<void> => {
+        vscode.commands.registerCommand('dotnet.restore.project', async (projectFile?: unknown): Promise<void> => {
+            // The project to restore may be given by other commands, e.g. from the Solution Explorer.
+            if (typeof projectFile === 'string') {
+                return restore(languageServer, restoreChannel, [projectFile], true);
+            }
+
             return chooseProjectAndRestore(languageServer, restoreChannel);
         })
     );
     context.subscriptions.push(
         vscode.commands.registerCommand('dotnet.restore.all', async (): Promise<void> => {
+            if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+                return chooseWorkspaceFolderAndRestore(languageServer, restoreChannel);
+            }
+
             return restore(languageServer, restoreChannel, [], true);
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.restore.showStatus', async (): Promise<void> => {
+            return _restoreStatus?.showStatus(async (projectFiles) =>
+                restore(languageServer, restoreChannel, projectFiles, true)
+            );
+        })
+    );
+
+    const automaticRestore = new AutomaticRestoreScheduler(
+        async (projectFiles) => restore(languageServer, restoreChannel, projectFiles, false),
+        restoreChannel
+    );
+    context.subscriptions.push(automaticRestore);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.restore.showAutomaticRestoreHistory', async (): Promise<void> => {
+            return automaticRestore.showHistory();
+        })
+    );
+
     languageServer.registerOnRequest(ProjectNeedsRestoreRequest.type, async (params) => {
-        await restore(languageServer, restoreChannel, params.projectFilePaths, false);
+        await automaticRestore.request(params.projectFilePaths);
     });
 }
 
@@ -63,6 +98,10 @@ async function chooseProjectAndRestore(
         const item: vscode.QuickPickItem = {
             label: vscode.l10n.t(`Restore {0}`, projectName),
             description: p,
+            detail:
+                (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+                    ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(p))?.name
+                    : undefined,
         };
         return item;
     });
@@ -75,38 +114,101 @@ async function chooseProjectAndRestore(
     await restore(languageServer, restoreChannel, [pickedItem.description!], true);
 }
 
+/**
+ * In a multi-root workspace, lets the user restore the projects of a single workspace folder or of all of them.
+ */
+async function chooseWorkspaceFolderAndRestore(
+    languageServer: RoslynLanguageServer,
+    restoreChannel: vscode.OutputChannel
+): Promise<void> {
+    const allItem: vscode.QuickPickItem = { label: vscode.l10n.t('All workspace folders') };
+    const folderItems = (vscode.workspace.workspaceFolders ?? []).map(
+        (f): vscode.QuickPickItem & { folder: vscode.WorkspaceFolder } => ({
+            label: f.name,
+            description: f.uri.fsPath,
+            folder: f,
+        })
+    );
+    const pickedItem = await vscode.window.showQuickPick([allItem, ...folderItems], {
+        placeHolder: vscode.l10n.t('Select the workspace folder to restore'),
+    });
+    if (!pickedItem) {
+        return;
+    }
+
+    if (pickedItem === allItem) {
+        return restore(languageServer, restoreChannel, [], true);
+    }
+
+    const folder = (pickedItem as (typeof folderItems)[number]).folder;
+    let projects: string[];
+    try {
+        projects = await languageServer.sendRequest0(
+            RestorableProjects.type,
+            new vscode.CancellationTokenSource().token
+        );
+    } catch (e) {
+        if (e instanceof vscode.CancellationError) {
+            return;
+        }
+
+        throw e;
+    }
+
+    const folderProjects = projects.filter(
+        (p) => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(p))?.uri.toString() === folder.uri.toString()
+    );
+    if (folderProjects.length === 0) {
+        showInformationMessage(vscode, vscode.l10n.t('There are no projects to restore in {0}.', folder.name));
+        return;
+    }
+
+    return restore(languageServer, restoreChannel, folderProjects, true);
+}
+
 export async function restore(
     languageServer: RoslynLanguageServer,
     restoreChannel: vscode.OutputChannel,
     projectFiles: string[],
     showOutput: boolean
 ): Promise<void> {
-    if (_restoreInProgress) {
-        showErrorMessage(vscode, vscode.l10n.t('Restore already in progress'));
-        return;
-    }
-    _restoreInProgress = true;
     if (showOutput) {
         restoreChannel.show(true);
     }
 
+    // An empty list restores every project, so it has to wait for (and block) all other restores.
+    const keys = projectFiles.length > 0 ? projectFiles : undefined;
     const request: RestoreParams = { projectFilePaths: projectFiles };
-    await vscode.window
-        .withProgress(
-            {
-                location: vscode.ProgressLocation.Notification,
-                title: vscode.l10n.t('Restore'),
-                cancellable: true,
-            },
-            async (progress, token) => {
-                const writeOutput = (output: RestorePartialResult) => {
-                    if (output.message) {
-                        restoreChannel.appendLine(output.message);
-                    }
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title:
+                projectFiles.length === 1
+                    ? vscode.l10n.t('Restore {0}', path.basename(projectFiles[0]))
+                    : vscode.l10n.t('Restore'),
+            cancellable: true,
+        },
+        async (progress, token) => {
+            const writeOutput = (output: RestorePartialResult) => {
+                if (output.message) {
+                    restoreChannel.appendLine(output.message);
+                    _restoreStatus?.handleOutput(output.message, projectFiles);
+                }
+
+                progress.report({ message: output.stage });
+            };
+
+            if (_restoreQueue.isBusy(keys)) {
+                _restoreStatus?.queued(projectFiles);
+                progress.report({ message: vscode.l10n.t('Waiting for previous restore to complete') });
+            }
 
-                    progress.report({ message: output.stage });
-                };
+            await _restoreQueue.enqueue(keys, async () => {
+                if (token.isCancellationRequested) {
+                    return;
+                }
 
+                _restoreStatus?.started(projectFiles);
                 progress.report({ message: vscode.l10n.t('Sending request') });
                 const responsePromise = languageServer.sendRequestWithProgress(
                     RestoreRequest.type,
@@ -115,20 +217,47 @@ export async function restore(
                     token
                 );
 
-                await responsePromise.then(
-                    (result) => result.forEach((r) => writeOutput(r)),
-                    (err) => restoreChannel.appendLine(err)
+                const succeeded = await responsePromise.then(
+                    (result) => {
+                        result.forEach((r) => writeOutput(r));
+                        return true;
+                    },
+                    (err) => {
+                        restoreChannel.appendLine(err);
+                        return false;
+                    }
                 );
-            }
-        )
-        .then(
-            () => {
-                _restoreInProgress = false;
-            },
-            () => {
-                _restoreInProgress = false;
-            }
-        );
+                _restoreStatus?.completed(projectFiles, !succeeded);
+            });
+        }
+    );
 
-    return;
+    // Failures of automatic restores are only reported in the status and the problems, not interrupting the user.
+    if (showOutput) {
+        reportFailedProjects(languageServer, restoreChannel, projectFiles);
+    }
+}
+
+function reportFailedProjects(
+    languageServer: RoslynLanguageServer,
+    restoreChannel: vscode.OutputChannel,
+    projectFiles: string[]
+) {
+    const failedProjects = (_restoreStatus?.failedProjects ?? []).filter(
+        (p) => projectFiles.length === 0 || projectFiles.some((r) => path.normalize(r) === p)
+    );
+    if (failedProjects.length === 0) {
+        return;
+    }
+
+    showErrorMessage(
+        vscode,
+        vscode.l10n.t('Restore failed for {0}', failedProjects.map((p) => path.basename(p)).join(', ')),
+        {
+            title: vscode.l10n.t('Retry Failed'),
+            action: async () => restore(languageServer, restoreChannel, failedProjects, true),
+        },
+        { title: vscode.l10n.t('Show Status'), command: 'dotnet.restore.showStatus' },
+        { title: vscode.l10n.t('Show Output'), action: async () => restoreChannel.show(true) }
+    );
 }
@@ -0,0 +1,66 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+export interface RestoreDiagnostic {
+    /** The project the diagnostic was reported for, if it could be determined. */
+    projectFile?: string;
+    severity: 'error' | 'warning';
+
+    /** The NuGet diagnostic code, e.g. NU1101. */
+    code: string;
+    message: string;
+
+    /** The package the diagnostic is about, if it mentions one. */
+    packageId?: string;
+}
+
+export type RestoreOutputLine =
+    | { kind: 'diagnostic'; diagnostic: RestoreDiagnostic }
+    | { kind: 'restored'; projectFile: string }
+    | { kind: 'failed'; projectFile: string };
+
+const ProjectFileRegex = /\.\w+proj$/i;
+
+// For example:
+//   /src/App/App.csproj : error NU1101: Unable to find package Foo. No packages exist with this id in source(s): nuget.org
+//   /usr/share/dotnet/sdk/8.0.100/NuGet.targets(156,5): error NU1301: Unable to load the service index [/src/App/App.csproj]
+const DiagnosticRegex =
+    /^\s*(.+?)(?:\(\d+(?:,\d+)?\))?\s*:\s*(error|warning)\s+(NU\d{4})\s*:\s*(.*?)(?:\s+\[([^\]]+)\])?\s*$/i;
+const RestoredRegex = /^\s*Restored\s+(.+?\.\w+proj)\b/i;
+const FailedRegex = /^\s*Failed to restore\s+(.+?\.\w+proj)\b/i;
+const PackageIdRegex = /\bpackage\s+'?([A-Za-z0-9_][\w.-]*?)'?(?:\s|\.?$|\.\s|,)/i;
+
+/**
+ * Parses a line of NuGet restore output, returning the NuGet diagnostic or project result it describes (if any).
+ */
+export function parseRestoreOutputLine(line: string): RestoreOutputLine | undefined {
+    const diagnosticMatch = DiagnosticRegex.exec(line);
+    if (diagnosticMatch) {
+        const [, file, severity, code, message, project] = diagnosticMatch;
+        const projectFile = [project, file].find((f) => f !== undefined && ProjectFileRegex.test(f.trim()))?.trim();
+        return {
+            kind: 'diagnostic',
+            diagnostic: {
+                projectFile,
+                severity: severity.toLowerCase() === 'error' ? 'error' : 'warning',
+                code: code.toUpperCase(),
+                message,
+                packageId: PackageIdRegex.exec(message)?.[1],
+            },
+        };
+    }
+
+    const restoredMatch = RestoredRegex.exec(line);
+    if (restoredMatch) {
+        return { kind: 'restored', projectFile: restoredMatch[1] };
+    }
+
+    const failedMatch = FailedRegex.exec(line);
+    if (failedMatch) {
+        return { kind: 'failed', projectFile: failedMatch[1] };
+    }
+
+    return undefined;
+}
@@ -0,0 +1,201 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { parseRestoreOutputLine, RestoreDiagnostic } from './restoreOutputParser';
+import { showInformationMessage } from '../shared/observers/utils/showMessage';
+
+export type ProjectRestoreStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+const StatusIcons: { [status in ProjectRestoreStatus]: string } = {
+    queued: '$(clock)',
+    running: '$(sync~spin)',
+    succeeded: '$(check)',
+    failed: '$(error)',
+};
+
+/**
+ * Tracks the restore status of each project and reports the NuGet errors and warnings from restores as diagnostics
+ * on the project files.
+ */
+export class RestoreStatusTracker implements vscode.Disposable {
+    private readonly _statuses = new Map<string, ProjectRestoreStatus>();
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('dotnet-restore');
+
+    public dispose() {
+        this._diagnostics.dispose();
+    }
+
+    public get failedProjects(): string[] {
+        return [...this._statuses].filter(([, status]) => status === 'failed').map(([projectFile]) => projectFile);
+    }
+
+    public getStatus(projectFile: string): ProjectRestoreStatus | undefined {
+        return this._statuses.get(path.normalize(projectFile));
+    }
+
+    public queued(projectFiles: string[]) {
+        projectFiles.forEach((p) => this._statuses.set(path.normalize(p), 'queued'));
+    }
+
+    /**
+     * Marks the projects as running, clearing the problems reported by their previous restore.  Restoring all projects
+     * (when none are given) starts over for every project.
+     */
+    public started(projectFiles: string[]) {
+        if (projectFiles.length === 0) {
+            this._diagnostics.clear();
+            [...this._statuses.keys()].forEach((p) => this._statuses.set(p, 'running'));
+            return;
+        }
+
+        for (const projectFile of projectFiles.map((p) => path.normalize(p))) {
+            this._statuses.set(projectFile, 'running');
+            this._diagnostics.delete(vscode.Uri.file(projectFile));
+        }
+    }
+
+    /**
+     * Processes the output of a restore of the given projects (or of all projects, if none are given).
+     */
+    public handleOutput(message: string, projectFiles: string[]) {
+        for (const line of message.split(/\r?\n/)) {
+            const parsed = parseRestoreOutputLine(line);
+            if (parsed === undefined) {
+                continue;
+            }
+
+            if (parsed.kind === 'diagnostic') {
+                // Diagnostics that don't name a project can only be attributed when restoring a single project.
+                const projectFile =
+                    parsed.diagnostic.projectFile ?? (projectFiles.length === 1 ? projectFiles[0] : undefined);
+                if (projectFile !== undefined) {
+                    this.addDiagnostic(projectFile, parsed.diagnostic);
+                }
+            } else {
+                this._statuses.set(
+                    path.normalize(parsed.projectFile),
+                    parsed.kind === 'restored' ? 'succeeded' : 'failed'
+                );
+            }
+        }
+    }
+
+    /**
+     * Marks the projects still running in a restore as complete.  Projects are considered failed if the restore request
+     * failed or errors were reported for them.
+     */
+    public completed(projectFiles: string[], requestFailed: boolean) {
+        const projects =
+            projectFiles.length > 0
+                ? projectFiles.map((p) => path.normalize(p))
+                : [...this._statuses.keys()].filter((p) => this._statuses.get(p) === 'running');
+
+        for (const projectFile of projects) {
+            if (this._statuses.get(projectFile) !== 'running') {
+                continue;
+            }
+
+            const hasErrors = (this._diagnostics.get(vscode.Uri.file(projectFile)) ?? []).some(
+                (d) => d.severity === vscode.DiagnosticSeverity.Error
+            );
+            this._statuses.set(projectFile, requestFailed || hasErrors ? 'failed' : 'succeeded');
+        }
+    }
+
+    /**
+     * Shows the restore status of each project, allowing failed projects to be retried.
+     */
+    public async showStatus(retry: (projectFiles: string[]) => Promise<void>): Promise<void> {
+        if (this._statuses.size === 0) {
+            showInformationMessage(vscode, vscode.l10n.t('No projects have been restored yet.'));
+            return;
+        }
+
+        type StatusItem = vscode.QuickPickItem & { projectFile?: string };
+        const items: StatusItem[] = [...this._statuses]
+            .sort(([a], [b]) => path.basename(a).localeCompare(path.basename(b)))
+            .map(([projectFile, status]) => ({
+                label: `${StatusIcons[status]} ${path.basename(projectFile)}`,
+                description: getStatusText(status),
+                detail: projectFile,
+                projectFile,
+            }));
+
+        const failedProjects = this.failedProjects;
+        if (failedProjects.length > 0) {
+            items.unshift({ label: `$(refresh) ${vscode.l10n.t('Retry failed projects')}` });
+        }
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: vscode.l10n.t('Select a project to view its restore problems'),
+        });
+        if (picked === undefined) {
+            return;
+        } else if (picked.projectFile === undefined) {
+            await retry(failedProjects);
+        } else {
+            await vscode.window.showTextDocument(vscode.Uri.file(picked.projectFile));
+        }
+    }
+
+    private addDiagnostic(projectFile: string, restoreDiagnostic: RestoreDiagnostic) {
+        const uri = vscode.Uri.file(path.normalize(projectFile));
+        const diagnostic = new vscode.Diagnostic(
+            findPackageReference(uri.fsPath, restoreDiagnostic.packageId),
+            restoreDiagnostic.message,
+            restoreDiagnostic.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'NuGet';
+        diagnostic.code = {
+            value: restoreDiagnostic.code,
+            target: vscode.Uri.parse(
+                `https://learn.microsoft.com/nuget/reference/errors-and-warnings/${restoreDiagnostic.code.toLowerCase()}`
+            ),
+        };
+
+        // The same problem is often reported more than once during a restore.
+        const existing = this._diagnostics.get(uri) ?? [];
+        if (!existing.some((d) => d.message === diagnostic.message && d.severity === diagnostic.severity)) {
+            this._diagnostics.set(uri, [...existing, diagnostic]);
+        }
+    }
+}
+
+function getStatusText(status: ProjectRestoreStatus): string {
+    switch (status) {
+        case 'queued':
+            return vscode.l10n.t('Queued');
+        case 'running':
+            return vscode.l10n.t('Restoring');
+        case 'succeeded':
+            return vscode.l10n.t('Restored');
+        case 'failed':
+            return vscode.l10n.t('Failed');
+    }
+}
+
+/**
+ * Returns the range of the reference to the package in the project file, or the start of the file if there isn't one.
+ */
+function findPackageReference(projectFile: string, packageId: string | undefined): vscode.Range {
+    if (packageId !== undefined) {
+        try {
+            const lines = fs.readFileSync(projectFile, 'utf8').split(/\r?\n/);
+            const include = `"${packageId.toLowerCase()}"`;
+            const line = lines.findIndex((l) => /<PackageReference\b/i.test(l) && l.toLowerCase().includes(include));
+            if (line !== -1) {
+                const start = lines[line].search(/\S/);
+                return new vscode.Range(line, start, line, lines[line].length);
+            }
+        } catch {
+            // Fall back to the start of the file.
+        }
+    }
+
+    return new vscode.Range(0, 0, 0, 0);
+}
@@ -30,6 +30,7 @@ import {
     RequestHandler,
     ResponseError,
     NotificationHandler0,
+    DocumentDiagnosticRequest,
 } from 'vscode-languageclient/node';
 import { PlatformInformation } from '../shared/platform';
 import { readConfigurations } from './configurationMiddleware';
@@ -46,7 +47,8 @@ import { DotnetRuntimeExtensionResolver } from './dotnetRuntimeExtensionResolver
 import { IHostExecutableResolver } from '../shared/constants/IHostExecutableResolver';
 import { RoslynLanguageClient } from './roslynLanguageClient';
 import { registerUnitTestingCommands } from './unitTesting';
-import { reportProjectConfigurationEvent } from '../shared/projectConfiguration';
+import { registerTestExplorer } from './testExplorer';
+import { ProjectConfigurationMessage, reportProjectConfigurationEvent } from '../shared/projectConfiguration';
 import { getDotnetInfo } from '../shared/utils/getDotnetInfo';
 import { registerLanguageServerOptionChanges } from './optionChanges';
 import { Observable } from 'rxjs';
@@ -62,9 +64,22 @@ import { IDisposable } from '../disposable';
 import { registerNestedCodeActionCommands } from './nestedCodeAction';
 import { registerRestoreCommands } from './restore';
 import { BuildDiagnosticsService } from './buildDiagnosticsService';
+import { BuildDiagnosticsHistory } from './buildDiagnosticsHistory';
 import { getComponentPaths } from './builtInComponents';
 import { OnAutoInsertFeature } from './onAutoInsertFeature';
 import { registerLanguageStatusItems } from './languageStatusBar';
+import { registerSolutionExplorer } from './solutionExplorer';
+import { registerBuildDiagnosticsView } from './buildDiagnosticsView';
+import { ServerCrashSupervisor } from './crashSupervisor';
+import { ServerHealthMonitor } from '../shared/serverHealthMonitor';
+import { registerServerHealthDashboard } from '../shared/serverHealthDashboard';
+import { LspTraceOutputChannel } from './lspTraceMonitor';
+import {
+    parseSolutionProjects,
+    ProjectFilesGlob,
+    SolutionFiltersGlob,
+    SolutionsGlob,
+} from '../shared/utils/projectFiles';
 import { ProjectContextService } from './services/projectContextService';
 import { ProvideDynamicFileResponse } from '../razor/src/dynamicFile/provideDynamicFileResponse';
 import { ProvideDynamicFileParams } from '../razor/src/dynamicFile/provideDynamicFileParams';
@@ -76,13 +91,15 @@ import {
     showInformationMessage,
 } from '../shared/observers/utils/showMessage';
 import { registerSourceGeneratedFilesContentProvider } from './sourceGeneratedFilesContentProvider';
+import { registerSourceGeneratedDocumentsExplorer } from './sourceGeneratedDocumentsExplorer';
 import { registerMiscellaneousFileNotifier } from './miscellaneousFileNotifier';
 import { TelemetryEventNames } from '../shared/telemetryEventNames';
 import { RazorDynamicFileChangedParams } from '../razor/src/dynamicFile/dynamicFileUpdatedParams';
-import { getProfilingEnvVars } from './profiling';
+import { getProfilingEnvVars, registerPerformanceTraceCommand } from './profiling';
 
 let _channel: vscode.LogOutputChannel;
-let _traceChannel: vscode.OutputChannel;
+let _traceChannel: LspTraceOutputChannel;
+let _healthMonitor: ServerHealthMonitor;
 
 // Flag indicating if C# Devkit was installed the last time we activated.
 // Used to determine if we need to restart the server on extension changes.
@@ -109,19 +126,26 @@ export class RoslynLanguageServer {
     private static _stopTimeout = 10000;
 
     /**
-     * The solution file previously opened; we hold onto this so we can send this back over if the server were to be relaunched for any reason, like some other configuration
-     * change that required the server to restart, or some other catastrophic failure that completely took down the process. In the case that the process is crashing because
-     * of trying to load this solution file, we'll rely on VS Code's support to eventually stop relaunching the LSP server entirely.
+     * The solution files previously opened, one per workspace folder (keyed by the folder uri); we hold onto these so we can send them back over if the server were to be relaunched
+     * for any reason, like some other configuration change that required the server to restart, or some other catastrophic failure that completely took down the process. In the case
+     * that the process is crashing because of trying to load a solution file, the crash supervisor stops relaunching the LSP server and offers to reopen without it.
      */
-    private _solutionFile: vscode.Uri | undefined;
+    private _solutionFiles = new Map<string, vscode.Uri>();
 
-    /** The project files previously opened; we hold onto this for the same reason as _solutionFile. */
+    /** The project files previously opened; we hold onto this for the same reason as _solutionFiles. */
     private _projectFiles: vscode.Uri[] = new Array<vscode.Uri>();
 
+    /** Whether the server was restarted without a workspace, in which case the default solution isn't opened. */
+    private _skipDefaultSolution = false;
+
+    /** The latest configuration reported for each project, included in diagnostic bundles. */
+    private _projectConfigurations = new Map<string, ProjectConfigurationMessage>();
+
     public readonly _onAutoInsertFeature: OnAutoInsertFeature;
 
     public readonly _buildDiagnosticService: BuildDiagnosticsService;
     public readonly _projectContextService: ProjectContextService;
+    public readonly _crashSupervisor: ServerCrashSupervisor;
 
     private _state: ServerState = ServerState.Stopped;
 
@@ -142,10 +166,17 @@ export class RoslynLanguageServer {
         this.registerTelemetryChanged();
 
         const diagnosticsReportedByBuild = vscode.languages.createDiagnosticCollection('csharp-build');
-        this._buildDiagnosticService = new BuildDiagnosticsService(diagnosticsReportedByBuild);
+        this._buildDiagnosticService = new BuildDiagnosticsService(
+            diagnosticsReportedByBuild,
+            new BuildDiagnosticsHistory(this._context.workspaceState)
+        );
         this.registerDocumentOpenForDiagnostics();
 
-        this._projectContextService = new ProjectContextService(this, this._languageServerEvents);
+        this._projectContextService = new ProjectContextService(
+            this,
+            this._languageServerEvents,
+            this._context.workspaceState
+        );
 
         // Register Razor dynamic file info handling
         this.registerDynamicFileInfo();
@@ -157,12 +188,34 @@ export class RoslynLanguageServer {
         registerOnAutoInsert(this, this._languageClient);
 
         this._onAutoInsertFeature = new OnAutoInsertFeature(this._languageClient);
+
+        this._crashSupervisor = new ServerCrashSupervisor(this, this._context, _channel);
     }
 
     public get state(): ServerState {
         return this._state;
     }
 
+    /** The version of the running server, if it reported one. */
+    public get serverVersion(): string | undefined {
+        return this._languageClient.initializeResult?.serverInfo?.version;
+    }
+
+    /**
+     * Whether the running server declared the experimental capability, for features that depend on requests not every
+     * server version implements.
+     */
+    public hasExperimentalCapability(name: string): boolean {
+        const experimental = this._languageClient.initializeResult?.capabilities.experimental as
+            | { [name: string]: unknown }
+            | undefined;
+        return experimental?.[name] === true;
+    }
+
+    public get projectConfigurations(): ProjectConfigurationMessage[] {
+        return [...this._projectConfigurations.values()];
+    }
+
     private registerSetTrace() {
         // Set the language client trace level based on the log level option.
         // setTrace only works after the client is already running.
@@ -214,9 +267,9 @@ export class RoslynLanguageServer {
     private registerSendOpenSolution() {
         this._languageClient.onDidChangeState(async (state) => {
             if (state.newState === State.Running) {
-                if (this._solutionFile || this._projectFiles.length > 0) {
+                if (this._solutionFiles.size > 0 || this._projectFiles.length > 0) {
                     await this.sendOpenSolutionAndProjectsNotifications();
-                } else {
+                } else if (!this._skipDefaultSolution) {
                     await this.openDefaultSolutionOrProjects();
                 }
                 await this.sendOrSubscribeForServiceBrokerConnection();
@@ -237,6 +290,7 @@ export class RoslynLanguageServer {
         // Store the dotnet info outside of the notification so we're not running dotnet --info every time the project changes.
         let dotnetInfo: DotnetInfo | undefined = undefined;
         this._languageClient.onNotification(RoslynProtocol.ProjectConfigurationNotification.type, async (params) => {
+            this._projectConfigurations.set(params.ProjectId, params);
             if (!dotnetInfo) {
                 dotnetInfo = await getDotnetInfo([]);
             }
@@ -245,7 +299,7 @@ export class RoslynLanguageServer {
                 params,
                 this._platformInfo,
                 dotnetInfo,
-                this._solutionFile?.fsPath,
+                this.solutionFiles[0]?.fsPath,
                 true
             );
         });
@@ -269,7 +323,8 @@ export class RoslynLanguageServer {
                 hostExecutableResolver,
                 context,
                 telemetryReporter,
-                additionalExtensionPaths
+                additionalExtensionPaths,
+                server._crashSupervisor
             );
         };
 
@@ -297,6 +352,13 @@ export class RoslynLanguageServer {
                 workspace: {
                     configuration: (params) => readConfigurations(params),
                 },
+                // Requests about a document are answered in the project context the user chose for it, if any.
+                sendRequest: async (type, param, token, next) =>
+                    next(type, server._projectContextService.addSelectedContext(param), token),
+            },
+            errorHandler: {
+                error: (error, message, count) => server._crashSupervisor.error(error, message, count),
+                closed: async () => server._crashSupervisor.closed(),
             },
         };
 
@@ -319,6 +381,20 @@ export class RoslynLanguageServer {
         return server;
     }
 
+    /**
+     * Asks VS Code to pull the diagnostics of open documents again, e.g. after the project context of a document changed.
+     */
+    public refreshDiagnostics() {
+        for (const document of vscode.workspace.textDocuments) {
+            const provider = this._languageClient.getFeature(DocumentDiagnosticRequest.method)?.getProvider(document);
+            if (provider) {
+                // The documents share the provider, so this refreshes all of them.
+                provider.onDidChangeDiagnosticsEmitter.fire();
+                return;
+            }
+        }
+    }
+
     public async stop(): Promise<void> {
         await this._languageClient.stop(RoslynLanguageServer._stopTimeout);
     }
@@ -327,9 +403,29 @@ export class RoslynLanguageServer {
         await this._languageClient.restart();
     }
 
+    /**
+     * Restarts the server without opening any solution or project, e.g. when loading the solution crashes the server.
+     */
+    public async restartWithoutWorkspace(): Promise<void> {
+        this._solutionFiles.clear();
+        this._projectFiles = [];
+        this._skipDefaultSolution = true;
+        await this.restart();
+    }
+
+    /** The solution files opened in the workspace (at most one per workspace folder), if solutions rather than individual projects were opened. */
+    public get solutionFiles(): vscode.Uri[] {
+        return [...this._solutionFiles.values()];
+    }
+
+    /** The project files opened in the workspace, if projects rather than solutions were opened. */
+    public get projectFiles(): vscode.Uri[] {
+        return this._projectFiles;
+    }
+
     public workspaceDisplayName(): string {
-        if (this._solutionFile !== undefined) {
-            return path.basename(this._solutionFile.fsPath);
+        if (this._solutionFiles.size > 0) {
+            return this.solutionFiles.map((s) => path.basename(s.fsPath)).join(', ');
         } else if (this._projectFiles?.length > 0) {
             return vscode.l10n.t('Workspace projects');
         }
@@ -439,27 +535,50 @@ export class RoslynLanguageServer {
         throw new Error('Unable to retrieve current solution.');
     }
 
-    public async openSolution(solutionFile: vscode.Uri): Promise<void> {
-        this._solutionFile = solutionFile;
+    /**
+     * Opens the solutions, replacing the solution opened for their workspace folders (if any).
+     */
+    public async openSolution(...solutionFiles: vscode.Uri[]): Promise<void> {
+        this._skipDefaultSolution = false;
+        for (const solutionFile of solutionFiles) {
+            const workspaceFolder = vscode.workspace.getWorkspaceFolder(solutionFile);
+            this._solutionFiles.set(workspaceFolder?.uri.toString() ?? '', solutionFile);
+        }
         this._projectFiles = [];
         await this.sendOpenSolutionAndProjectsNotifications();
     }
 
     public async openProjects(projectFiles: vscode.Uri[]): Promise<void> {
-        this._solutionFile = undefined;
+        this._solutionFiles.clear();
         this._projectFiles = projectFiles;
         await this.sendOpenSolutionAndProjectsNotifications();
     }
 
+    /**
+     * Loads the projects alongside the solutions or projects already opened.  As the server loads a single solution at
+     * a time, opened solutions are replaced by their projects.
+     */
+    public async addProjects(projectFiles: vscode.Uri[]): Promise<void> {
+        const openedProjects =
+            this._solutionFiles.size > 0 ? await getSolutionProjects(this.solutionFiles) : this._projectFiles;
+        const openedPaths = new Set(openedProjects.map((p) => p.fsPath));
+        await this.openProjects([...openedProjects, ...projectFiles.filter((p) => !openedPaths.has(p.fsPath))]);
+    }
+
     private async sendOpenSolutionAndProjectsNotifications(): Promise<void> {
         if (this._languageClient.isRunning()) {
-            if (this._solutionFile !== undefined) {
-                const protocolUri = this._languageClient.clientOptions.uriConverters!.code2Protocol(this._solutionFile);
+            if (this._solutionFiles.size === 1) {
+                const protocolUri = this._languageClient.clientOptions.uriConverters!.code2Protocol(
+                    this.solutionFiles[0]
+                );
                 await this._languageClient.sendNotification(RoslynProtocol.OpenSolutionNotification.type, {
                     solution: protocolUri,
                 });
-            } else if (this._projectFiles.length > 0) {
-                const projectProtocolUris = this._projectFiles.map((uri) =>
+            } else if (this._solutionFiles.size > 1 || this._projectFiles.length > 0) {
+                // The server loads a single solution at a time, so the projects of several solutions are opened instead.
+                const projectFiles =
+                    this._solutionFiles.size > 1 ? await getSolutionProjects(this.solutionFiles) : this._projectFiles;
+                const projectProtocolUris = projectFiles.map((uri) =>
                     this._languageClient.clientOptions.uriConverters!.code2Protocol(uri)
                 );
                 await this._languageClient.sendNotification(RoslynProtocol.OpenProjectNotification.type, {
@@ -498,12 +617,15 @@ export class RoslynLanguageServer {
         // If Dev Kit isn't installed, then we are responsible for picking the solution to open, assuming the user hasn't explicitly
         // disabled it.
         const defaultSolution = commonOptions.defaultSolution;
-        if (!_wasActivatedWithCSharpDevkit && defaultSolution !== 'disable' && this._solutionFile === undefined) {
-            if (defaultSolution !== '') {
+        if (!_wasActivatedWithCSharpDevkit && defaultSolution !== 'disable' && this._solutionFiles.size === 0) {
+            const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+            if (workspaceFolders.length > 1) {
+                await this.openDefaultSolutionPerFolder(workspaceFolders);
+            } else if (defaultSolution !== '') {
                 await this.openSolution(vscode.Uri.file(defaultSolution));
             } else {
                 // Auto open if there is just one solution target; if there's more the one we'll just let the user pick with the picker.
-                const solutionUris = await vscode.workspace.findFiles('**/*.sln', '**/node_modules/**', 2);
+                const solutionUris = await findDefaultSolutionCandidates();
                 if (solutionUris) {
                     if (solutionUris.length === 1) {
                         await this.openSolution(solutionUris[0]);
@@ -538,7 +660,7 @@ export class RoslynLanguageServer {
                     } else if (solutionUris.length === 0) {
                         // We have no solutions, so we'll enumerate what project files we have and just use those.
                         const projectUris = await vscode.workspace.findFiles(
-                            '**/*.csproj',
+                            ProjectFilesGlob,
                             '**/node_modules/**',
                             omnisharpOptions.maxProjectResults
                         );
@@ -550,6 +672,59 @@ export class RoslynLanguageServer {
         }
     }
 
+    /**
+     * Opens a solution for each folder of a multi-root workspace: the folder's default solution, or the only solution in
+     * the folder.  The user is asked to pick the solutions of folders containing several.
+     */
+    private async openDefaultSolutionPerFolder(workspaceFolders: readonly vscode.WorkspaceFolder[]): Promise<void> {
+        const defaultSolutions = commonOptions.defaultSolutions;
+        const solutionFiles: vscode.Uri[] = [];
+        const foldersWithSeveralSolutions: vscode.WorkspaceFolder[] = [];
+        for (const workspaceFolder of workspaceFolders) {
+            const defaultSolution = defaultSolutions.find(
+                (s) => vscode.workspace.getWorkspaceFolder(vscode.Uri.file(s)) === workspaceFolder && fs.existsSync(s)
+            );
+            if (defaultSolution !== undefined) {
+                solutionFiles.push(vscode.Uri.file(defaultSolution));
+                continue;
+            }
+
+            const solutionUris = await findDefaultSolutionCandidates(workspaceFolder);
+            if (solutionUris.length === 1) {
+                solutionFiles.push(solutionUris[0]);
+            } else if (solutionUris.length > 1) {
+                foldersWithSeveralSolutions.push(workspaceFolder);
+            }
+        }
+
+        if (solutionFiles.length > 0) {
+            await this.openSolution(...solutionFiles);
+        } else if (foldersWithSeveralSolutions.length === 0) {
+            // We have no solutions, so we'll enumerate what project files we have and just use those.
+            const projectUris = await vscode.workspace.findFiles(
+                ProjectFilesGlob,
+                '**/node_modules/**',
+                omnisharpOptions.maxProjectResults
+            );
+            await this.openProjects(projectUris);
+        }
+
+        if (foldersWithSeveralSolutions.length > 0) {
+            const chosen = await vscode.window.showInformationMessage(
+                vscode.l10n.t(
+                    'The workspace folders {0} have multiple Visual Studio Solution files; please select one for each to get full IntelliSense.',
+                    foldersWithSeveralSolutions.map((f) => f.name).join(', ')
+                ),
+                vscode.l10n.t('Choose')
+            );
+            if (chosen) {
+                for (const workspaceFolder of foldersWithSeveralSolutions) {
+                    await vscode.commands.executeCommand('dotnet.openSolution', workspaceFolder);
+                }
+            }
+        }
+    }
+
     private async sendOrSubscribeForServiceBrokerConnection(): Promise<void> {
         const csharpDevKitExtension = getCSharpDevKit();
         if (csharpDevKitExtension) {
@@ -580,7 +755,8 @@ export class RoslynLanguageServer {
         hostExecutableResolver: IHostExecutableResolver,
         context: vscode.ExtensionContext,
         telemetryReporter: TelemetryReporter,
-        additionalExtensionPaths: string[]
+        additionalExtensionPaths: string[],
+        crashSupervisor: ServerCrashSupervisor
     ): Promise<MessageTransports> {
         telemetryReporter.sendTelemetryEvent(TelemetryEventNames.ClientServerStart);
         const serverPath = getServerPath(platformInfo);
@@ -673,7 +849,7 @@ export class RoslynLanguageServer {
         }
 
         const profilingEnvVars = getProfilingEnvVars(_channel);
-        env = { ...env, ...profilingEnvVars };
+        env = { ...env, ...profilingEnvVars, ...crashSupervisor.getEnvironmentVariables() };
 
         _channel.trace(`Profiling environment variables: ${JSON.stringify(profilingEnvVars)}`);
 
@@ -699,6 +875,8 @@ export class RoslynLanguageServer {
         }
 
         telemetryReporter.sendTelemetryEvent(TelemetryEventNames.LaunchedServer);
+        crashSupervisor.watch(childProcess);
+        _healthMonitor.setProcess(childProcess.pid);
 
         // Record the stdout and stderr streams from the server process.
         childProcess.stdout.on('data', (data: { toString: (arg0: any) => any }) => {
@@ -1101,7 +1279,12 @@ export async function activateRoslynLanguageServer(
     _channel = outputChannel;
     // Create a separate channel for outputting trace logs - these are incredibly verbose and make other logs very difficult to see.
     // The trace channel verbosity is controlled by the _channel verbosity.
-    _traceChannel = vscode.window.createOutputChannel(vscode.l10n.t('C# LSP Trace Logs'));
+    // The requests in the trace also feed the server health dashboard.
+    _healthMonitor = new ServerHealthMonitor(vscode.l10n.t('C# Language Server'));
+    _traceChannel = new LspTraceOutputChannel(
+        vscode.window.createOutputChannel(vscode.l10n.t('C# LSP Trace Logs')),
+        _healthMonitor
+    );
 
     reporter.sendTelemetryEvent(TelemetryEventNames.ClientInitialize);
 
@@ -1127,20 +1310,35 @@ export async function activateRoslynLanguageServer(
     registerCopilotExtension(languageServer, _channel);
 
     // Register any commands that need to be handled by the extension.
-    registerCommands(context, languageServer, hostExecutableResolver, _channel);
+    registerCommands(context, languageServer, hostExecutableResolver, _channel, _traceChannel);
     registerNestedCodeActionCommands(context, languageServer, _channel);
     registerCodeActionFixAllCommands(context, languageServer, _channel);
 
     registerRazorCommands(context, languageServer);
 
     registerUnitTestingCommands(context, languageServer);
+    registerTestExplorer(context, languageServer, languageServerEvents);
 
     // Register any needed debugger components that need to communicate with the language server.
     registerDebugger(context, languageServer, languageServerEvents, platformInfo, _channel);
 
     registerRestoreCommands(context, languageServer);
 
-    registerSourceGeneratedFilesContentProvider(context, languageServer);
+    registerSolutionExplorer(context, languageServer, languageServerEvents);
+
+    registerBuildDiagnosticsView(context, languageServer._buildDiagnosticService);
+
+    const sourceGeneratedContentProvider = registerSourceGeneratedFilesContentProvider(context, languageServer);
+    registerSourceGeneratedDocumentsExplorer(
+        context,
+        languageServer,
+        languageServerEvents,
+        sourceGeneratedContentProvider,
+        _channel
+    );
+
+    registerServerHealthDashboard(context, _healthMonitor);
+    registerPerformanceTraceCommand(context, languageServer, _channel);
 
     context.subscriptions.push(registerLanguageServerOptionChanges(optionObservable));
 
@@ -1170,6 +1368,38 @@ export async function activateRoslynLanguageServer(
     }
 }
 
+/**
+ * Returns up to two of the solutions in the workspace (folder), to open the solution if it is the only one.  Solution
+ * filters are only considered when there is no solution, so that a filter next to a solution doesn't prevent the
+ * solution from being opened; they can still be chosen in the picker.
+ */
+async function findDefaultSolutionCandidates(workspaceFolder?: vscode.WorkspaceFolder): Promise<vscode.Uri[]> {
+    const pattern = (glob: string) => (workspaceFolder ? new vscode.RelativePattern(workspaceFolder, glob) : glob);
+    const solutionUris = await vscode.workspace.findFiles(pattern(SolutionsGlob), '**/node_modules/**', 2);
+    if (solutionUris.length > 0) {
+        return solutionUris;
+    }
+
+    return vscode.workspace.findFiles(pattern(SolutionFiltersGlob), '**/node_modules/**', 2);
+}
+
+/**
+ * Returns the projects in the solutions.
+ */
+async function getSolutionProjects(solutionFiles: vscode.Uri[]): Promise<vscode.Uri[]> {
+    const projectFiles = new Set<string>();
+    for (const solutionFile of solutionFiles) {
+        try {
+            const text = await fs.promises.readFile(solutionFile.fsPath, 'utf8');
+            parseSolutionProjects(solutionFile.fsPath, text).forEach((p) => projectFiles.add(p));
+        } catch (e) {
+            _channel.warn(`Failed to read the projects in ${solutionFile.fsPath}: ${e}`);
+        }
+    }
+
+    return [...projectFiles].map((p) => vscode.Uri.file(p));
+}
+
 function getServerPath(platformInfo: PlatformInformation) {
     let serverPath = process.env.DOTNET_ROSLYN_SERVER_PATH;
 
@@ -153,10 +153,49 @@ export interface TestProgress {
     totalTests: number;
 }
 
+export type TestOutcome = 'passed' | 'failed' | 'skipped' | 'notFound' | 'none';
+
+export interface TestResult {
+    /**
+     * The fully qualified name of the test method.  Parameterized tests may include their arguments, e.g. Namespace.Class.Method(x: 1).
+     */
+    fullyQualifiedName: string;
+
+    /**
+     * The outcome of the test.
+     */
+    outcome: TestOutcome;
+
+    /**
+     * How long the test took to execute, in milliseconds.
+     */
+    duration?: number;
+
+    /**
+     * The error message reported for a failed test.
+     */
+    errorMessage?: string;
+
+    /**
+     * The stack trace reported for a failed test.
+     */
+    stackTrace?: string;
+
+    /**
+     * Any standard output captured while the test was running.
+     */
+    stdout?: string;
+}
+
 export interface RunTestsPartialResult {
     stage: string;
     message: string;
     progress?: TestProgress;
+
+    /**
+     * The results of the tests that completed since the last report.
+     */
+    results?: TestResult[];
 }
 
 export interface DebugAttachParams {
@@ -241,6 +280,79 @@ export interface SourceGeneratedDocumentText {
     resultId?: string;
 }
 
+export interface SourceGeneratedProjectInfo {
+    projectName: string;
+    projectFilePath: string;
+    generators: SourceGeneratorInfo[];
+}
+
+export interface SourceGeneratorInfo {
+    /** The full type name of the generator. */
+    generatorName: string;
+    assemblyName: string;
+    documents: SourceGeneratedDocumentInfo[];
+}
+
+export interface SourceGeneratedDocumentInfo {
+    /** The `roslyn-source-generated:` uri of the document. */
+    uri: string;
+    /** The name the generator gave the document. */
+    hintName: string;
+}
+
+export interface HotReloadSessionParams {
+    /** The id of the debug session running the projects. */
+    sessionId: string;
+}
+
+export interface HotReloadStartSessionParams extends HotReloadSessionParams {
+    /** The projects running in the debug session; their current state is the baseline changes are computed from. */
+    projectFilePaths: string[];
+}
+
+export interface HotReloadCommitUpdatesParams extends HotReloadSessionParams {
+    /** Whether the debugger applied the updates, making them the baseline of the next changes. */
+    applied: boolean;
+}
+
+export enum HotReloadUpdateStatus {
+    /** Nothing changed since the last updates. */
+    None = 0,
+    /** The changes can be applied with the updates. */
+    Ready = 1,
+    /** The changes contain compilation errors, which have to be fixed first. */
+    Blocked = 2,
+    /** The changes contain edits that can't be applied to the running process, so it has to be restarted. */
+    RestartRequired = 3,
+}
+
+export interface HotReloadModuleUpdate {
+    /** The MVID of the updated module. */
+    module: string;
+    /** The base64 encoded IL, metadata and PDB deltas. */
+    ilDelta: string;
+    metadataDelta: string;
+    pdbDelta: string;
+    /** The metadata tokens of the updated types. */
+    updatedTypes: number[];
+}
+
+export interface HotReloadDiagnostic {
+    uri: string;
+    range: lsp.Range;
+    /** The diagnostic ID, like ENC0020. */
+    code: string;
+    message: string;
+    severity: lsp.DiagnosticSeverity;
+}
+
+export interface HotReloadUpdates {
+    status: HotReloadUpdateStatus;
+    updates: HotReloadModuleUpdate[];
+    /** The rude edits or compilation errors preventing the changes from being applied. */
+    diagnostics: HotReloadDiagnostic[];
+}
+
 export namespace WorkspaceDebugConfigurationRequest {
     export const method = 'workspace/debugConfiguration';
     export const messageDirection: lsp.MessageDirection = lsp.MessageDirection.clientToServer;
@@ -369,8 +481,42 @@ export namespace SourceGeneratorGetTextRequest {
     export const type = new lsp.RequestType<SourceGeneratorGetRequestParams, SourceGeneratedDocumentText, void>(method);
 }
 
+// A proposed request that no released server implements yet; it is only sent to servers advertising the experimental
+// 'sourceGeneratedDocumentsProvider' capability.
+export namespace SourceGeneratedDocumentsRequest {
+    export const method = 'workspace/_roslyn_sourceGeneratedDocuments';
+    export const messageDirection: lsp.MessageDirection = lsp.MessageDirection.clientToServer;
+    export const type = new lsp.RequestType0<SourceGeneratedProjectInfo[], void>(method);
+}
+
 export namespace RefreshSourceGeneratedDocumentNotification {
     export const method = 'workspace/refreshSourceGeneratedDocument';
     export const messageDirection: lsp.MessageDirection = lsp.MessageDirection.serverToClient;
     export const type = new lsp.NotificationType(method);
 }
+
+// The Hot Reload requests are a proposed protocol that no released server implements yet; they are only sent to
+// servers advertising the experimental 'hotReloadProvider' capability.
+export namespace HotReloadStartSessionRequest {
+    export const method = 'workspace/_roslyn_hotReloadStartSession';
+    export const messageDirection: lsp.MessageDirection = lsp.MessageDirection.clientToServer;
+    export const type = new lsp.RequestType<HotReloadStartSessionParams, void, void>(method);
+}
+
+export namespace HotReloadGetUpdatesRequest {
+    export const method = 'workspace/_roslyn_hotReloadGetUpdates';
+    export const messageDirection: lsp.MessageDirection = lsp.MessageDirection.clientToServer;
+    export const type = new lsp.RequestType<HotReloadSessionParams, HotReloadUpdates, void>(method);
+}
+
+export namespace HotReloadCommitUpdatesRequest {
+    export const method = 'workspace/_roslyn_hotReloadCommitUpdates';
+    export const messageDirection: lsp.MessageDirection = lsp.MessageDirection.clientToServer;
+    export const type = new lsp.RequestType<HotReloadCommitUpdatesParams, void, void>(method);
+}
+
+export namespace HotReloadEndSessionRequest {
+    export const method = 'workspace/_roslyn_hotReloadEndSession';
+    export const messageDirection: lsp.MessageDirection = lsp.MessageDirection.clientToServer;
+    export const type = new lsp.RequestType<HotReloadSessionParams, void, void>(method);
+}
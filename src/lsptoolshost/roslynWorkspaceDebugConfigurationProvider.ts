@@ -47,6 +47,15 @@ export class RoslynWorkspaceDebugInformationProvider implements IWorkspaceDebugI
             return;
         }
 
+        // In a multi-root workspace the server returns the projects of every folder, so keep the requested folder's.
+        if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+            response = response.filter(
+                (p) =>
+                    vscode.workspace.getWorkspaceFolder(vscode.Uri.file(p.projectPath))?.uri.toString() ===
+                    workspaceFolder.toString()
+            );
+        }
+
         // LSP serializes and deserializes URIs as (URI formatted) strings not actual types.  So convert to the actual type here.
         const projects: ProjectDebugInformation[] | undefined = await mapAsync(response, async (p) => {
             const webProject = isWebProject(p.projectPath);
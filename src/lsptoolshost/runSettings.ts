@@ -0,0 +1,388 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { commonOptions, languageServerOptions } from '../shared/options';
+import { findContainingProjectFile, ProjectFilesGlob } from '../shared/utils/projectFiles';
+import {
+    findXmlErrors,
+    getRootElementName,
+    getRunSettingsFilePath,
+    resolveRunSettingsFilePath,
+} from './runSettingsParser';
+
+const RunSettingsSelectionStateKey = 'dotnet.test.runSettingsSelection';
+const RunSettingsExtension = '.runsettings';
+const ExcludedFolders = '{**/bin/**,**/obj/**,**/node_modules/**}';
+
+/** The runsettings file selected for each workspace folder (keyed by folder uri); null means none should be used. */
+type RunSettingsSelection = { [workspaceFolderUri: string]: string | null };
+
+export interface ResolvedRunSettings {
+    path: string;
+
+    /** A description of where the runsettings file came from. */
+    source: string;
+}
+
+/**
+ * Determines which runsettings file to use when running the tests in a document.  In order of precedence this is:
+ *   1. The file selected for the document's workspace folder with the dotnet.test.selectRunSettings command.
+ *   2. The dotnet.unitTests.runSettingsPath option.
+ *   3. The RunSettingsFilePath property declared in the document's project or its Directory.Build.props.
+ * Also shows the active runsettings file in the language status and reports malformed runsettings files as diagnostics.
+ */
+export class RunSettingsService implements vscode.Disposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('dotnet-runsettings');
+    private readonly _statusItem: vscode.LanguageStatusItem;
+
+    constructor(private readonly _workspaceState: vscode.Memento) {
+        this._statusItem = vscode.languages.createLanguageStatusItem(
+            'csharp.runSettingsStatus',
+            languageServerOptions.documentSelector
+        );
+        this._statusItem.name = vscode.l10n.t('C# Test Run Settings');
+        this._statusItem.command = {
+            command: 'dotnet.test.selectRunSettings',
+            title: vscode.l10n.t('Select'),
+        };
+
+        this._disposables.push(
+            this._statusItem,
+            this._diagnostics,
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateStatus()),
+            vscode.workspace.onDidChangeConfiguration((e) => {
+                if (e.affectsConfiguration('dotnet.unitTests.runSettingsPath')) {
+                    this.updateStatus();
+                }
+            }),
+            vscode.workspace.onDidOpenTextDocument((document) => this.validateDocument(document)),
+            vscode.workspace.onDidSaveTextDocument((document) => {
+                this.validateDocument(document);
+                this.updateStatus();
+            })
+        );
+
+        vscode.workspace.textDocuments.forEach((document) => this.validateDocument(document));
+        this.updateStatus();
+    }
+
+    public dispose() {
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    /**
+     * Returns the runsettings file to use for the tests in the document, reporting problems finding or reading it
+     * to {@link logWarning}.
+     */
+    public resolve(documentUri: vscode.Uri, logWarning: (message: string) => void): ResolvedRunSettings | undefined {
+        const resolved = this.findRunSettings(documentUri, logWarning);
+        if (resolved === undefined) {
+            return undefined;
+        }
+
+        if (!fs.existsSync(resolved.path)) {
+            logWarning(`Warning: Unable to find run settings file at ${resolved.path}.`);
+            return undefined;
+        }
+
+        if (this.validateFile(resolved.path) > 0) {
+            logWarning(
+                `Warning: The run settings file ${resolved.path} is not valid, see the problems pane for details.`
+            );
+        }
+
+        return resolved;
+    }
+
+    public async selectRunSettings(): Promise<void> {
+        const workspaceFolder = await this.pickWorkspaceFolder();
+        if (workspaceFolder === undefined) {
+            return;
+        }
+
+        type RunSettingsItem = vscode.QuickPickItem & { selection: string | null | undefined };
+        const items: RunSettingsItem[] = [
+            {
+                label: vscode.l10n.t('Auto-detect'),
+                detail: vscode.l10n.t(
+                    'Use the dotnet.unitTests.runSettingsPath setting or the RunSettingsFilePath declared by the project.'
+                ),
+                selection: undefined,
+            },
+            {
+                label: vscode.l10n.t('None'),
+                detail: vscode.l10n.t('Run tests without a runsettings file.'),
+                selection: null,
+            },
+        ];
+
+        for (const [filePath, declaringFile] of await this.discoverRunSettings(workspaceFolder)) {
+            items.push({
+                label: path.basename(filePath),
+                description: path.relative(workspaceFolder.uri.fsPath, filePath),
+                detail: declaringFile
+                    ? vscode.l10n.t('Declared in {0}', path.relative(workspaceFolder.uri.fsPath, declaringFile))
+                    : undefined,
+                selection: filePath,
+            });
+        }
+
+        const current = this.getSelection()[workspaceFolder.uri.toString()];
+        items.forEach((item) => (item.picked = item.selection === current));
+
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: vscode.l10n.t('Select the runsettings file to use for tests in {0}', workspaceFolder.name),
+        });
+        if (picked === undefined) {
+            return;
+        }
+
+        const selection = this.getSelection();
+        if (picked.selection === undefined) {
+            delete selection[workspaceFolder.uri.toString()];
+        } else {
+            selection[workspaceFolder.uri.toString()] = picked.selection;
+        }
+        await this._workspaceState.update(RunSettingsSelectionStateKey, selection);
+
+        if (picked.selection) {
+            this.validateFile(picked.selection);
+        }
+        this.updateStatus();
+    }
+
+    private findRunSettings(
+        documentUri: vscode.Uri,
+        logWarning: (message: string) => void
+    ): ResolvedRunSettings | undefined {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(documentUri);
+        if (workspaceFolder) {
+            const selection = this.getSelection()[workspaceFolder.uri.toString()];
+            if (selection === null) {
+                return undefined;
+            } else if (selection !== undefined) {
+                return { path: selection, source: vscode.l10n.t('Selected for {0}', workspaceFolder.name) };
+            }
+        }
+
+        const runSettingsPathOption = commonOptions.runSettingsPath;
+        if (runSettingsPathOption.length > 0) {
+            let absolutePath = runSettingsPathOption;
+            if (!path.isAbsolute(runSettingsPathOption)) {
+                // Path is relative to the workspace. Create absolute path.
+                if (workspaceFolder === undefined) {
+                    logWarning(
+                        `Warning: Unable to find workspace folder for ${documentUri}, cannot resolve run settings path ${runSettingsPathOption}.`
+                    );
+                    return undefined;
+                }
+                absolutePath = path.join(workspaceFolder.uri.fsPath, runSettingsPathOption);
+            }
+
+            return { path: absolutePath, source: vscode.l10n.t('From the dotnet.unitTests.runSettingsPath setting') };
+        }
+
+        return documentUri.scheme === 'file' ? findDeclaredRunSettings(documentUri.fsPath) : undefined;
+    }
+
+    /**
+     * Finds the runsettings files in the workspace folder, along with the MSBuild file that declares them (if any).
+     */
+    private async discoverRunSettings(
+        workspaceFolder: vscode.WorkspaceFolder
+    ): Promise<Map<string, string | undefined>> {
+        const runSettings = new Map<string, string | undefined>();
+
+        // Relative paths declared in a Directory.Build.props file are relative to each project importing it.
+        const projectFiles = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(workspaceFolder, ProjectFilesGlob),
+            new vscode.RelativePattern(workspaceFolder, ExcludedFolders)
+        );
+        for (const projectFile of projectFiles) {
+            const declared = readProjectRunSettings(projectFile.fsPath);
+            if (declared !== undefined) {
+                runSettings.set(declared.path, declared.declaringFile);
+            }
+        }
+
+        const files = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(workspaceFolder, `**/*${RunSettingsExtension}`),
+            new vscode.RelativePattern(workspaceFolder, ExcludedFolders)
+        );
+        for (const file of files) {
+            if (!runSettings.has(file.fsPath)) {
+                runSettings.set(file.fsPath, undefined);
+            }
+        }
+
+        return runSettings;
+    }
+
+    private async pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        if (folders.length <= 1) {
+            return folders[0];
+        }
+
+        const activeDocument = vscode.window.activeTextEditor?.document.uri;
+        const activeFolder = activeDocument ? vscode.workspace.getWorkspaceFolder(activeDocument) : undefined;
+        return vscode.window.showWorkspaceFolderPick({
+            placeHolder: activeFolder
+                ? vscode.l10n.t('Select a workspace folder (the active document is in {0})', activeFolder.name)
+                : vscode.l10n.t('Select a workspace folder'),
+        });
+    }
+
+    private getSelection(): RunSettingsSelection {
+        return { ...this._workspaceState.get<RunSettingsSelection>(RunSettingsSelectionStateKey, {}) };
+    }
+
+    private updateStatus() {
+        const document = vscode.window.activeTextEditor?.document;
+        if (document === undefined) {
+            return;
+        }
+
+        const resolved = this.findRunSettings(document.uri, () => {
+            /* Problems are reported when the tests are run. */
+        });
+        if (resolved === undefined) {
+            this._statusItem.text = vscode.l10n.t('No runsettings');
+            this._statusItem.detail = undefined;
+            this._statusItem.severity = vscode.LanguageStatusSeverity.Information;
+            return;
+        }
+
+        this._statusItem.text = `$(beaker) ${path.basename(resolved.path)}`;
+        if (!fs.existsSync(resolved.path)) {
+            this._statusItem.detail = vscode.l10n.t('{0} does not exist', resolved.path);
+            this._statusItem.severity = vscode.LanguageStatusSeverity.Warning;
+        } else {
+            this._statusItem.detail = resolved.source;
+            this._statusItem.severity =
+                (this._diagnostics.get(vscode.Uri.file(resolved.path))?.length ?? 0) > 0
+                    ? vscode.LanguageStatusSeverity.Warning
+                    : vscode.LanguageStatusSeverity.Information;
+        }
+    }
+
+    private validateDocument(document: vscode.TextDocument) {
+        if (document.uri.scheme === 'file' && document.fileName.endsWith(RunSettingsExtension)) {
+            this.setDiagnostics(document.uri, document.getText());
+        }
+    }
+
+    /**
+     * Validates the runsettings file on disk, returning the number of problems found.
+     */
+    private validateFile(filePath: string): number {
+        let text: string;
+        try {
+            text = fs.readFileSync(filePath, 'utf8');
+        } catch {
+            return 0;
+        }
+
+        return this.setDiagnostics(vscode.Uri.file(filePath), text);
+    }
+
+    private setDiagnostics(uri: vscode.Uri, text: string): number {
+        const diagnostics = findXmlErrors(text).map(
+            (error) =>
+                new vscode.Diagnostic(
+                    new vscode.Range(positionAt(text, error.offset), positionAt(text, error.offset + error.length)),
+                    error.message,
+                    vscode.DiagnosticSeverity.Error
+                )
+        );
+
+        const rootElement = getRootElementName(text);
+        if (diagnostics.length === 0 && rootElement !== 'RunSettings') {
+            const offset = text.indexOf(`<${rootElement}`) + 1;
+            diagnostics.push(
+                new vscode.Diagnostic(
+                    new vscode.Range(positionAt(text, offset), positionAt(text, offset + (rootElement?.length ?? 0))),
+                    vscode.l10n.t("The root element of a runsettings file must be 'RunSettings'."),
+                    vscode.DiagnosticSeverity.Error
+                )
+            );
+        }
+
+        diagnostics.forEach((d) => (d.source = '.NET Test'));
+        this._diagnostics.set(uri, diagnostics);
+        return diagnostics.length;
+    }
+}
+
+/**
+ * Finds the RunSettingsFilePath declared in the project containing the file, or in the Directory.Build.props that
+ * MSBuild would import for that project.
+ */
+function findDeclaredRunSettings(filePath: string): ResolvedRunSettings | undefined {
+    const projectFile = findContainingProjectFile(filePath);
+    const declared = projectFile !== undefined ? readProjectRunSettings(projectFile) : undefined;
+    if (declared === undefined) {
+        return undefined;
+    }
+
+    return {
+        path: declared.path,
+        source: vscode.l10n.t(
+            'Declared in {0}',
+            declared.declaringFile === projectFile ? path.basename(projectFile) : declared.declaringFile
+        ),
+    };
+}
+
+/**
+ * Reads the RunSettingsFilePath of the project, declared in the project itself or in the Directory.Build.props file it
+ * imports, along with the file declaring it.
+ */
+function readProjectRunSettings(projectFile: string): { path: string; declaringFile: string } | undefined {
+    const projectDirectory = path.dirname(projectFile);
+    const declaredInProject = readDeclaredRunSettings(projectFile, projectDirectory);
+    if (declaredInProject) {
+        return { path: declaredInProject, declaringFile: projectFile };
+    }
+
+    // MSBuild only imports the closest Directory.Build.props, and evaluates it in the context of the project.
+    for (let directory = projectDirectory; ; directory = path.dirname(directory)) {
+        const propsFile = path.join(directory, 'Directory.Build.props');
+        if (fs.existsSync(propsFile)) {
+            const declared = readDeclaredRunSettings(propsFile, projectDirectory);
+            return declared ? { path: declared, declaringFile: propsFile } : undefined;
+        }
+
+        if (path.dirname(directory) === directory) {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Reads the RunSettingsFilePath declared in an MSBuild file, returning it as an absolute path.  Returns undefined
+ * if the file doesn't declare one or it uses MSBuild properties we can't evaluate.
+ */
+function readDeclaredRunSettings(msbuildFile: string, projectDirectory: string): string | undefined {
+    let text: string;
+    try {
+        text = fs.readFileSync(msbuildFile, 'utf8');
+    } catch {
+        return undefined;
+    }
+
+    const declared = getRunSettingsFilePath(text);
+    return declared !== undefined ? resolveRunSettingsFilePath(declared, msbuildFile, projectDirectory) : undefined;
+}
+
+function positionAt(text: string, offset: number): vscode.Position {
+    const before = text.substring(0, offset);
+    const line = before.split('\n').length - 1;
+    return new vscode.Position(line, offset - (before.lastIndexOf('\n') + 1));
+}
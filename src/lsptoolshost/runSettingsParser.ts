@@ -0,0 +1,281 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+export interface XmlError {
+    offset: number;
+    length: number;
+    message: string;
+}
+
+const NameRegex = /^[A-Za-z_:][\w.:-]*/;
+const AttributeRegex = /\s+([A-Za-z_:][\w.:-]*)\s*=\s*("[^"<]*"|'[^'<]*')/y;
+const CommentRegex = /<!--[\s\S]*?-->/g;
+const RunSettingsFilePathRegex = /<RunSettingsFilePath(?:\s[^>]*)?>([^<]*)<\/RunSettingsFilePath>/;
+
+/**
+ * Checks that the text is a well formed XML document, returning the problems found.  This is not a complete
+ * XML parser; it only looks for the mistakes that are likely when hand editing files like .runsettings.
+ */
+export function findXmlErrors(text: string): XmlError[] {
+    const errors: XmlError[] = [];
+    const openElements: { name: string; offset: number }[] = [];
+    let rootElementCount = 0;
+
+    let offset = 0;
+    while (offset < text.length) {
+        const tagStart = text.indexOf('<', offset);
+        const textEnd = tagStart === -1 ? text.length : tagStart;
+        if (openElements.length === 0) {
+            const content = text.substring(offset, textEnd);
+            const contentStart = content.search(/\S/);
+            if (contentStart !== -1) {
+                errors.push({
+                    offset: offset + contentStart,
+                    length: content.trim().length,
+                    message: vscode.l10n.t('Text is not allowed outside of the root element.'),
+                });
+            }
+        }
+
+        if (tagStart === -1) {
+            break;
+        }
+
+        const special = [
+            { start: '<!--', end: '-->', message: vscode.l10n.t('Comment is not closed.') },
+            { start: '<![CDATA[', end: ']]>', message: vscode.l10n.t('CDATA section is not closed.') },
+            { start: '<?', end: '?>', message: vscode.l10n.t('Processing instruction is not closed.') },
+            { start: '<!', end: '>', message: vscode.l10n.t('Declaration is not closed.') },
+        ].find((s) => text.startsWith(s.start, tagStart));
+        if (special) {
+            const end = text.indexOf(special.end, tagStart + special.start.length);
+            if (end === -1) {
+                errors.push({ offset: tagStart, length: special.start.length, message: special.message });
+                break;
+            }
+
+            offset = end + special.end.length;
+            continue;
+        }
+
+        const tagEnd = findTagEnd(text, tagStart + 1);
+        if (text[tagEnd] !== '>') {
+            errors.push({ offset: tagStart, length: 1, message: vscode.l10n.t('Tag is not closed.') });
+            offset = tagEnd;
+            continue;
+        }
+
+        const tagText = text.substring(tagStart + 1, tagEnd);
+        if (tagText.startsWith('/')) {
+            checkEndTag(tagText.substring(1).trim(), tagStart, tagEnd + 1 - tagStart, openElements, errors);
+        } else {
+            const selfClosing = tagText.endsWith('/');
+            const name = checkStartTag(selfClosing ? tagText.slice(0, -1) : tagText, tagStart, errors);
+            if (name !== undefined) {
+                if (openElements.length === 0 && ++rootElementCount > 1) {
+                    errors.push({
+                        offset: tagStart + 1,
+                        length: name.length,
+                        message: vscode.l10n.t('Only one root element is allowed.'),
+                    });
+                }
+
+                if (!selfClosing) {
+                    openElements.push({ name, offset: tagStart + 1 });
+                }
+            }
+        }
+
+        offset = tagEnd + 1;
+    }
+
+    for (const element of openElements) {
+        errors.push({
+            offset: element.offset,
+            length: element.name.length,
+            message: vscode.l10n.t("Element '{0}' is not closed.", element.name),
+        });
+    }
+
+    if (rootElementCount === 0 && errors.length === 0) {
+        errors.push({ offset: 0, length: 0, message: vscode.l10n.t('The document has no root element.') });
+    }
+
+    return errors;
+}
+
+/**
+ * Returns the name of the document's root element, if it has one.
+ */
+export function getRootElementName(text: string): string | undefined {
+    const match = /<([A-Za-z_:][\w.:-]*)/.exec(text.replace(CommentRegex, '').replace(/<[?!][^>]*>/g, ''));
+    return match?.[1];
+}
+
+/**
+ * Returns the value of the RunSettingsFilePath property set in an MSBuild file (project or Directory.Build.props).
+ */
+export function getRunSettingsFilePath(msbuildText: string): string | undefined {
+    const match = RunSettingsFilePathRegex.exec(msbuildText.replace(CommentRegex, ''));
+    const value = match?.[1].trim();
+    return value ? value : undefined;
+}
+
+/**
+ * Resolves the RunSettingsFilePath value declared in an MSBuild file to an absolute path, as MSBuild evaluates it for
+ * the project in the project directory.  Returns undefined if the value uses MSBuild properties we can't evaluate.
+ */
+export function resolveRunSettingsFilePath(
+    value: string,
+    msbuildFile: string,
+    projectDirectory: string
+): string | undefined {
+    // MSBuild accepts backslashes as directory separators on every platform.
+    const declared = value
+        .replace(/\$\(MSBuildThisFileDirectory\)/g, path.dirname(msbuildFile) + path.sep)
+        .replace(/\$\(MSBuildProjectDirectory\)/g, projectDirectory)
+        .replace(/\\/g, path.sep);
+    return declared.includes('$(') ? undefined : path.resolve(projectDirectory, declared);
+}
+
+/**
+ * Returns runsettings that collect Cobertura coverage (using the coverlet "XPlat code coverage" data collector) into
+ * the results directory, in addition to any settings in {@link runSettingsXml}.
+ */
+export function addCoverageCollector(runSettingsXml: string | undefined, resultsDirectory: string): string {
+    let text = (runSettingsXml ?? '<?xml version="1.0" encoding="utf-8"?>\n<RunSettings />').replace(CommentRegex, '');
+    if (!/<\/RunSettings>/.test(text)) {
+        text = text.replace(/<RunSettings\s*\/>/, '<RunSettings>\n</RunSettings>');
+    }
+
+    const resultsDirectoryElement = `<ResultsDirectory>${escapeXml(resultsDirectory)}</ResultsDirectory>`;
+    if (/<ResultsDirectory>[^<]*<\/ResultsDirectory>/.test(text)) {
+        text = text.replace(/<ResultsDirectory>[^<]*<\/ResultsDirectory>/, () => resultsDirectoryElement);
+    } else if (/<RunConfiguration\s*>/.test(text)) {
+        text = text.replace(/<RunConfiguration\s*>/, (m) => m + resultsDirectoryElement);
+    } else {
+        text = insertBeforeEnd(
+            text.replace(/<RunConfiguration\s*\/>/, ''),
+            `<RunConfiguration>${resultsDirectoryElement}</RunConfiguration>`
+        );
+    }
+
+    // Respect any configuration of the collector (such as include and exclude filters) the user already has.
+    if (/friendlyName\s*=\s*["']XPlat code coverage["']/i.test(text)) {
+        return text;
+    }
+
+    const collector =
+        '<DataCollector friendlyName="XPlat code coverage"><Configuration><Format>cobertura</Format></Configuration></DataCollector>';
+    if (/<DataCollectors\s*>/.test(text)) {
+        return text.replace(/<DataCollectors\s*>/, (m) => m + collector);
+    } else if (/<DataCollectionRunSettings\s*>/.test(text)) {
+        return text.replace(
+            /<DataCollectionRunSettings\s*>/,
+            (m) => `${m}<DataCollectors>${collector}</DataCollectors>`
+        );
+    }
+
+    return insertBeforeEnd(
+        text,
+        `<DataCollectionRunSettings><DataCollectors>${collector}</DataCollectors></DataCollectionRunSettings>`
+    );
+}
+
+/**
+ * Returns the index of the '>' ending the tag, skipping over quoted attribute values.  If the tag isn't closed,
+ * returns the index of the next '<' (or the end of the text).
+ */
+function findTagEnd(text: string, start: number): number {
+    let quote: string | undefined = undefined;
+    for (let i = start; i < text.length; i++) {
+        const c = text[i];
+        if (quote) {
+            if (c === quote) {
+                quote = undefined;
+            }
+        } else if (c === '"' || c === "'") {
+            quote = c;
+        } else if (c === '>' || c === '<') {
+            return i;
+        }
+    }
+
+    return text.length;
+}
+
+function checkStartTag(tagText: string, tagStart: number, errors: XmlError[]): string | undefined {
+    const name = NameRegex.exec(tagText)?.[0];
+    if (name === undefined) {
+        errors.push({ offset: tagStart, length: 1, message: vscode.l10n.t('Expected an element name.') });
+        return undefined;
+    }
+
+    const attributes = new Set<string>();
+    let position = name.length;
+    AttributeRegex.lastIndex = position;
+    for (let match = AttributeRegex.exec(tagText); match; match = AttributeRegex.exec(tagText)) {
+        if (attributes.has(match[1])) {
+            errors.push({
+                offset: tagStart + 1 + match.index + match[0].indexOf(match[1]),
+                length: match[1].length,
+                message: vscode.l10n.t("Duplicate attribute '{0}'.", match[1]),
+            });
+        }
+        attributes.add(match[1]);
+        position = AttributeRegex.lastIndex;
+    }
+
+    const rest = tagText.substring(position);
+    if (rest.trim().length > 0) {
+        errors.push({
+            offset: tagStart + 1 + position + rest.search(/\S/),
+            length: rest.trim().length,
+            message: vscode.l10n.t('Invalid attribute; expected name="value".'),
+        });
+    }
+
+    return name;
+}
+
+function checkEndTag(
+    name: string,
+    tagStart: number,
+    tagLength: number,
+    openElements: { name: string; offset: number }[],
+    errors: XmlError[]
+) {
+    const openIndex = openElements.map((e) => e.name).lastIndexOf(name);
+    if (openIndex === -1) {
+        errors.push({
+            offset: tagStart,
+            length: tagLength,
+            message: vscode.l10n.t("Unexpected end tag '{0}'.", name),
+        });
+        return;
+    }
+
+    // Report (and recover from) any elements that should have been closed before this one.
+    for (const unclosed of openElements.splice(openIndex + 1)) {
+        errors.push({
+            offset: unclosed.offset,
+            length: unclosed.name.length,
+            message: vscode.l10n.t("Element '{0}' is not closed.", unclosed.name),
+        });
+    }
+    openElements.pop();
+}
+
+function insertBeforeEnd(runSettingsXml: string, element: string): string {
+    const end = runSettingsXml.lastIndexOf('</RunSettings>');
+    return runSettingsXml.substring(0, end) + `  ${element}\n` + runSettingsXml.substring(end);
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,79 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+const CrashHistoryStateKey = 'dotnet.server.crashHistory';
+
+/** The number of crashes kept in the history. */
+const MaxCrashes = 20;
+
+/** The number of crashes opening the same solutions, in quick succession, that make a crash loop. */
+export const CrashLoopCount = 3;
+
+/** The time within which the crashes of a crash loop happen, in milliseconds. */
+export const CrashLoopWindow = 3 * 60 * 1000;
+
+export interface ServerCrash {
+    /** When the crash happened, in milliseconds since the epoch. */
+    time: number;
+
+    /** The exit code of the server process, or null if it was ended by a signal. */
+    exitCode: number | null;
+
+    /** The signal that ended the server process, if any. */
+    signal: string | null;
+
+    /** The solutions (or projects) open when the server crashed. */
+    workspace: string[];
+
+    /** The last lines the server process wrote to stderr. */
+    stderr: string[];
+
+    /** The crash dump collected for the crash, if any. */
+    crashDump?: string;
+}
+
+/**
+ * Remembers the recent crashes of the language server in workspace state, so that crash loops are noticed even when
+ * the window is reloaded between crashes.
+ */
+export class ServerCrashHistory {
+    constructor(private readonly _workspaceState: vscode.Memento) {}
+
+    /** The recent crashes, oldest first. */
+    public get crashes(): ServerCrash[] {
+        return this._workspaceState.get<ServerCrash[]>(CrashHistoryStateKey) ?? [];
+    }
+
+    public async record(crash: ServerCrash): Promise<void> {
+        await this._workspaceState.update(CrashHistoryStateKey, [...this.crashes, crash].slice(-MaxCrashes));
+    }
+
+    public async clear(): Promise<void> {
+        await this._workspaceState.update(CrashHistoryStateKey, undefined);
+    }
+
+    /**
+     * Returns whether the last crashes form a crash loop: enough of them, in quick succession, all with the same
+     * solutions open.
+     */
+    public isCrashLoop(): boolean {
+        const crashes = this.crashes.slice(-CrashLoopCount);
+        if (crashes.length < CrashLoopCount) {
+            return false;
+        }
+
+        const workspace = getWorkspaceKey(crashes[crashes.length - 1]);
+        return (
+            crashes[crashes.length - 1].time - crashes[0].time <= CrashLoopWindow &&
+            crashes.every((c) => getWorkspaceKey(c) === workspace)
+        );
+    }
+}
+
+function getWorkspaceKey(crash: ServerCrash): string {
+    return [...crash.workspace].sort().join('|');
+}
@@ -3,23 +3,36 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import * as fs from 'fs';
 import * as vscode from 'vscode';
 import { RoslynLanguageServer } from '../roslynLanguageServer';
-import { VSGetProjectContextsRequest, VSProjectContext, VSProjectContextList } from '../roslynProtocol';
+import {
+    VSGetProjectContextsRequest,
+    VSProjectContext,
+    VSProjectContextList,
+    VSTextDocumentIdentifier,
+} from '../roslynProtocol';
 import { TextDocumentIdentifier } from 'vscode-languageserver-protocol';
 import { UriConverter } from '../uriConverter';
 import { LanguageServerEvents } from '../languageServerEvents';
 import { ServerState } from '../serverStateChange';
+import { showInformationMessage } from '../../shared/observers/utils/showMessage';
 
 export interface ProjectContextChangeEvent {
     languageId: string;
     uri: vscode.Uri;
     context: VSProjectContext;
     isVerified: boolean;
+
+    /** All the contexts the document is part of, e.g. one per target framework of a multi-targeted project. */
+    contexts: VSProjectContext[];
 }
 
 const VerificationDelay = 2 * 1000;
 
+/** The workspace state key of the project context chosen for each document, keyed by document uri. */
+const SelectedContextsStateKey = 'csharp.selectedProjectContexts';
+
 let _verifyTimeout: NodeJS.Timeout | undefined;
 let _documentUriToVerify: vscode.Uri | undefined;
 
@@ -32,13 +45,28 @@ export class ProjectContextService {
         _vs_label: '',
         _vs_is_miscellaneous: false,
     };
+    private readonly _selectedContexts: { [uri: string]: VSProjectContext };
+
+    /**
+     * The contexts of each document (keyed by uri) as of the last time the server was asked for them, which the
+     * selected contexts are checked against.  Cleared when the projects are reloaded, as contexts may have changed.
+     */
+    private readonly _knownContexts = new Map<string, VSProjectContext[]>();
+
+    constructor(
+        private _languageServer: RoslynLanguageServer,
+        _languageServerEvents: LanguageServerEvents,
+        private _workspaceState: vscode.Memento
+    ) {
+        this._selectedContexts = { ...this._workspaceState.get(SelectedContextsStateKey, {}) };
+        this.removeDeletedDocuments();
 
-    constructor(private _languageServer: RoslynLanguageServer, _languageServerEvents: LanguageServerEvents) {
         _languageServerEvents.onServerStateChange(async (e) => {
             // When the project initialization is complete, open files
             // could move from the miscellaneous workspace context into
             // an open project.
             if (e.state === ServerState.Stopped || e.state === ServerState.ProjectInitializationComplete) {
+                this._knownContexts.clear();
                 await this.refresh();
             }
         });
@@ -50,6 +78,64 @@ export class ProjectContextService {
         return this._contextChangeEmitter.event;
     }
 
+    /**
+     * Adds the project context chosen for a document to the parameters of a request about the document, so that the
+     * server answers the request in that context rather than the default one.
+     */
+    public addSelectedContext<P>(params: P): P {
+        const textDocument = (params as { textDocument?: TextDocumentIdentifier } | undefined)?.textDocument;
+        if (textDocument?.uri === undefined) {
+            return params;
+        }
+
+        // Only send a context the server reported for the document since the projects were loaded.
+        const uri = UriConverter.deserialize(textDocument.uri).toString();
+        const context = this._selectedContexts[uri];
+        if (context === undefined || !this._knownContexts.get(uri)?.some((c) => c._vs_id === context._vs_id)) {
+            return params;
+        }
+
+        const vsTextDocument: VSTextDocumentIdentifier = { ...textDocument, _vs_projectContext: context };
+        return { ...params, textDocument: vsTextDocument };
+    }
+
+    /**
+     * Lets the user choose which of the active document's project contexts is used for its diagnostics, completion
+     * and navigation.  The choice is remembered for the document.
+     */
+    public async changeProjectContext(): Promise<void> {
+        const document = vscode.window.activeTextEditor?.document;
+        if (document?.languageId !== 'csharp' || !this._languageServer.isRunning()) {
+            return;
+        }
+
+        const contextList = await this.getProjectContexts(document.uri, new vscode.CancellationTokenSource().token);
+        if (!contextList || contextList._vs_projectContexts.length < 2) {
+            showInformationMessage(vscode, vscode.l10n.t('The active document is only part of one project context.'));
+            return;
+        }
+
+        const activeContext = this.getActiveContext(document.uri, contextList);
+        const items = contextList._vs_projectContexts.map((context) => ({
+            label: context._vs_label,
+            description: context._vs_id === activeContext._vs_id ? vscode.l10n.t('Active') : undefined,
+            context,
+        }));
+        const picked = await vscode.window.showQuickPick(items, {
+            placeHolder: vscode.l10n.t(
+                'Select the project context for {0}',
+                vscode.workspace.asRelativePath(document.uri)
+            ),
+        });
+        if (picked === undefined) {
+            return;
+        }
+
+        await this.setSelectedContext(document.uri, picked.context);
+        this._languageServer.refreshDiagnostics();
+        await this.refresh();
+    }
+
     public async refresh() {
         const textEditor = vscode.window.activeTextEditor;
         const languageId = textEditor?.document?.languageId;
@@ -83,19 +169,32 @@ export class ProjectContextService {
         }
 
         if (!this._languageServer.isRunning()) {
-            this._contextChangeEmitter.fire({ languageId, uri, context: this._emptyProjectContext, isVerified: false });
+            this._contextChangeEmitter.fire({
+                languageId,
+                uri,
+                context: this._emptyProjectContext,
+                isVerified: false,
+                contexts: [],
+            });
             return;
         }
 
         const contextList = await this.getProjectContexts(uri, this._source.token);
         if (!contextList) {
-            this._contextChangeEmitter.fire({ languageId, uri, context: this._emptyProjectContext, isVerified: false });
+            this._contextChangeEmitter.fire({
+                languageId,
+                uri,
+                context: this._emptyProjectContext,
+                isVerified: false,
+                contexts: [],
+            });
             return;
         }
 
-        const context = contextList._vs_projectContexts[contextList._vs_defaultIndex];
+        const context = this.getActiveContext(uri, contextList);
         const isVerified = !context._vs_is_miscellaneous || isVerifyPass;
-        this._contextChangeEmitter.fire({ languageId, uri, context, isVerified });
+        const contexts = contextList._vs_projectContexts;
+        this._contextChangeEmitter.fire({ languageId, uri, context, isVerified, contexts });
 
         if (context._vs_is_miscellaneous && !isVerifyPass) {
             // Request the active project context be refreshed but delay the request to give
@@ -114,6 +213,50 @@ export class ProjectContextService {
         }
     }
 
+    /**
+     * Returns the context the user chose for the document, or the server's default if they haven't chosen one (or the
+     * one they chose no longer exists, e.g. because a target framework was removed).
+     */
+    private getActiveContext(uri: vscode.Uri, contextList: VSProjectContextList): VSProjectContext {
+        const selected = this._selectedContexts[uri.toString()];
+        return (
+            contextList._vs_projectContexts.find((c) => c._vs_id === selected?._vs_id) ??
+            contextList._vs_projectContexts[contextList._vs_defaultIndex]
+        );
+    }
+
+    private async setSelectedContext(uri: vscode.Uri, context: VSProjectContext): Promise<void> {
+        this._selectedContexts[uri.toString()] = context;
+        await this._workspaceState.update(SelectedContextsStateKey, this._selectedContexts);
+    }
+
+    /**
+     * Remembers the contexts of the document, and forgets the context chosen for it if it no longer exists, e.g.
+     * because a target framework was removed.
+     */
+    private async updateKnownContexts(uri: vscode.Uri, contextList: VSProjectContextList): Promise<void> {
+        const contexts = contextList._vs_projectContexts;
+        this._knownContexts.set(uri.toString(), contexts);
+
+        const selected = this._selectedContexts[uri.toString()];
+        if (selected !== undefined && !contexts.some((c) => c._vs_id === selected._vs_id)) {
+            delete this._selectedContexts[uri.toString()];
+            await this._workspaceState.update(SelectedContextsStateKey, this._selectedContexts);
+        }
+    }
+
+    /** Forgets the contexts chosen for documents that were deleted. */
+    private removeDeletedDocuments() {
+        const deleted = Object.keys(this._selectedContexts).filter((uri) => {
+            const parsed = vscode.Uri.parse(uri);
+            return parsed.scheme === 'file' && !fs.existsSync(parsed.fsPath);
+        });
+        if (deleted.length > 0) {
+            deleted.forEach((uri) => delete this._selectedContexts[uri]);
+            void this._workspaceState.update(SelectedContextsStateKey, this._selectedContexts);
+        }
+    }
+
     private async getProjectContexts(
         uri: vscode.Uri,
         token: vscode.CancellationToken
@@ -122,11 +265,15 @@ export class ProjectContextService {
         const textDocument = TextDocumentIdentifier.create(uriString);
 
         try {
-            return await this._languageServer.sendRequest(
+            const contextList = await this._languageServer.sendRequest(
                 VSGetProjectContextsRequest.type,
                 { _vs_textDocument: textDocument },
                 token
             );
+            if (contextList) {
+                await this.updateKnownContexts(uri, contextList);
+            }
+            return contextList;
         } catch (error) {
             if (error instanceof vscode.CancellationError) {
                 return undefined;
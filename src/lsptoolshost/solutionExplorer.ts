@@ -0,0 +1,358 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RoslynLanguageServer } from './roslynLanguageServer';
+import { RestorableProjects, WorkspaceDebugConfigurationRequest } from './roslynProtocol';
+import { LanguageServerEvents } from './languageServerEvents';
+import { ServerState } from './serverStateChange';
+import { getCSharpDevKit } from '../utils/getCSharpDevKit';
+import {
+    findContainingProjectFile,
+    isProjectFile,
+    normalizeFilePath,
+    PackageReference,
+    parsePackageReferences,
+    parseProjectReferences,
+    parseSolutionProjects,
+} from '../shared/utils/projectFiles';
+
+/** The workspace state key of the project launched by 'dotnet' debug configurations that don't specify one. */
+export const StartupProjectStateKey = 'dotnet.startupProject';
+
+const ExcludedDirectories = ['bin', 'obj', 'node_modules'];
+
+type SolutionExplorerNode =
+    | { kind: 'solution'; label: string; solutionFile: vscode.Uri | undefined }
+    | { kind: 'project'; projectFile: string; isExecutable: boolean }
+    | { kind: 'dependencies'; projectFile: string; projectReferences: string[]; packageReferences: PackageReference[] }
+    | { kind: 'projectReference'; projectFile: string }
+    | { kind: 'packageReference'; package: PackageReference }
+    | { kind: 'folder'; projectFile: string; uri: vscode.Uri }
+    | { kind: 'document'; uri: vscode.Uri };
+
+export function registerSolutionExplorer(
+    context: vscode.ExtensionContext,
+    languageServer: RoslynLanguageServer,
+    languageServerEvents: LanguageServerEvents
+) {
+    if (getCSharpDevKit()) {
+        // C# Dev Kit provides its own Solution Explorer.
+        return;
+    }
+
+    const solutionExplorer = new SolutionExplorer(languageServer, languageServerEvents, context.workspaceState);
+    context.subscriptions.push(solutionExplorer);
+    context.subscriptions.push(
+        vscode.window.createTreeView('dotnet.solutionExplorer', {
+            treeDataProvider: solutionExplorer,
+            showCollapseAll: true,
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.solutionExplorer.refresh', () => solutionExplorer.refresh())
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.solutionExplorer.restoreProject', async (node: SolutionExplorerNode) =>
+            vscode.commands.executeCommand('dotnet.restore.project', getProjectFile(node))
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.solutionExplorer.runTests', async (node: SolutionExplorerNode) =>
+            vscode.commands.executeCommand('dotnet.test.runTestsInProject', getProjectFile(node))
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.solutionExplorer.openProjectFile', async (node: SolutionExplorerNode) =>
+            vscode.window.showTextDocument(vscode.Uri.file(getProjectFile(node)!))
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'dotnet.solutionExplorer.setStartupProject',
+            async (node: SolutionExplorerNode) => solutionExplorer.setStartupProject(getProjectFile(node)!)
+        )
+    );
+}
+
+function getProjectFile(node: SolutionExplorerNode): string | undefined {
+    return node.kind === 'project' || node.kind === 'projectReference' ? node.projectFile : undefined;
+}
+
+/**
+ * Shows the solution (or projects) opened in the language server, along with each project's references and files.
+ * This is only used without C# Dev Kit, which provides its own Solution Explorer.
+ */
+class SolutionExplorer implements vscode.TreeDataProvider<SolutionExplorerNode>, vscode.Disposable {
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    /** Cache of the project file containing each directory, used to leave out the directories of nested projects. */
+    private readonly _projectFileCache = new Map<string, string | undefined>();
+
+    constructor(
+        private readonly _languageServer: RoslynLanguageServer,
+        languageServerEvents: LanguageServerEvents,
+        private readonly _workspaceState: vscode.Memento
+    ) {
+        this._disposables.push(
+            this._onDidChangeTreeData,
+            languageServerEvents.onServerStateChange((e) => {
+                if (e.state === ServerState.ProjectInitializationComplete || e.state === ServerState.Stopped) {
+                    this.refresh();
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument((document) => {
+                if (isProjectFile(document.fileName)) {
+                    this.refresh();
+                }
+            }),
+            vscode.workspace.onDidCreateFiles(() => this.refresh()),
+            vscode.workspace.onDidDeleteFiles(() => this.refresh()),
+            vscode.workspace.onDidRenameFiles(() => this.refresh())
+        );
+    }
+
+    public dispose() {
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    public refresh() {
+        this._projectFileCache.clear();
+        this._onDidChangeTreeData.fire();
+    }
+
+    public async setStartupProject(projectFile: string): Promise<void> {
+        await this._workspaceState.update(StartupProjectStateKey, projectFile);
+        this.refresh();
+    }
+
+    public getTreeItem(node: SolutionExplorerNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'solution': {
+                const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('files');
+                item.resourceUri = node.solutionFile;
+                item.contextValue = 'solution';
+                return item;
+            }
+            case 'project': {
+                const item = new vscode.TreeItem(
+                    path.basename(node.projectFile, path.extname(node.projectFile)),
+                    vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.iconPath = new vscode.ThemeIcon('project');
+                item.tooltip = node.projectFile;
+                item.contextValue = node.isExecutable ? 'project.executable' : 'project';
+                if (this.isStartupProject(node.projectFile)) {
+                    item.description = vscode.l10n.t('Startup project');
+                }
+                return item;
+            }
+            case 'dependencies': {
+                const item = new vscode.TreeItem(
+                    vscode.l10n.t('Dependencies'),
+                    vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.iconPath = new vscode.ThemeIcon('references');
+                return item;
+            }
+            case 'projectReference': {
+                const item = new vscode.TreeItem(
+                    path.basename(node.projectFile, path.extname(node.projectFile)),
+                    vscode.TreeItemCollapsibleState.None
+                );
+                item.iconPath = new vscode.ThemeIcon('project');
+                item.tooltip = node.projectFile;
+                item.contextValue = 'projectReference';
+                item.command = {
+                    command: 'vscode.open',
+                    title: vscode.l10n.t('Open Project File'),
+                    arguments: [vscode.Uri.file(node.projectFile)],
+                };
+                return item;
+            }
+            case 'packageReference': {
+                const item = new vscode.TreeItem(node.package.id, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = new vscode.ThemeIcon('package');
+                item.description = node.package.version;
+                item.contextValue = 'packageReference';
+                return item;
+            }
+            case 'folder': {
+                const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.Collapsed);
+                item.iconPath = vscode.ThemeIcon.Folder;
+                item.contextValue = 'folder';
+                return item;
+            }
+            case 'document': {
+                const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = vscode.ThemeIcon.File;
+                item.contextValue = 'document';
+                item.command = { command: 'vscode.open', title: vscode.l10n.t('Open'), arguments: [node.uri] };
+                return item;
+            }
+        }
+    }
+
+    public async getChildren(node?: SolutionExplorerNode): Promise<SolutionExplorerNode[]> {
+        if (node === undefined) {
+            const solutionFiles = this._languageServer.solutionFiles;
+            if (solutionFiles.length > 1) {
+                // Each workspace folder of a multi-root workspace has its own solution.
+                return solutionFiles.map((solutionFile) => ({
+                    kind: 'solution',
+                    label: path.basename(solutionFile.fsPath),
+                    solutionFile,
+                }));
+            }
+
+            const label = this._languageServer.workspaceDisplayName();
+            // An empty tree shows the welcome content, which offers to open a solution.
+            return label === '' ? [] : [{ kind: 'solution', label, solutionFile: solutionFiles[0] }];
+        }
+
+        switch (node.kind) {
+            case 'solution':
+                return this.getProjects(this._languageServer.solutionFiles.length > 1 ? node.solutionFile : undefined);
+            case 'project':
+                return this.getProjectChildren(node.projectFile);
+            case 'dependencies':
+                return [
+                    ...node.projectReferences.map(
+                        (projectFile): SolutionExplorerNode => ({ kind: 'projectReference', projectFile })
+                    ),
+                    ...node.packageReferences.map(
+                        (p): SolutionExplorerNode => ({ kind: 'packageReference', package: p })
+                    ),
+                ];
+            case 'folder':
+                return this.getDirectoryChildren(node.projectFile, node.uri);
+            default:
+                return [];
+        }
+    }
+
+    private isStartupProject(projectFile: string): boolean {
+        const startupProject = this._workspaceState.get<string>(StartupProjectStateKey);
+        return startupProject !== undefined && normalizeFilePath(startupProject) === normalizeFilePath(projectFile);
+    }
+
+    /**
+     * Returns the projects loaded by the server.
+     * @param solutionFile If given, only the projects in this solution are returned.
+     */
+    private async getProjects(solutionFile?: vscode.Uri): Promise<SolutionExplorerNode[]> {
+        if (!this._languageServer.isRunning()) {
+            return [];
+        }
+
+        let solutionProjects: Set<string> | undefined = undefined;
+        if (solutionFile !== undefined) {
+            try {
+                const text = await fs.promises.readFile(solutionFile.fsPath, 'utf8');
+                solutionProjects = new Set(parseSolutionProjects(solutionFile.fsPath, text).map(normalizeFilePath));
+            } catch {
+                return [];
+            }
+        }
+
+        const token = new vscode.CancellationTokenSource().token;
+        let projectFiles: string[] = [];
+        const executableProjects = new Set<string>();
+        try {
+            projectFiles = await this._languageServer.sendRequest0(RestorableProjects.type, token);
+
+            // The debug configurations also cover projects that can't be restored, and tell us which can be launched.
+            const debugConfigurations = await this._languageServer.sendRequest(
+                WorkspaceDebugConfigurationRequest.type,
+                { workspacePath: undefined },
+                token
+            );
+            for (const configuration of debugConfigurations) {
+                projectFiles.push(configuration.projectPath);
+                if (configuration.isExe) {
+                    executableProjects.add(normalizeFilePath(configuration.projectPath));
+                }
+            }
+        } catch {
+            // The server logs request failures; they are expected while the server restarts.
+            if (projectFiles.length === 0) {
+                return [];
+            }
+        }
+
+        return [...new Set(projectFiles.map(normalizeFilePath))]
+            .filter((p) => solutionProjects === undefined || solutionProjects.has(p))
+            .sort((a, b) => path.basename(a).localeCompare(path.basename(b)))
+            .map((projectFile) => ({
+                kind: 'project',
+                projectFile,
+                isExecutable: executableProjects.has(projectFile),
+            }));
+    }
+
+    private async getProjectChildren(projectFile: string): Promise<SolutionExplorerNode[]> {
+        let text = '';
+        try {
+            text = await fs.promises.readFile(projectFile, 'utf8');
+        } catch {
+            // Still show the project's files.
+        }
+
+        const children: SolutionExplorerNode[] = [];
+        const projectReferences = parseProjectReferences(projectFile, text);
+        const packageReferences = parsePackageReferences(text).sort((a, b) => a.id.localeCompare(b.id));
+        if (projectReferences.length > 0 || packageReferences.length > 0) {
+            children.push({ kind: 'dependencies', projectFile, projectReferences, packageReferences });
+        }
+
+        children.push(...(await this.getDirectoryChildren(projectFile, vscode.Uri.file(path.dirname(projectFile)))));
+        return children;
+    }
+
+    /**
+     * Returns the folders and documents in a directory of the project, leaving out build output and nested projects.
+     */
+    private async getDirectoryChildren(projectFile: string, directory: vscode.Uri): Promise<SolutionExplorerNode[]> {
+        let entries: [string, vscode.FileType][];
+        try {
+            entries = await vscode.workspace.fs.readDirectory(directory);
+        } catch {
+            return [];
+        }
+
+        const folders: SolutionExplorerNode[] = [];
+        const documents: SolutionExplorerNode[] = [];
+        for (const [name, type] of entries.sort(([a], [b]) => a.localeCompare(b))) {
+            const uri = vscode.Uri.joinPath(directory, name);
+            if (type & vscode.FileType.Directory) {
+                if (name.startsWith('.') || ExcludedDirectories.includes(name.toLowerCase())) {
+                    continue;
+                }
+
+                const containingProject = findContainingProjectFile(
+                    path.join(uri.fsPath, 'file'),
+                    this._projectFileCache
+                );
+                if (
+                    containingProject !== undefined &&
+                    normalizeFilePath(containingProject) === normalizeFilePath(projectFile)
+                ) {
+                    folders.push({ kind: 'folder', projectFile, uri });
+                }
+            } else if (uri.fsPath !== normalizeFilePath(projectFile)) {
+                documents.push({ kind: 'document', uri });
+            }
+        }
+
+        return [...folders, ...documents];
+    }
+}
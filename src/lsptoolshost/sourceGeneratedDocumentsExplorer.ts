@@ -0,0 +1,300 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RoslynLanguageServer } from './roslynLanguageServer';
+import {
+    SourceGeneratedDocumentInfo,
+    SourceGeneratedDocumentsRequest,
+    SourceGeneratedProjectInfo,
+    SourceGeneratorInfo,
+} from './roslynProtocol';
+import { LanguageServerEvents } from './languageServerEvents';
+import { ServerState } from './serverStateChange';
+import { UriConverter } from './uriConverter';
+import {
+    PreviousSourceGeneratedScheme,
+    RoslynSourceGeneratedContentProvider,
+    SourceGeneratedScheme,
+} from './sourceGeneratedFilesContentProvider';
+import { showErrorMessage, showInformationMessage } from '../shared/observers/utils/showMessage';
+
+/**
+ * The experimental server capability declaring that the server implements {@link SourceGeneratedDocumentsRequest}.
+ * The view is only shown while the server declares it, which no released server does yet.
+ */
+const SourceGeneratedDocumentsCapability = 'sourceGeneratedDocumentsProvider';
+const SupportedContextKey = 'dotnet.sourceGeneratedDocuments.supported';
+
+/** How long to wait for generators to settle before querying the server again. */
+const RefreshDelay = 500;
+
+type SourceGeneratedDocumentsNode =
+    | { kind: 'project'; project: SourceGeneratedProjectInfo }
+    | { kind: 'generator'; generator: SourceGeneratorInfo }
+    | { kind: 'document'; document: SourceGeneratedDocumentInfo; uri: vscode.Uri };
+
+export function registerSourceGeneratedDocumentsExplorer(
+    context: vscode.ExtensionContext,
+    languageServer: RoslynLanguageServer,
+    languageServerEvents: LanguageServerEvents,
+    contentProvider: RoslynSourceGeneratedContentProvider,
+    channel: vscode.LogOutputChannel
+) {
+    const explorer = new SourceGeneratedDocumentsExplorer(
+        languageServer,
+        languageServerEvents,
+        contentProvider,
+        channel
+    );
+    context.subscriptions.push(explorer);
+    context.subscriptions.push(
+        vscode.window.createTreeView('dotnet.sourceGeneratedDocuments', {
+            treeDataProvider: explorer,
+            showCollapseAll: true,
+        })
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.sourceGeneratedDocuments.refresh', () => explorer.refresh())
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'dotnet.sourceGeneratedDocuments.compareWithPrevious',
+            async (node?: SourceGeneratedDocumentsNode | vscode.Uri) =>
+                compareWithPrevious(contentProvider, getDocumentUri(node))
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'dotnet.sourceGeneratedDocuments.saveToDisk',
+            async (node?: SourceGeneratedDocumentsNode | vscode.Uri) => saveToDisk(getDocumentUri(node))
+        )
+    );
+}
+
+/**
+ * Returns the document of a tree node, or the active source generated document when the command was run from the
+ * command palette or the editor title.
+ */
+function getDocumentUri(node: SourceGeneratedDocumentsNode | vscode.Uri | undefined): vscode.Uri | undefined {
+    if (node instanceof vscode.Uri) {
+        return node;
+    }
+    if (node?.kind === 'document') {
+        return node.uri;
+    }
+
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    return activeUri?.scheme === SourceGeneratedScheme ? activeUri : undefined;
+}
+
+async function compareWithPrevious(
+    contentProvider: RoslynSourceGeneratedContentProvider,
+    uri: vscode.Uri | undefined
+): Promise<void> {
+    if (uri === undefined) {
+        return;
+    }
+
+    if (contentProvider.getPreviousResult(uri) === undefined) {
+        showInformationMessage(
+            vscode,
+            vscode.l10n.t('The generator has not produced a different result for this document since it was opened.')
+        );
+        return;
+    }
+
+    const name = path.basename(uri.path);
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        uri.with({ scheme: PreviousSourceGeneratedScheme }),
+        uri,
+        vscode.l10n.t('{0} (Previous Result ↔ Current Result)', name)
+    );
+}
+
+async function saveToDisk(uri: vscode.Uri | undefined): Promise<void> {
+    if (uri === undefined) {
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument(uri);
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const name = path.basename(uri.path);
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: defaultFolder ? vscode.Uri.joinPath(defaultFolder, name) : undefined,
+        title: vscode.l10n.t('Save Generated File'),
+    });
+    if (!target) {
+        return;
+    }
+
+    try {
+        await vscode.workspace.fs.writeFile(target, Buffer.from(document.getText(), 'utf8'));
+        showInformationMessage(vscode, vscode.l10n.t('Saved {0}.', target.fsPath), {
+            title: vscode.l10n.t('Open'),
+            command: 'vscode.open',
+            arguments: [target],
+        });
+    } catch (e) {
+        showErrorMessage(vscode, vscode.l10n.t('Failed to save {0}: {1}', target.fsPath, `${e}`));
+    }
+}
+
+/**
+ * Shows the source generators of every project loaded by the server, and the documents each of them produced.
+ * Refreshed whenever the server reports that generators ran again, once the updated documents were fetched.
+ */
+class SourceGeneratedDocumentsExplorer
+    implements vscode.TreeDataProvider<SourceGeneratedDocumentsNode>, vscode.Disposable
+{
+    private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    private readonly _disposables: vscode.Disposable[] = [];
+    private _pendingRefresh: NodeJS.Timeout | undefined;
+
+    constructor(
+        private readonly _languageServer: RoslynLanguageServer,
+        languageServerEvents: LanguageServerEvents,
+        private readonly _contentProvider: RoslynSourceGeneratedContentProvider,
+        private readonly _channel: vscode.LogOutputChannel
+    ) {
+        this._disposables.push(
+            this._onDidChangeTreeData,
+            languageServerEvents.onServerStateChange(async (e) => {
+                if (e.state === ServerState.Started || e.state === ServerState.Stopped) {
+                    const supported = e.state === ServerState.Started && this.isSupported();
+                    await vscode.commands.executeCommand('setContext', SupportedContextKey, supported);
+                }
+                if (e.state === ServerState.ProjectInitializationComplete || e.state === ServerState.Stopped) {
+                    this.refresh();
+                }
+            }),
+            // A generator run refreshes every open document as well; documents whose result changed can then be
+            // compared with the previous result.  Wait for them, rather than querying the server for each.
+            _contentProvider.onDidRefresh(() => this.scheduleRefresh()),
+            _contentProvider.onDidChange(() => this.scheduleRefresh())
+        );
+    }
+
+    public dispose() {
+        clearTimeout(this._pendingRefresh);
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    public refresh() {
+        clearTimeout(this._pendingRefresh);
+        this._pendingRefresh = undefined;
+        this._onDidChangeTreeData.fire();
+    }
+
+    private scheduleRefresh() {
+        clearTimeout(this._pendingRefresh);
+        this._pendingRefresh = setTimeout(() => this.refresh(), RefreshDelay);
+    }
+
+    private isSupported(): boolean {
+        return (
+            this._languageServer.isRunning() &&
+            this._languageServer.hasExperimentalCapability(SourceGeneratedDocumentsCapability)
+        );
+    }
+
+    public getTreeItem(node: SourceGeneratedDocumentsNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'project': {
+                const item = new vscode.TreeItem(node.project.projectName, vscode.TreeItemCollapsibleState.Expanded);
+                item.iconPath = new vscode.ThemeIcon('project');
+                item.tooltip = node.project.projectFilePath;
+                item.contextValue = 'project';
+                return item;
+            }
+            case 'generator': {
+                const item = new vscode.TreeItem(
+                    getShortName(node.generator.generatorName),
+                    vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.iconPath = new vscode.ThemeIcon('symbol-class');
+                item.description = vscode.l10n.t('{0} files', node.generator.documents.length);
+                item.tooltip = `${node.generator.generatorName} (${node.generator.assemblyName})`;
+                item.contextValue = 'generator';
+                return item;
+            }
+            case 'document': {
+                const item = new vscode.TreeItem(node.document.hintName, vscode.TreeItemCollapsibleState.None);
+                item.iconPath = vscode.ThemeIcon.File;
+                item.resourceUri = node.uri;
+                item.contextValue =
+                    this._contentProvider.getPreviousResult(node.uri) !== undefined
+                        ? 'document.hasPreviousResult'
+                        : 'document';
+                item.command = { command: 'vscode.open', title: vscode.l10n.t('Open'), arguments: [node.uri] };
+                return item;
+            }
+        }
+    }
+
+    public async getChildren(node?: SourceGeneratedDocumentsNode): Promise<SourceGeneratedDocumentsNode[]> {
+        if (node === undefined) {
+            return (await this.getProjects()).map((project) => ({ kind: 'project', project }));
+        }
+
+        switch (node.kind) {
+            case 'project':
+                return [...node.project.generators]
+                    .sort((a, b) => getShortName(a.generatorName).localeCompare(getShortName(b.generatorName)))
+                    .map((generator) => ({ kind: 'generator', generator }));
+            case 'generator':
+                return [...node.generator.documents]
+                    .sort((a, b) => a.hintName.localeCompare(b.hintName))
+                    .map((document) => ({ kind: 'document', document, uri: UriConverter.deserialize(document.uri) }));
+            default:
+                return [];
+        }
+    }
+
+    /** Returns the projects that have source generators, or none while the server isn't running or can't tell. */
+    private async getProjects(): Promise<SourceGeneratedProjectInfo[]> {
+        if (!this.isSupported()) {
+            return [];
+        }
+
+        let projects: SourceGeneratedProjectInfo[];
+        const cancellationSource = new vscode.CancellationTokenSource();
+        try {
+            projects = await this._languageServer.sendRequest0(
+                SourceGeneratedDocumentsRequest.type,
+                cancellationSource.token
+            );
+        } catch (e) {
+            this._channel.warn(`Unable to get the source generated documents: ${e}`);
+            return [];
+        } finally {
+            cancellationSource.dispose();
+        }
+
+        this._contentProvider.removeResultsExcept(
+            new Set(
+                projects.flatMap((project) =>
+                    project.generators.flatMap((generator) =>
+                        generator.documents.map((document) => UriConverter.deserialize(document.uri).toString())
+                    )
+                )
+            )
+        );
+
+        return projects
+            .filter((project) => project.generators.length > 0)
+            .sort((a, b) => a.projectName.localeCompare(b.projectName));
+    }
+}
+
+/** Returns the type name of a generator without its namespace. */
+function getShortName(generatorName: string): string {
+    return generatorName.substring(generatorName.lastIndexOf('.') + 1);
+}
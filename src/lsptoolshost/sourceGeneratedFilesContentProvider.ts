@@ -10,24 +10,39 @@ import { UriConverter } from './uriConverter';
 import * as lsp from 'vscode-languageserver-protocol';
 import { IDisposable } from '@microsoft/servicehub-framework';
 
+export const SourceGeneratedScheme = 'roslyn-source-generated';
+
+/** Serves the previous result of source generated documents, to diff them against the current one. */
+export const PreviousSourceGeneratedScheme = 'roslyn-source-generated-previous';
+
 export function registerSourceGeneratedFilesContentProvider(
     context: vscode.ExtensionContext,
     languageServer: RoslynLanguageServer
-) {
+): RoslynSourceGeneratedContentProvider {
+    const provider = new RoslynSourceGeneratedContentProvider(languageServer);
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(SourceGeneratedScheme, provider));
     context.subscriptions.push(
-        vscode.workspace.registerTextDocumentContentProvider(
-            'roslyn-source-generated',
-            new RoslynSourceGeneratedContentProvider(languageServer)
-        )
+        vscode.workspace.registerTextDocumentContentProvider(PreviousSourceGeneratedScheme, {
+            provideTextDocumentContent: (uri) =>
+                provider.getPreviousResult(uri.with({ scheme: SourceGeneratedScheme }))?.text ??
+                vscode.l10n.t('Generated document not found'),
+        })
     );
+    return provider;
 }
 
-class RoslynSourceGeneratedContentProvider implements vscode.TextDocumentContentProvider, IDisposable {
+export class RoslynSourceGeneratedContentProvider implements vscode.TextDocumentContentProvider, IDisposable {
     private _onDidChangeEmitter: vscode.EventEmitter<vscode.Uri> = new vscode.EventEmitter<vscode.Uri>();
+    private _onDidRefreshEmitter = new vscode.EventEmitter<void>();
 
     // Stores all the source generated documents that we have opened so far and their up to date content.
     private _openedDocuments: Map<vscode.Uri, RoslynProtocol.SourceGeneratedDocumentText> = new Map();
 
+    // Stores the latest and the one before it of every result we have received, keyed by the document uri.
+    // Unlike the opened documents, these are kept once the document is closed, so that results can still be compared.
+    private _latestResults = new Map<string, RoslynProtocol.SourceGeneratedDocumentText>();
+    private _previousResults = new Map<string, RoslynProtocol.SourceGeneratedDocumentText>();
+
     // Since we could potentially have multiple refresh notifications in flight at the same time,
     // we use a simple queue to ensure that updates to our state map only happen serially.
     private _updateQueue?: Promise<RoslynProtocol.SourceGeneratedDocumentText>;
@@ -38,6 +53,7 @@ class RoslynSourceGeneratedContentProvider implements vscode.TextDocumentContent
         languageServer.registerOnNotification(
             RoslynProtocol.RefreshSourceGeneratedDocumentNotification.method,
             async () => {
+                this._onDidRefreshEmitter.fire();
                 this._openedDocuments.forEach(async (_, key) => {
                     await this.enqueueDocumentUpdateAsync(key, this._cancellationSource.token);
                     this._onDidChangeEmitter.fire(key);
@@ -54,6 +70,23 @@ class RoslynSourceGeneratedContentProvider implements vscode.TextDocumentContent
 
     public onDidChange: vscode.Event<vscode.Uri> = this._onDidChangeEmitter.event;
 
+    /** Fires when the server notifies that source generators produced new results. */
+    public onDidRefresh: vscode.Event<void> = this._onDidRefreshEmitter.event;
+
+    public getPreviousResult(uri: vscode.Uri): RoslynProtocol.SourceGeneratedDocumentText | undefined {
+        return this._previousResults.get(uri.toString());
+    }
+
+    /** Forgets the results of the documents that generators no longer produce. */
+    public removeResultsExcept(generatedUris: Set<string>) {
+        for (const uri of this._latestResults.keys()) {
+            if (!generatedUris.has(uri)) {
+                this._latestResults.delete(uri);
+                this._previousResults.delete(uri);
+            }
+        }
+    }
+
     async provideTextDocumentContent(uri: vscode.Uri, token: vscode.CancellationToken): Promise<string> {
         let content = this._openedDocuments.get(uri);
 
@@ -95,13 +128,34 @@ class RoslynSourceGeneratedContentProvider implements vscode.TextDocumentContent
         // If we had no content before, or the resultId has changed, update the content
         if (!currentContent || newContent.resultId !== currentContent?.resultId) {
             this._openedDocuments.set(uri, newContent);
+            this.recordResult(uri, newContent);
             return newContent;
         }
 
         return currentContent;
     }
 
+    private recordResult(uri: vscode.Uri, result: RoslynProtocol.SourceGeneratedDocumentText) {
+        if (result.text === undefined) {
+            // The generator no longer produces the document.
+            this._latestResults.delete(uri.toString());
+            this._previousResults.delete(uri.toString());
+            return;
+        }
+
+        const latest = this._latestResults.get(uri.toString());
+        if (latest?.resultId === result.resultId) {
+            return;
+        }
+
+        if (latest !== undefined) {
+            this._previousResults.set(uri.toString(), latest);
+        }
+        this._latestResults.set(uri.toString(), result);
+    }
+
     dispose(): void {
         this._cancellationSource.cancel();
+        this._onDidRefreshEmitter.dispose();
     }
 }
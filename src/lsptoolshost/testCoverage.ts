@@ -0,0 +1,207 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { CoverageReport, getCoveredLineCount, LineCoverage, mergeCoverage, parseCobertura } from './coberturaParser';
+import { addCoverageCollector } from './runSettingsParser';
+import { normalizeFilePath } from '../shared/utils/projectFiles';
+
+const CoberturaFileName = 'coverage.cobertura.xml';
+
+export interface CoverageRun {
+    /** The directory the test host writes its results (including the coverage reports) to. */
+    resultsDirectory: string;
+
+    /** Run settings that enable coverage collection, based on the run settings the user had configured. */
+    runSettingsPath: string;
+}
+
+/**
+ * Creates a results directory and run settings for collecting coverage in a test run.  The coverage collector requires
+ * the test project to reference the coverlet.collector package, which the default test templates include.
+ */
+export async function prepareCoverageRun(runSettingsPath: string | undefined): Promise<CoverageRun> {
+    const resultsDirectory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'dotnet-test-coverage-'));
+    const runSettings = runSettingsPath ? await fs.promises.readFile(runSettingsPath, 'utf8') : undefined;
+
+    const coverageRunSettingsPath = path.join(resultsDirectory, 'coverage.runsettings');
+    await fs.promises.writeFile(coverageRunSettingsPath, addCoverageCollector(runSettings, resultsDirectory));
+    return { resultsDirectory, runSettingsPath: coverageRunSettingsPath };
+}
+
+/**
+ * Reads the coverage reports written during the run and deletes the results directory.  Returns undefined if no
+ * coverage was collected.
+ */
+export async function readCoverageResults(coverageRun: CoverageRun): Promise<CoverageReport | undefined> {
+    try {
+        const reportFiles = await findFiles(coverageRun.resultsDirectory, CoberturaFileName);
+        if (reportFiles.length === 0) {
+            return undefined;
+        }
+
+        const reports = await Promise.all(
+            reportFiles.map(async (file) => parseCobertura(await fs.promises.readFile(file, 'utf8'), fs.existsSync))
+        );
+        return mergeCoverage(reports);
+    } finally {
+        await fs.promises.rm(coverageRun.resultsDirectory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Formats a summary of the coverage in the report, per project and per file.
+ */
+export function formatCoverageSummary(report: CoverageReport): string[] {
+    const allLines = report.files.flatMap((f) => f.lines);
+    const summary = [vscode.l10n.t('Code coverage: {0}', formatCoverage(allLines))];
+
+    const projects = [...new Set(report.files.map((f) => f.packageName))].sort();
+    for (const project of projects) {
+        const files = report.files
+            .filter((f) => f.packageName === project)
+            .sort((a, b) => a.path.localeCompare(b.path));
+        summary.push(`  ${project}: ${formatCoverage(files.flatMap((f) => f.lines))}`);
+        for (const file of files) {
+            summary.push(`    ${vscode.workspace.asRelativePath(file.path)}: ${formatCoverage(file.lines)}`);
+        }
+    }
+
+    return summary;
+}
+
+function formatCoverage(lines: LineCoverage[]): string {
+    const covered = getCoveredLineCount(lines);
+    const text = vscode.l10n.t('{0} of lines ({1}/{2})', formatPercent(covered, lines.length), covered, lines.length);
+
+    const branches = lines.filter((l) => l.branches !== undefined).map((l) => l.branches!);
+    if (branches.length === 0) {
+        return text;
+    }
+
+    const coveredBranches = branches.reduce((total, b) => total + b.covered, 0);
+    const totalBranches = branches.reduce((total, b) => total + b.total, 0);
+    return vscode.l10n.t(
+        '{0}, {1} of branches ({2}/{3})',
+        text,
+        formatPercent(coveredBranches, totalBranches),
+        coveredBranches,
+        totalBranches
+    );
+}
+
+function formatPercent(covered: number, total: number): string {
+    return total === 0 ? '-' : `${((covered / total) * 100).toFixed(1)}%`;
+}
+
+async function findFiles(directory: string, fileName: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await fs.promises.readdir(directory, { withFileTypes: true })) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...(await findFiles(entryPath, fileName)));
+        } else if (entry.name === fileName) {
+            files.push(entryPath);
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Shows line coverage from the last coverage run as gutter decorations in the editors.  The coverage for a file is
+ * removed once it is edited, as the line numbers no longer match.
+ */
+export class TestCoverageDecorations implements vscode.Disposable {
+    private readonly _coveredType = createDecorationType('#2ea043', 'testing.coveredBackground');
+    private readonly _partiallyCoveredType = createDecorationType('#d29922', 'testing.coveredBackground');
+    private readonly _uncoveredType = createDecorationType('#f85149', 'testing.uncoveredBackground');
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    /**
+     * The line coverage of each file, keyed by file path.  The paths written by coverlet are normalized to match the
+     * paths of the documents, which have a lower case drive letter on Windows.
+     */
+    private _coverage = new Map<string, LineCoverage[]>();
+
+    constructor() {
+        this._disposables.push(
+            this._coveredType,
+            this._partiallyCoveredType,
+            this._uncoveredType,
+            vscode.window.onDidChangeVisibleTextEditors((editors) => editors.forEach((e) => this.render(e))),
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                if (e.contentChanges.length > 0 && this._coverage.delete(e.document.uri.fsPath)) {
+                    vscode.window.visibleTextEditors
+                        .filter((editor) => editor.document === e.document)
+                        .forEach((editor) => this.render(editor));
+                }
+            })
+        );
+    }
+
+    public show(report: CoverageReport) {
+        this._coverage = new Map(report.files.map((f) => [normalizeFilePath(f.path), f.lines]));
+        vscode.window.visibleTextEditors.forEach((e) => this.render(e));
+    }
+
+    public clear() {
+        this._coverage.clear();
+        vscode.window.visibleTextEditors.forEach((e) => this.render(e));
+    }
+
+    public dispose() {
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    private render(editor: vscode.TextEditor) {
+        const lines = this._coverage.get(editor.document.uri.fsPath) ?? [];
+        const covered: vscode.DecorationOptions[] = [];
+        const partiallyCovered: vscode.DecorationOptions[] = [];
+        const uncovered: vscode.DecorationOptions[] = [];
+
+        for (const line of lines) {
+            if (line.line > editor.document.lineCount) {
+                continue;
+            }
+
+            const range = new vscode.Range(line.line - 1, 0, line.line - 1, 0);
+            if (line.hits === 0) {
+                uncovered.push({ range, hoverMessage: vscode.l10n.t('Not covered by tests') });
+            } else if (line.branches && line.branches.covered < line.branches.total) {
+                partiallyCovered.push({
+                    range,
+                    hoverMessage: vscode.l10n.t(
+                        'Covered {0} times; {1} of {2} branches covered',
+                        line.hits,
+                        line.branches.covered,
+                        line.branches.total
+                    ),
+                });
+            } else {
+                covered.push({ range, hoverMessage: vscode.l10n.t('Covered {0} times', line.hits) });
+            }
+        }
+
+        editor.setDecorations(this._coveredType, covered);
+        editor.setDecorations(this._partiallyCoveredType, partiallyCovered);
+        editor.setDecorations(this._uncoveredType, uncovered);
+    }
+}
+
+function createDecorationType(gutterColor: string, backgroundColor: string): vscode.TextEditorDecorationType {
+    const gutterIcon = `<svg xmlns="http://www.w3.org/2000/svg" width="4" height="16"><rect width="4" height="16" fill="${gutterColor}"/></svg>`;
+    return vscode.window.createTextEditorDecorationType({
+        isWholeLine: true,
+        backgroundColor: new vscode.ThemeColor(backgroundColor),
+        gutterIconPath: vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(gutterIcon)}`),
+        gutterIconSize: 'contain',
+        overviewRulerColor: gutterColor,
+        overviewRulerLane: vscode.OverviewRulerLane.Left,
+    });
+}
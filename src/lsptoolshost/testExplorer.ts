@@ -0,0 +1,907 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as languageClient from 'vscode-languageclient/node';
+import { RoslynLanguageServer } from './roslynLanguageServer';
+import { RunTestsParams, TestProgress, TestResult } from './roslynProtocol';
+import { UriConverter } from './uriConverter';
+import { LanguageServerEvents } from './languageServerEvents';
+import { ServerState } from './serverStateChange';
+import { getCSharpDevKit } from '../utils/getCSharpDevKit';
+import { recordTestRun, sendRunTestsRequest } from './unitTesting';
+import { findMethodResults, parseStackTrace } from './testOutputParser';
+import { getStackTraceLocations } from './testResultDiagnostics';
+import {
+    findContainingProjectFile,
+    getProjectReferences,
+    isProjectFile,
+    normalizeFilePath,
+    ProjectFilesGlob,
+} from '../shared/utils/projectFiles';
+import { CoverageReport, getCoveredLineCount, LineCoverage, mergeCoverage } from './coberturaParser';
+import { formatCoverageSummary } from './testCoverage';
+import { showInformationMessage } from '../shared/observers/utils/showMessage';
+
+const RunTestCommand = 'dotnet.test.run';
+const DiscoveryDelay = 1000;
+const ContinuousRunDelay = 1000;
+const TestProjectRegex = /Microsoft\.NET\.Test\.Sdk|MSTest\.Sdk|<IsTestProject>\s*true\s*<\/IsTestProject>/i;
+
+/** The requests sent and results received across all the projects in a test run. */
+interface TestRunState {
+    requests: RunTestsParams[];
+    results: TestResult[];
+
+    /** The coverage reported for each request, if the run collects coverage. */
+    coverage: CoverageReport[] | undefined;
+}
+
+/** Tests that are rerun whenever code they depend on is saved. */
+interface ContinuousRun {
+    /** The tests to rerun, or undefined to rerun any affected test. */
+    include: readonly vscode.TestItem[] | undefined;
+    exclude: readonly vscode.TestItem[] | undefined;
+    profile: vscode.TestRunProfile | undefined;
+
+    /** Cancels the rerun currently in progress, so that it can be replaced by a run with the latest changes. */
+    pendingRun?: vscode.CancellationTokenSource;
+}
+
+const TypeSymbolKinds = [
+    vscode.SymbolKind.Class,
+    vscode.SymbolKind.Struct,
+    vscode.SymbolKind.Interface,
+    vscode.SymbolKind.Module,
+];
+
+export function registerTestExplorer(
+    context: vscode.ExtensionContext,
+    languageServer: RoslynLanguageServer,
+    languageServerEvents: LanguageServerEvents
+) {
+    if (getCSharpDevKit()) {
+        // C# Dev Kit provides its own test explorer integration.
+        return;
+    }
+
+    const testExplorer = new TestExplorer(languageServer, languageServerEvents);
+    context.subscriptions.push(testExplorer);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.test.toggleContinuousTesting', async () =>
+            testExplorer.toggleContinuousTesting()
+        )
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.test.runTestsInProject', async (projectFile: string) =>
+            testExplorer.runTestsInProject(projectFile)
+        )
+    );
+}
+
+/**
+ * Populates the VS Code test explorer with the tests the language server reports via its run test code lenses,
+ * grouped by project, class and method. Tests are run and debugged using the {@link RunTestsRequest}.
+ */
+class TestExplorer implements vscode.Disposable {
+    private readonly _controller: vscode.TestController;
+    private readonly _disposables: vscode.Disposable[] = [];
+
+    /** The range the server associated with a test item; this is what we send back to run the item. */
+    private readonly _runRanges = new WeakMap<vscode.TestItem, languageClient.Range>();
+
+    /** The test method items discovered in each document, keyed by document uri. */
+    private readonly _documentTests = new Map<string, vscode.TestItem[]>();
+
+    /** The line coverage for each file reported to a coverage run, used to provide the detailed coverage. */
+    private readonly _fileCoverageLines = new WeakMap<vscode.FileCoverage, LineCoverage[]>();
+
+    /** Cache of the project file containing each directory. */
+    private readonly _projectFileCache = new Map<string, string | undefined>();
+
+    private readonly _pendingDiscovery = new Map<string, NodeJS.Timeout>();
+
+    private readonly _runProfile: vscode.TestRunProfile;
+    private readonly _continuousRuns = new Set<ContinuousRun>();
+
+    /** The continuous run started by the dotnet.test.toggleContinuousTesting command. */
+    private _continuousTesting: ContinuousRun | undefined;
+
+    /** The documents saved since the affected tests were last rerun, keyed by file path. */
+    private readonly _savedDocuments = new Set<string>();
+    private _pendingContinuousRun: NodeJS.Timeout | undefined;
+
+    constructor(private readonly _languageServer: RoslynLanguageServer, languageServerEvents: LanguageServerEvents) {
+        this._controller = vscode.tests.createTestController('dotnetTests', vscode.l10n.t('.NET Tests'));
+        this._controller.resolveHandler = async (item) => this.resolve(item);
+        this._controller.refreshHandler = async (token) => this.refresh(token);
+
+        this._runProfile = this._controller.createRunProfile(
+            vscode.l10n.t('Run Tests'),
+            vscode.TestRunProfileKind.Run,
+            async (request, token) =>
+                request.continuous ? this.startContinuousRun(request, token) : this.runTests(request, false, token),
+            /*isDefault*/ true,
+            /*tag*/ undefined,
+            /*supportsContinuousRun*/ true
+        );
+        this._controller.createRunProfile(
+            vscode.l10n.t('Debug Tests'),
+            vscode.TestRunProfileKind.Debug,
+            async (request, token) => this.runTests(request, true, token),
+            /*isDefault*/ true
+        );
+        const coverageProfile = this._controller.createRunProfile(
+            vscode.l10n.t('Run Tests with Coverage'),
+            vscode.TestRunProfileKind.Coverage,
+            async (request, token) => this.runTests(request, false, token, /*collectCoverage*/ true),
+            /*isDefault*/ true
+        );
+        coverageProfile.loadDetailedCoverage = async (_run, fileCoverage) =>
+            (this._fileCoverageLines.get(fileCoverage) ?? []).map(
+                (line) => new vscode.StatementCoverage(line.hits, new vscode.Position(line.line - 1, 0))
+            );
+
+        this._disposables.push(
+            vscode.workspace.onDidOpenTextDocument((document) => this.scheduleDiscovery(document)),
+            vscode.workspace.onDidChangeTextDocument((e) => this.scheduleDiscovery(e.document)),
+            vscode.workspace.onDidSaveTextDocument((document) => this.scheduleContinuousRun(document)),
+            languageServerEvents.onServerStateChange((e) => {
+                if (e.state === ServerState.ProjectInitializationComplete) {
+                    vscode.workspace.textDocuments.forEach((document) => this.scheduleDiscovery(document));
+                }
+            })
+        );
+    }
+
+    public dispose() {
+        this._pendingDiscovery.forEach((timeout) => clearTimeout(timeout));
+        this._pendingDiscovery.clear();
+        clearTimeout(this._pendingContinuousRun);
+        this._continuousRuns.forEach((continuousRun) => continuousRun.pendingRun?.cancel());
+        this._disposables.forEach((d) => d.dispose());
+        this._controller.dispose();
+    }
+
+    public async toggleContinuousTesting(): Promise<void> {
+        if (this._continuousTesting) {
+            this.stopContinuousRun(this._continuousTesting);
+            this._continuousTesting = undefined;
+        } else {
+            this._continuousTesting = { include: undefined, exclude: undefined, profile: this._runProfile };
+            this._continuousRuns.add(this._continuousTesting);
+        }
+
+        const enabled = this._continuousTesting !== undefined;
+        await vscode.commands.executeCommand('setContext', 'dotnet.test.continuousTesting', enabled);
+        showInformationMessage(
+            vscode,
+            enabled
+                ? vscode.l10n.t('Continuous testing enabled. Affected tests will be rerun when C# files are saved.')
+                : vscode.l10n.t('Continuous testing disabled.')
+        );
+    }
+
+    /**
+     * Runs all the tests in a test project.
+     */
+    public async runTestsInProject(projectFile: string): Promise<void> {
+        await this.discoverTestProjects();
+        const projectItem = this._controller.items.get(getProjectItemId(projectFile));
+        if (projectItem === undefined) {
+            showInformationMessage(vscode, vscode.l10n.t('{0} is not a test project.', path.basename(projectFile)));
+            return;
+        }
+
+        const cancellationSource = new vscode.CancellationTokenSource();
+        try {
+            const request = new vscode.TestRunRequest([projectItem], undefined, this._runProfile);
+            await this.runTests(request, false, cancellationSource.token);
+        } finally {
+            cancellationSource.dispose();
+        }
+    }
+
+    private async resolve(item: vscode.TestItem | undefined): Promise<void> {
+        if (item === undefined) {
+            await this.discoverTestProjects();
+        } else if (item.uri && isProjectFile(item.uri.fsPath)) {
+            await this.discoverTestsInProject(item, new vscode.CancellationTokenSource().token);
+        }
+    }
+
+    private async refresh(token: vscode.CancellationToken): Promise<void> {
+        this._controller.items.replace([]);
+        this._documentTests.clear();
+        this._projectFileCache.clear();
+
+        await this.discoverTestProjects();
+        for (const [, projectItem] of this._controller.items) {
+            if (token.isCancellationRequested) {
+                return;
+            }
+            await this.discoverTestsInProject(projectItem, token);
+        }
+    }
+
+    private async discoverTestProjects(): Promise<void> {
+        const projectFiles = await vscode.workspace.findFiles(ProjectFilesGlob, '**/node_modules/**');
+        for (const projectFile of projectFiles) {
+            let content: string;
+            try {
+                content = await fs.promises.readFile(projectFile.fsPath, 'utf8');
+            } catch {
+                continue;
+            }
+
+            if (TestProjectRegex.test(content)) {
+                this.getOrCreateProjectItem(projectFile.fsPath).canResolveChildren = true;
+            }
+        }
+    }
+
+    private async discoverTestsInProject(projectItem: vscode.TestItem, token: vscode.CancellationToken) {
+        if (!this._languageServer.isRunning()) {
+            return;
+        }
+
+        const projectDirectory = path.dirname(projectItem.uri!.fsPath);
+        projectItem.busy = true;
+        try {
+            const documents = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(projectDirectory, '**/*.cs'),
+                new vscode.RelativePattern(projectDirectory, '{**/bin/**,**/obj/**}'),
+                undefined,
+                token
+            );
+            for (const document of documents) {
+                if (token.isCancellationRequested) {
+                    return;
+                }
+
+                // Files from nested projects are discovered as part of their own project.
+                const projectFile = findContainingProjectFile(document.fsPath, this._projectFileCache);
+                if (projectFile !== undefined && getProjectItemId(projectFile) === projectItem.id) {
+                    await this.discoverTestsInDocument(document);
+                }
+            }
+        } finally {
+            projectItem.busy = false;
+        }
+    }
+
+    private scheduleDiscovery(document: vscode.TextDocument) {
+        if (document.languageId !== 'csharp' || document.uri.scheme !== 'file') {
+            return;
+        }
+
+        const key = document.uri.toString();
+        const pending = this._pendingDiscovery.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+
+        this._pendingDiscovery.set(
+            key,
+            setTimeout(() => {
+                this._pendingDiscovery.delete(key);
+                this.discoverTestsInDocument(document.uri).catch((e) => {
+                    throw new Error(`Error discovering tests in ${document.uri.fsPath}: ${e}`);
+                });
+            }, DiscoveryDelay)
+        );
+    }
+
+    private async discoverTestsInDocument(uri: vscode.Uri): Promise<void> {
+        if (!this._languageServer.isRunning()) {
+            return;
+        }
+
+        const codeLenses =
+            (await vscode.commands.executeCommand<vscode.CodeLens[] | undefined>(
+                'vscode.executeCodeLensProvider',
+                uri
+            )) ?? [];
+
+        // The server returns both a run and a debug lens for every test; we only need one of them.
+        const testLenses = codeLenses.filter(
+            (lens) =>
+                lens.command?.command === RunTestCommand &&
+                (lens.command.arguments?.[0] as RunTestsParams | undefined)?.attachDebugger === false
+        );
+
+        this.removeTestsInDocument(uri);
+        if (testLenses.length === 0) {
+            return;
+        }
+
+        const projectFile = findContainingProjectFile(uri.fsPath, this._projectFileCache);
+        if (projectFile === undefined) {
+            return;
+        }
+
+        const symbols =
+            (await vscode.commands.executeCommand<vscode.DocumentSymbol[] | undefined>(
+                'vscode.executeDocumentSymbolProvider',
+                uri
+            )) ?? [];
+        const document = await vscode.workspace.openTextDocument(uri);
+
+        const projectItem = this.getOrCreateProjectItem(projectFile);
+        const methodItems: vscode.TestItem[] = [];
+        for (const lens of testLenses) {
+            const params = lens.command!.arguments![0] as RunTestsParams;
+            const symbolPath = findSymbolPath(symbols, lens.range.start);
+            const member = symbolPath[symbolPath.length - 1];
+            if (member === undefined) {
+                continue;
+            }
+
+            const typePath = symbolPath.filter((s) => TypeSymbolKinds.includes(s.kind));
+            const containingType = typePath[typePath.length - 1];
+            if (containingType === undefined) {
+                continue;
+            }
+
+            const namespace = getNamespace(symbolPath, document, lens.range.start);
+            const typeName = [namespace, ...typePath.map((s) => getSymbolName(s))].filter((n) => n).join('.');
+
+            let classItem = projectItem.children.get(typeName);
+            if (classItem === undefined) {
+                classItem = this._controller.createTestItem(typeName, getSymbolName(containingType), uri);
+                classItem.range = containingType.selectionRange;
+                this._runRanges.set(classItem, toProtocolRange(containingType.range));
+                projectItem.children.add(classItem);
+            }
+
+            if (member === containingType) {
+                // This is the lens for running all the tests in the class.
+                classItem.range = lens.range;
+                this._runRanges.set(classItem, params.range);
+                continue;
+            }
+
+            // Test results only carry the name of the method, so overloads can't be told apart and are reported as
+            // a single test, which runs all of them.
+            const methodName = getSymbolName(member);
+            const methodId = `${typeName}.${methodName}`;
+            const overloadItem = methodItems.find((item) => item.id === methodId);
+            if (overloadItem !== undefined) {
+                this._runRanges.set(overloadItem, unionRange(this._runRanges.get(overloadItem)!, params.range));
+                continue;
+            }
+
+            const methodItem = this._controller.createTestItem(methodId, methodName, uri);
+            methodItem.range = lens.range;
+            this._runRanges.set(methodItem, params.range);
+            classItem.children.add(methodItem);
+            methodItems.push(methodItem);
+        }
+
+        this._documentTests.set(uri.toString(), methodItems);
+    }
+
+    private removeTestsInDocument(uri: vscode.Uri) {
+        const methodItems = this._documentTests.get(uri.toString());
+        if (methodItems === undefined) {
+            return;
+        }
+
+        this._documentTests.delete(uri.toString());
+        for (const methodItem of methodItems) {
+            const classItem = methodItem.parent;
+            classItem?.children.delete(methodItem.id);
+
+            // Remove classes that no longer contain any tests (a partial class may still have tests in another document).
+            const projectItem = classItem?.parent;
+            if (classItem && classItem.children.size === 0 && classItem.uri?.toString() === uri.toString()) {
+                projectItem?.children.delete(classItem.id);
+            }
+        }
+    }
+
+    private getOrCreateProjectItem(projectFile: string): vscode.TestItem {
+        let projectItem = this._controller.items.get(getProjectItemId(projectFile));
+        if (projectItem === undefined) {
+            projectItem = this._controller.createTestItem(
+                getProjectItemId(projectFile),
+                path.basename(projectFile, path.extname(projectFile)),
+                vscode.Uri.file(projectFile)
+            );
+            projectItem.canResolveChildren = true;
+            this._controller.items.add(projectItem);
+        }
+
+        return projectItem;
+    }
+
+    /**
+     * Handles a continuous run requested from the test explorer, which lasts until the token is cancelled.
+     */
+    private startContinuousRun(request: vscode.TestRunRequest, token: vscode.CancellationToken) {
+        const continuousRun: ContinuousRun = {
+            include: request.include,
+            exclude: request.exclude,
+            profile: request.profile,
+        };
+        this._continuousRuns.add(continuousRun);
+        token.onCancellationRequested(() => this.stopContinuousRun(continuousRun));
+    }
+
+    private stopContinuousRun(continuousRun: ContinuousRun) {
+        this._continuousRuns.delete(continuousRun);
+        continuousRun.pendingRun?.cancel();
+    }
+
+    private scheduleContinuousRun(document: vscode.TextDocument) {
+        if (this._continuousRuns.size === 0 || document.languageId !== 'csharp' || document.uri.scheme !== 'file') {
+            return;
+        }
+
+        // Saving several files (e.g. with Save All) should only trigger one run.
+        this._savedDocuments.add(document.uri.fsPath);
+        clearTimeout(this._pendingContinuousRun);
+        this._pendingContinuousRun = setTimeout(() => {
+            this._pendingContinuousRun = undefined;
+            this.runAffectedTests().catch((e) => {
+                throw new Error(`Error running affected tests: ${e}`);
+            });
+        }, ContinuousRunDelay);
+    }
+
+    private async runAffectedTests(): Promise<void> {
+        const savedDocuments = [...this._savedDocuments];
+        this._savedDocuments.clear();
+
+        const affected = new Set<vscode.TestItem>();
+        for (const document of savedDocuments) {
+            const projectFile = findContainingProjectFile(document, this._projectFileCache);
+            if (projectFile === undefined) {
+                continue;
+            }
+
+            const projectItem = this._controller.items.get(getProjectItemId(projectFile));
+            if (projectItem) {
+                // A file in a test project; rerun its tests, or the whole project if it is a helper without tests.
+                const uri = vscode.Uri.file(document);
+                await this.discoverTestsInDocument(uri);
+                const tests = this._documentTests.get(uri.toString()) ?? [];
+                (tests.length > 0 ? tests : [projectItem]).forEach((item) => affected.add(item));
+            } else {
+                // A file in a project the tests depend on; rerun the test projects that reference it.
+                for (const [, testProject] of this._controller.items) {
+                    const references = [...getProjectReferences(testProject.uri!.fsPath)];
+                    if (references.some((r) => getProjectItemId(r) === getProjectItemId(projectFile))) {
+                        affected.add(testProject);
+                    }
+                }
+            }
+        }
+
+        for (const continuousRun of this._continuousRuns) {
+            const items = getItemsInScope([...affected], continuousRun.include);
+            if (items.length === 0) {
+                continue;
+            }
+
+            // Only the results for the latest changes are interesting.
+            continuousRun.pendingRun?.cancel();
+            const cancellationSource = new vscode.CancellationTokenSource();
+            continuousRun.pendingRun = cancellationSource;
+
+            const request = new vscode.TestRunRequest(
+                items,
+                continuousRun.exclude,
+                continuousRun.profile,
+                /*continuous*/ true
+            );
+            this.runTests(request, false, cancellationSource.token)
+                .finally(() => {
+                    if (continuousRun.pendingRun === cancellationSource) {
+                        continuousRun.pendingRun = undefined;
+                    }
+                    cancellationSource.dispose();
+                })
+                .catch((e) => {
+                    throw new Error(`Error running affected tests: ${e}`);
+                });
+        }
+    }
+
+    private async runTests(
+        request: vscode.TestRunRequest,
+        debug: boolean,
+        token: vscode.CancellationToken,
+        collectCoverage = false
+    ) {
+        const run = this._controller.createTestRun(request);
+        try {
+            const targets = await this.getRunTargets(request);
+            targets.forEach((target) => forEachTest(target, (item) => run.enqueued(item)));
+
+            // Each project runs independently (and concurrently) with its own progress notification, so a
+            // single project's run can be cancelled without affecting the others.
+            const targetsByProject = new Map<vscode.TestItem, vscode.TestItem[]>();
+            for (const target of targets) {
+                const projectItem = getProjectItem(target);
+                targetsByProject.set(projectItem, [...(targetsByProject.get(projectItem) ?? []), target]);
+            }
+
+            // A project failing to run must not end the run while the other projects still report into it.
+            const state: TestRunState = { requests: [], results: [], coverage: collectCoverage ? [] : undefined };
+            const projectRuns = [...targetsByProject];
+            const outcomes = await Promise.allSettled(
+                projectRuns.map(async ([projectItem, projectTargets]) =>
+                    this.runProjectTests(
+                        run,
+                        projectItem,
+                        projectTargets,
+                        debug,
+                        token,
+                        state,
+                        request.continuous === true
+                    )
+                )
+            );
+            outcomes.forEach((outcome, i) => {
+                if (outcome.status === 'rejected') {
+                    const message = new vscode.TestMessage(`${outcome.reason}`);
+                    projectRuns[i][1].forEach((target) =>
+                        forEachTest(target, (item) => item.children.size === 0 && run.errored(item, message))
+                    );
+                }
+            });
+
+            if (state.coverage && state.coverage.length > 0) {
+                this.reportCoverage(run, mergeCoverage(state.coverage));
+            }
+
+            // Continuous runs only rerun the tests affected by a save; rerunning the last run should still rerun what
+            // the user ran.
+            if (!request.continuous) {
+                await recordTestRun(state.requests, state.results);
+            }
+        } finally {
+            run.end();
+        }
+    }
+
+    private async runProjectTests(
+        run: vscode.TestRun,
+        projectItem: vscode.TestItem,
+        targets: vscode.TestItem[],
+        debug: boolean,
+        runToken: vscode.CancellationToken,
+        state: TestRunState,
+        continuous: boolean
+    ) {
+        await vscode.window.withProgress(
+            {
+                // Don't pop up a notification for every save when testing continuously.
+                location: continuous ? vscode.ProgressLocation.Window : vscode.ProgressLocation.Notification,
+                title: vscode.l10n.t('Running tests in {0}', projectItem.label),
+                cancellable: true,
+            },
+            async (progress, progressToken) => {
+                const cancellationSource = new vscode.CancellationTokenSource();
+                const disposables = [
+                    runToken.onCancellationRequested(() => cancellationSource.cancel()),
+                    progressToken.onCancellationRequested(() => cancellationSource.cancel()),
+                ];
+
+                try {
+                    for (const target of targets) {
+                        if (cancellationSource.token.isCancellationRequested) {
+                            forEachTest(target, (item) => run.skipped(item));
+                            continue;
+                        }
+
+                        forEachTest(target, (item) => run.started(item));
+                        const params: RunTestsParams = {
+                            textDocument: languageClient.TextDocumentIdentifier.create(
+                                UriConverter.serialize(target.uri!)
+                            ),
+                            range: this._runRanges.get(target)!,
+                            attachDebugger: debug,
+                        };
+
+                        let lastProgress: TestProgress | undefined = undefined;
+                        const errors: string[] = [];
+                        state.requests.push(params);
+                        const targetResults = await sendRunTestsRequest(
+                            params,
+                            this._languageServer,
+                            (partialResult) => {
+                                if (partialResult.message) {
+                                    run.appendOutput(toTerminalText(partialResult.message + '\n'));
+                                }
+                                if (partialResult.progress) {
+                                    lastProgress = partialResult.progress;
+                                }
+                                progress.report({ message: partialResult.stage });
+                            },
+                            (message) => {
+                                errors.push(message);
+                                run.appendOutput(toTerminalText(message + '\n'));
+                            },
+                            cancellationSource.token,
+                            state.coverage ? (coverage) => state.coverage!.push(coverage) : undefined
+                        );
+
+                        state.results.push(...targetResults);
+                        if (targetResults.length === 0 && cancellationSource.token.isCancellationRequested) {
+                            forEachTest(target, (item) => run.skipped(item));
+                        } else {
+                            this.reportResults(run, target, targetResults, lastProgress, errors);
+                        }
+                    }
+                } finally {
+                    disposables.forEach((d) => d.dispose());
+                    cancellationSource.dispose();
+                }
+            }
+        );
+    }
+
+    private reportCoverage(run: vscode.TestRun, coverage: CoverageReport) {
+        for (const file of coverage.files) {
+            const branches = file.lines.filter((l) => l.branches !== undefined).map((l) => l.branches!);
+            const fileCoverage = new vscode.FileCoverage(
+                vscode.Uri.file(file.path),
+                new vscode.TestCoverageCount(getCoveredLineCount(file.lines), file.lines.length),
+                branches.length > 0
+                    ? new vscode.TestCoverageCount(
+                          branches.reduce((total, b) => total + b.covered, 0),
+                          branches.reduce((total, b) => total + b.total, 0)
+                      )
+                    : undefined
+            );
+            this._fileCoverageLines.set(fileCoverage, file.lines);
+            run.addCoverage(fileCoverage);
+        }
+
+        run.appendOutput(toTerminalText(formatCoverageSummary(coverage).join('\n') + '\n'));
+    }
+
+    /**
+     * Returns the items that should each be run with a separate request, expanding items that
+     * can't be run directly (projects) or that have excluded children.
+     */
+    private async getRunTargets(request: vscode.TestRunRequest): Promise<vscode.TestItem[]> {
+        const excluded = new Set(request.exclude ?? []);
+        const targets: vscode.TestItem[] = [];
+
+        const addTarget = async (item: vscode.TestItem) => {
+            if (excluded.has(item)) {
+                return;
+            }
+
+            if (item.canResolveChildren && item.children.size === 0) {
+                await this.resolve(item);
+            }
+
+            let hasExcludedChild = false;
+            forEachTest(item, (child) => (hasExcludedChild ||= excluded.has(child)));
+
+            if (this._runRanges.has(item) && !hasExcludedChild) {
+                targets.push(item);
+            } else {
+                for (const [, child] of item.children) {
+                    await addTarget(child);
+                }
+            }
+        };
+
+        if (request.include) {
+            for (const item of request.include) {
+                await addTarget(item);
+            }
+        } else {
+            for (const [, item] of this._controller.items) {
+                await addTarget(item);
+            }
+        }
+
+        return targets;
+    }
+
+    private reportResults(
+        run: vscode.TestRun,
+        target: vscode.TestItem,
+        results: TestResult[],
+        progress: TestProgress | undefined,
+        errors: string[]
+    ) {
+        const methodItems: vscode.TestItem[] = [];
+        forEachTest(target, (item) => {
+            if (item.children.size === 0) {
+                methodItems.push(item);
+            }
+        });
+
+        for (const methodItem of methodItems) {
+            const methodName = methodItem.id;
+            const methodResults = findMethodResults(results, methodName);
+
+            if (methodResults.length === 0) {
+                if (errors.length > 0) {
+                    run.errored(methodItem, new vscode.TestMessage(errors.join('\n')));
+                } else if (progress !== undefined && methodItems.length === 1) {
+                    // We couldn't get individual results, but we know the outcome of the single test that was run.
+                    reportAggregateOutcome(run, methodItem, progress);
+                }
+                continue;
+            }
+
+            for (const result of methodResults) {
+                if (result.stdout) {
+                    run.appendOutput(toTerminalText(result.stdout + '\n'), undefined, methodItem);
+                }
+            }
+
+            const duration = methodResults.reduce((total, r) => total + (r.duration ?? 0), 0);
+            const failures = methodResults.filter((r) => r.outcome === 'failed');
+            if (failures.length > 0) {
+                run.failed(
+                    methodItem,
+                    failures.map((f) => createTestMessage(f, methodItem, methodName)),
+                    duration
+                );
+            } else if (methodResults.some((r) => r.outcome === 'passed')) {
+                run.passed(methodItem, duration);
+            } else if (methodResults.some((r) => r.outcome === 'notFound')) {
+                run.errored(methodItem, new vscode.TestMessage(vscode.l10n.t('Test not found')));
+            } else {
+                run.skipped(methodItem);
+            }
+        }
+    }
+}
+
+function reportAggregateOutcome(run: vscode.TestRun, item: vscode.TestItem, progress: TestProgress) {
+    if (progress.testsFailed > 0) {
+        run.failed(item, new vscode.TestMessage(vscode.l10n.t('Test failed')));
+    } else if (progress.testsPassed > 0) {
+        run.passed(item);
+    } else if (progress.testsSkipped > 0) {
+        run.skipped(item);
+    }
+}
+
+function createTestMessage(result: TestResult, item: vscode.TestItem, methodName: string): vscode.TestMessage {
+    const message = new vscode.TestMessage(result.errorMessage ?? vscode.l10n.t('Test failed'));
+    if (result.fullyQualifiedName.replace(/\+/g, '.') !== methodName) {
+        message.message = `${result.fullyQualifiedName}: ${message.message}`;
+    }
+
+    if (result.stackTrace) {
+        message.stackTrace = parseStackTrace(result.stackTrace).map(
+            (frame) =>
+                new vscode.TestMessageStackFrame(
+                    frame.label,
+                    frame.filePath ? vscode.Uri.file(frame.filePath) : undefined,
+                    frame.line !== undefined ? new vscode.Position(frame.line - 1, 0) : undefined
+                )
+        );
+    }
+
+    // Point the failure at the innermost frame in the test's own document, falling back to the innermost
+    // frame with source and then to the test itself.
+    const locations = getStackTraceLocations(result);
+    message.location =
+        locations.find((location) => location.uri.fsPath === item.uri?.fsPath) ??
+        locations[0] ??
+        (item.uri && item.range ? new vscode.Location(item.uri, item.range) : undefined);
+
+    return message;
+}
+
+/**
+ * Returns the parts of the affected items that are within the scope of the included items (or all of the affected
+ * items if everything is included).
+ */
+function getItemsInScope(
+    affected: vscode.TestItem[],
+    include: readonly vscode.TestItem[] | undefined
+): vscode.TestItem[] {
+    if (include === undefined) {
+        return affected;
+    }
+
+    const items = new Set<vscode.TestItem>();
+    for (const item of affected) {
+        for (const included of include) {
+            if (isAncestorOrSelf(included, item)) {
+                items.add(item);
+            } else if (isAncestorOrSelf(item, included)) {
+                items.add(included);
+            }
+        }
+    }
+
+    return [...items];
+}
+
+function isAncestorOrSelf(ancestor: vscode.TestItem, item: vscode.TestItem | undefined): boolean {
+    for (; item; item = item.parent) {
+        if (item === ancestor) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Returns the id of the item of a project file.  Paths are normalized, as they come both from uris and from commands.
+ */
+function getProjectItemId(projectFile: string): string {
+    return normalizeFilePath(projectFile);
+}
+
+function getProjectItem(item: vscode.TestItem): vscode.TestItem {
+    return item.parent ? getProjectItem(item.parent) : item;
+}
+
+function forEachTest(item: vscode.TestItem, callback: (item: vscode.TestItem) => void) {
+    callback(item);
+    item.children.forEach((child) => forEachTest(child, callback));
+}
+
+/**
+ * Returns the chain of symbols (outermost first) containing the position.
+ */
+function findSymbolPath(symbols: vscode.DocumentSymbol[], position: vscode.Position): vscode.DocumentSymbol[] {
+    const symbol = symbols.find((s) => s.range.contains(position));
+    if (symbol === undefined) {
+        return [];
+    }
+
+    return [symbol, ...findSymbolPath(symbol.children, position)];
+}
+
+function getNamespace(
+    symbolPath: vscode.DocumentSymbol[],
+    document: vscode.TextDocument,
+    position: vscode.Position
+): string | undefined {
+    const namespaceSymbols = symbolPath.filter((s) => s.kind === vscode.SymbolKind.Namespace);
+    if (namespaceSymbols.length > 0) {
+        return namespaceSymbols.map((s) => s.name).join('.');
+    }
+
+    // The server doesn't always report namespaces as symbols, so find the closest preceding namespace declaration.
+    const textBefore = document.getText(new vscode.Range(new vscode.Position(0, 0), position));
+    const declarations = [...textBefore.matchAll(/^\s*namespace\s+([\w.]+)/gm)];
+    return declarations.length > 0 ? declarations[declarations.length - 1][1] : undefined;
+}
+
+function getSymbolName(symbol: vscode.DocumentSymbol): string {
+    // Strip parameter lists and generic arguments, e.g. "Test(int)" -> "Test".
+    return symbol.name.replace(/[(<].*$/, '').trim();
+}
+
+function toProtocolRange(range: vscode.Range): languageClient.Range {
+    return {
+        start: { line: range.start.line, character: range.start.character },
+        end: { line: range.end.line, character: range.end.character },
+    };
+}
+
+function unionRange(a: languageClient.Range, b: languageClient.Range): languageClient.Range {
+    const isBefore = (x: languageClient.Position, y: languageClient.Position) =>
+        x.line < y.line || (x.line === y.line && x.character < y.character);
+    return {
+        start: isBefore(a.start, b.start) ? a.start : b.start,
+        end: isBefore(a.end, b.end) ? b.end : a.end,
+    };
+}
+
+function toTerminalText(text: string): string {
+    // The test output terminal requires CRLF line endings.
+    return text.replace(/\r?\n/g, '\r\n');
+}
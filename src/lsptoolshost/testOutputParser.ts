@@ -0,0 +1,145 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { TestOutcome, TestResult } from './roslynProtocol';
+
+export interface ParsedStackFrame {
+    /**
+     * The frame text without the leading 'at' and the trailing file location.
+     */
+    label: string;
+    filePath?: string;
+    /**
+     * The 1-based line number in {@link filePath}.
+     */
+    line?: number;
+}
+
+// Matches the bracketed format ("[Failed] Namespace.Class.Method"), and the vstest console format
+// ("  Failed Namespace.Class.Method [12 ms]"), which is only told apart from other output by its duration.
+const bracketedResultLineRegex = /^\s*\[(Passed|Failed|Skipped|NotFound|None)\]\s+(.+?)(?:\s+\[([^\]]*)\])?\s*$/i;
+const consoleResultLineRegex = /^\s*(Passed|Failed|Skipped)\s+(\S.*?)\s+\[([^\]]*\d\s*(?:ms|m|s))\]\s*$/;
+const durationPartRegex = /(\d+)\s*(ms|m|s)\b/g;
+const errorMessageHeaderRegex = /^\s*Error Message:\s*$/i;
+const stackTraceHeaderRegex = /^\s*Stack Trace:\s*$/i;
+const stackFrameRegex = /^\s*at\s+(.+?)(?:\s+in\s+(.+):line\s+(\d+))?\s*$/;
+
+/**
+ * Returns the results reported for a test method.  A method reports several results when it's a parameterized test
+ * (one for each set of arguments), or when it has overloads, which are all reported under the name of the method.
+ * Nested types are reported with a '+' separator (Namespace.Outer+Inner.Method).
+ */
+export function findMethodResults(results: TestResult[], methodName: string): TestResult[] {
+    return results.filter((r) => {
+        const name = r.fullyQualifiedName.replace(/\+/g, '.');
+        return name === methodName || name.startsWith(`${methodName}(`);
+    });
+}
+
+/**
+ * Parses the textual output of a test run into individual test results.
+ * This is used when the server does not report structured {@link TestResult}s.
+ * Lines that are not part of a test result (build output, summaries, etc.) are ignored.
+ */
+export function parseTestResultOutput(output: string): TestResult[] {
+    const results: TestResult[] = [];
+    let current: TestResult | undefined = undefined;
+    let section: 'errorMessage' | 'stackTrace' | undefined = undefined;
+    let sectionLines: string[] = [];
+
+    const flushSection = () => {
+        if (current && section) {
+            const text = sectionLines.join('\n').trim();
+            if (text.length > 0) {
+                current[section] = text;
+            }
+        }
+        section = undefined;
+        sectionLines = [];
+    };
+
+    for (const line of output.split(/\r?\n/)) {
+        const resultMatch = bracketedResultLineRegex.exec(line) ?? consoleResultLineRegex.exec(line);
+        if (resultMatch) {
+            flushSection();
+            current = {
+                fullyQualifiedName: resultMatch[2],
+                outcome: toOutcome(resultMatch[1]),
+                duration: resultMatch[3] !== undefined ? toDuration(resultMatch[3]) : undefined,
+            };
+            results.push(current);
+            continue;
+        }
+
+        if (current === undefined) {
+            continue;
+        }
+
+        if (errorMessageHeaderRegex.test(line)) {
+            flushSection();
+            section = 'errorMessage';
+        } else if (stackTraceHeaderRegex.test(line)) {
+            flushSection();
+            section = 'stackTrace';
+        } else if (section !== undefined) {
+            if (line.trim().length === 0 && section === 'stackTrace') {
+                // A blank line terminates the stack trace.
+                flushSection();
+            } else {
+                sectionLines.push(line);
+            }
+        }
+    }
+
+    flushSection();
+    return results;
+}
+
+/**
+ * Parses a .NET stack trace into frames, extracting the file location of each frame when available.
+ */
+export function parseStackTrace(stackTrace: string): ParsedStackFrame[] {
+    const frames: ParsedStackFrame[] = [];
+    for (const line of stackTrace.split(/\r?\n/)) {
+        const match = stackFrameRegex.exec(line);
+        if (!match) {
+            continue;
+        }
+
+        frames.push({
+            label: match[1],
+            filePath: match[2],
+            line: match[3] !== undefined ? parseInt(match[3]) : undefined,
+        });
+    }
+
+    return frames;
+}
+
+function toOutcome(outcome: string): TestOutcome {
+    switch (outcome.toLowerCase()) {
+        case 'passed':
+            return 'passed';
+        case 'skipped':
+            return 'skipped';
+        case 'notfound':
+            return 'notFound';
+        case 'none':
+            return 'none';
+        default:
+            return 'failed';
+    }
+}
+
+function toDuration(duration: string): number | undefined {
+    // Durations are reported as e.g. "12 ms", "1 s 20 ms" or "< 1 ms".
+    let total: number | undefined = undefined;
+    for (const [, value, unit] of duration.matchAll(durationPartRegex)) {
+        const multiplier = unit === 'm' ? 60000 : unit === 's' ? 1000 : 1;
+        total = (total ?? 0) + parseInt(value) * multiplier;
+    }
+
+    return total;
+}
@@ -0,0 +1,84 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { TestResult } from './roslynProtocol';
+import { parseStackTrace } from './testOutputParser';
+
+/**
+ * Reports failed tests as diagnostics at the location the failure occurred, so they can be navigated to
+ * from the problems pane.  A test's diagnostic is removed once it passes (or is skipped) in a later run.
+ */
+export class TestResultDiagnostics implements vscode.Disposable {
+    /** The current failure diagnostic for each test, keyed by fully qualified test name. */
+    private readonly _failures = new Map<string, [vscode.Uri, vscode.Diagnostic]>();
+
+    constructor(private readonly _diagnostics: vscode.DiagnosticCollection) {}
+
+    public update(results: TestResult[]) {
+        for (const result of results) {
+            this._failures.delete(result.fullyQualifiedName);
+            if (result.outcome !== 'failed') {
+                continue;
+            }
+
+            const locations = getStackTraceLocations(result);
+            if (locations.length === 0) {
+                continue;
+            }
+
+            const diagnostic = new vscode.Diagnostic(
+                locations[0].range,
+                `${result.fullyQualifiedName}: ${result.errorMessage ?? vscode.l10n.t('Test failed')}`,
+                vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = '.NET Test';
+            diagnostic.relatedInformation = locations
+                .slice(1)
+                .map(
+                    (location) => new vscode.DiagnosticRelatedInformation(location, vscode.l10n.t('Called from here'))
+                );
+            this._failures.set(result.fullyQualifiedName, [locations[0].uri, diagnostic]);
+        }
+
+        const diagnosticsByUri = new Map<string, [vscode.Uri, vscode.Diagnostic[]]>();
+        for (const [uri, diagnostic] of this._failures.values()) {
+            const entry = diagnosticsByUri.get(uri.toString());
+            if (entry) {
+                entry[1].push(diagnostic);
+            } else {
+                diagnosticsByUri.set(uri.toString(), [uri, [diagnostic]]);
+            }
+        }
+
+        this._diagnostics.clear();
+        this._diagnostics.set([...diagnosticsByUri.values()]);
+    }
+
+    public dispose() {
+        this._diagnostics.dispose();
+    }
+}
+
+/**
+ * Returns the source locations in a failed test's stack trace (innermost first), skipping frames without source information
+ * or whose source is not available on this machine.
+ */
+export function getStackTraceLocations(result: TestResult): vscode.Location[] {
+    if (!result.stackTrace) {
+        return [];
+    }
+
+    return parseStackTrace(result.stackTrace)
+        .filter((frame) => frame.filePath !== undefined && frame.line !== undefined && fs.existsSync(frame.filePath))
+        .map(
+            (frame) =>
+                new vscode.Location(
+                    vscode.Uri.file(frame.filePath!),
+                    new vscode.Range(frame.line! - 1, 0, frame.line! - 1, Number.MAX_SAFE_INTEGER)
+                )
+        );
+}
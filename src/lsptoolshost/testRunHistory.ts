@@ -0,0 +1,58 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+import { RunTestsParams, TestOutcome, TestResult } from './roslynProtocol';
+
+const LastTestRunStateKey = 'dotnet.test.lastRun';
+
+export interface TestRunRecord {
+    /** The requests that made up the run, in the order they were sent. */
+    requests: RunTestsParams[];
+
+    /** The outcome of each test in the run, keyed by fully qualified test name. */
+    outcomes: { [fullyQualifiedName: string]: TestOutcome };
+}
+
+/**
+ * Remembers the scope and outcomes of the last test run in workspace state, so that it can be re-run (or just its
+ * failures) after a window reload.
+ */
+export class TestRunHistory {
+    constructor(private readonly _workspaceState: vscode.Memento) {}
+
+    public get lastRun(): TestRunRecord | undefined {
+        return this._workspaceState.get<TestRunRecord>(LastTestRunStateKey);
+    }
+
+    /**
+     * The fully qualified names of the tests that failed in the last run, in the order they were reported.
+     */
+    public get failedTests(): string[] {
+        const outcomes = this.lastRun?.outcomes ?? {};
+        return Object.keys(outcomes).filter((name) => outcomes[name] === 'failed');
+    }
+
+    public async record(requests: RunTestsParams[], results: TestResult[]): Promise<void> {
+        const outcomes: { [fullyQualifiedName: string]: TestOutcome } = {};
+        for (const result of results) {
+            // A parameterized test fails if any of its cases failed.
+            if (outcomes[result.fullyQualifiedName] !== 'failed') {
+                outcomes[result.fullyQualifiedName] = result.outcome;
+            }
+        }
+
+        const record: TestRunRecord = {
+            // The run settings are resolved again for each run, so don't persist them.
+            requests: requests.map(({ textDocument, range, attachDebugger }) => ({
+                textDocument,
+                range,
+                attachDebugger,
+            })),
+            outcomes,
+        };
+        await this._workspaceState.update(LastTestRunStateKey, record);
+    }
+}
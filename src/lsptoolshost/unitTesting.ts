@@ -3,16 +3,28 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
-import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import * as languageClient from 'vscode-languageclient/node';
 import { RoslynLanguageServer } from './roslynLanguageServer';
-import { RunTestsParams, RunTestsPartialResult, RunTestsRequest, TestProgress } from './roslynProtocol';
-import { commonOptions } from '../shared/options';
+import { RunTestsParams, RunTestsPartialResult, RunTestsRequest, TestProgress, TestResult } from './roslynProtocol';
 import { UriConverter } from './uriConverter';
-import { showErrorMessage } from '../shared/observers/utils/showMessage';
 import { getCSharpDevKit } from '../utils/getCSharpDevKit';
+import { parseTestResultOutput } from './testOutputParser';
+import { TestResultDiagnostics } from './testResultDiagnostics';
+import { OperationQueue } from './operationQueue';
+import { findContainingProjectFile } from '../shared/utils/projectFiles';
+import { TestRunHistory } from './testRunHistory';
+import { showInformationMessage } from '../shared/observers/utils/showMessage';
+import { RunSettingsService } from './runSettings';
+import { CoverageReport, mergeCoverage } from './coberturaParser';
+import {
+    CoverageRun,
+    formatCoverageSummary,
+    prepareCoverageRun,
+    readCoverageResults,
+    TestCoverageDecorations,
+} from './testCoverage';
 
 export function registerUnitTestingCommands(context: vscode.ExtensionContext, languageServer: RoslynLanguageServer) {
     if (getCSharpDevKit()) {
@@ -20,10 +32,17 @@ export function registerUnitTestingCommands(context: vscode.ExtensionContext, la
         return;
     }
     const dotnetTestChannel = vscode.window.createOutputChannel(vscode.l10n.t('.NET Test Log'));
+    _testResultDiagnostics = new TestResultDiagnostics(vscode.languages.createDiagnosticCollection('dotnet-test'));
+    context.subscriptions.push(_testResultDiagnostics);
+    _testRunHistory = new TestRunHistory(context.workspaceState);
+    _runSettings = new RunSettingsService(context.workspaceState);
+    context.subscriptions.push(_runSettings);
+    _coverageDecorations = new TestCoverageDecorations();
+    context.subscriptions.push(_coverageDecorations);
     context.subscriptions.push(
         vscode.commands.registerCommand(
             'dotnet.test.run',
-            async (request): Promise<TestProgress | undefined> => runTests(request, languageServer, dotnetTestChannel)
+            async (request): Promise<TestProgress | undefined> => runTests([request], languageServer, dotnetTestChannel)
         )
     );
     context.subscriptions.push(
@@ -41,12 +60,50 @@ export function registerUnitTestingCommands(context: vscode.ExtensionContext, la
             async (): Promise<TestProgress | undefined> => runTestsInContext(true, languageServer, dotnetTestChannel)
         )
     );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'dotnet.test.runTestsInContextWithCoverage',
+            async (): Promise<TestProgress | undefined> =>
+                runTestsInContext(false, languageServer, dotnetTestChannel, /*collectCoverage*/ true)
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.test.clearCoverage', () => _coverageDecorations?.clear())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'dotnet.test.rerunLastRun',
+            async (): Promise<TestProgress | undefined> => rerunLastRun(languageServer, dotnetTestChannel)
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'dotnet.test.rerunFailedTests',
+            async (): Promise<TestProgress | undefined> => rerunFailedTests(false, languageServer, dotnetTestChannel)
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'dotnet.test.debugLastFailedTest',
+            async (): Promise<TestProgress | undefined> => rerunFailedTests(true, languageServer, dotnetTestChannel)
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.test.selectRunSettings', async () => _runSettings?.selectRunSettings())
+    );
 }
 
 async function runTestsInContext(
     debug: boolean,
     languageServer: RoslynLanguageServer,
-    dotnetTestChannel: vscode.OutputChannel
+    dotnetTestChannel: vscode.OutputChannel,
+    collectCoverage = false
 ): Promise<TestProgress | undefined> {
     const activeEditor = vscode.window.activeTextEditor;
     if (!activeEditor) {
@@ -60,119 +117,306 @@ async function runTestsInContext(
         UriConverter.serialize(activeEditor.document.uri)
     );
     const request: RunTestsParams = { textDocument: textDocument, range: contextRange, attachDebugger: debug };
-    return runTests(request, languageServer, dotnetTestChannel);
+    return runTests([request], languageServer, dotnetTestChannel, collectCoverage);
 }
 
-let _testRunInProgress = false;
+async function rerunLastRun(
+    languageServer: RoslynLanguageServer,
+    dotnetTestChannel: vscode.OutputChannel
+): Promise<TestProgress | undefined> {
+    const lastRun = _testRunHistory?.lastRun;
+    if (lastRun === undefined || lastRun.requests.length === 0) {
+        showInformationMessage(vscode, vscode.l10n.t('There is no previous test run to rerun.'));
+        return;
+    }
 
-async function runTests(
-    request: RunTestsParams,
+    return runTests(lastRun.requests, languageServer, dotnetTestChannel);
+}
+
+/**
+ * Reruns the tests that failed in the last run, or debugs the last of them if {@link debug} is set.
+ */
+async function rerunFailedTests(
+    debug: boolean,
     languageServer: RoslynLanguageServer,
     dotnetTestChannel: vscode.OutputChannel
 ): Promise<TestProgress | undefined> {
-    if (_testRunInProgress) {
-        showErrorMessage(vscode, vscode.l10n.t('Test run already in progress'));
+    let failedTests = _testRunHistory?.failedTests ?? [];
+    if (failedTests.length === 0) {
+        showInformationMessage(vscode, vscode.l10n.t('No tests failed in the last test run.'));
         return;
     }
 
-    request.runSettingsPath = getRunSettings(request.textDocument.uri, dotnetTestChannel);
+    if (debug) {
+        failedTests = failedTests.slice(-1);
+    }
 
-    _testRunInProgress = true;
+    const requests: RunTestsParams[] = [];
+    for (const failedTest of failedTests) {
+        const location = await findTestMethod(failedTest);
+        if (location === undefined) {
+            dotnetTestChannel.appendLine(vscode.l10n.t('Unable to find test {0} in the workspace.', failedTest));
+            continue;
+        }
 
+        // Parameterized tests report a result per case; they are all run again via the method.
+        if (
+            !requests.some(
+                (r) => r.textDocument.uri === location.textDocument.uri && isSameRange(r.range, location.range)
+            )
+        ) {
+            requests.push({ ...location, attachDebugger: debug });
+        }
+    }
+
+    if (requests.length === 0) {
+        dotnetTestChannel.show(true);
+        return;
+    }
+
+    return runTests(requests, languageServer, dotnetTestChannel);
+}
+
+/**
+ * Finds the location of a test method from its fully qualified name (for example Namespace.Outer+Inner.Method(x: 1)).
+ */
+async function findTestMethod(
+    fullyQualifiedName: string
+): Promise<{ textDocument: languageClient.TextDocumentIdentifier; range: languageClient.Range } | undefined> {
+    const qualifiedMethodName = fullyQualifiedName.replace(/\(.*$/, '').replace(/\+/g, '.');
+    const separatorIndex = qualifiedMethodName.lastIndexOf('.');
+    const typeName = qualifiedMethodName.substring(0, separatorIndex);
+    const methodName = qualifiedMethodName.substring(separatorIndex + 1);
+
+    const symbols =
+        (await vscode.commands.executeCommand<vscode.SymbolInformation[] | undefined>(
+            'vscode.executeWorkspaceSymbolProvider',
+            methodName
+        )) ?? [];
+
+    // Depending on the server, the container name may or may not include the namespace.
+    const symbol = symbols.find(
+        (s) =>
+            s.kind === vscode.SymbolKind.Method &&
+            s.name.replace(/[(<].*$/, '').trim() === methodName &&
+            (typeName === s.containerName || typeName.endsWith(`.${s.containerName}`))
+    );
+    if (symbol === undefined) {
+        return undefined;
+    }
+
+    const range = symbol.location.range;
+    return {
+        textDocument: languageClient.TextDocumentIdentifier.create(UriConverter.serialize(symbol.location.uri)),
+        range: {
+            start: { line: range.start.line, character: range.start.character },
+            end: { line: range.end.line, character: range.end.character },
+        },
+    };
+}
+
+function isSameRange(a: languageClient.Range, b: languageClient.Range): boolean {
+    return (
+        a.start.line === b.start.line &&
+        a.start.character === b.start.character &&
+        a.end.line === b.end.line &&
+        a.end.character === b.end.character
+    );
+}
+
+/** Test runs in the same project are queued behind each other, while runs in different projects execute concurrently. */
+const _testRunQueue = new OperationQueue();
+let _testResultDiagnostics: TestResultDiagnostics | undefined;
+let _testRunHistory: TestRunHistory | undefined;
+let _runSettings: RunSettingsService | undefined;
+let _coverageDecorations: TestCoverageDecorations | undefined;
+
+/**
+ * Runs each of the requests in turn, recording them together as the last test run.
+ */
+async function runTests(
+    requests: RunTestsParams[],
+    languageServer: RoslynLanguageServer,
+    dotnetTestChannel: vscode.OutputChannel,
+    collectCoverage = false
+): Promise<TestProgress | undefined> {
     dotnetTestChannel.show(true);
+    const projectFiles = [...new Set(requests.map((r) => getProjectFile(r)))];
+    const projectFile = projectFiles.length === 1 ? projectFiles[0] : undefined;
+    const results: TestResult[] = [];
+    const coverageReports: CoverageReport[] = [];
     let lastProgress: TestProgress | undefined = undefined;
-    await vscode.window
-        .withProgress(
-            {
-                location: vscode.ProgressLocation.Notification,
-                title: 'Dotnet Test',
-                cancellable: true,
-            },
-            async (progress, token) => {
-                let totalReportedComplete = 0;
-                const writeOutput = (output: RunTestsPartialResult) => {
-                    if (output.message) {
-                        dotnetTestChannel.appendLine(output.message);
-                    }
-
-                    if (output.progress) {
-                        const totalTests = output.progress.totalTests;
-                        const completed =
-                            output.progress.testsPassed + output.progress.testsFailed + output.progress.testsSkipped;
-
-                        // VSCode requires us to report the additional amount completed (in x out of 100) from this report compared to what we've previously reported.
-                        const reportIncrement = ((completed - totalReportedComplete) / totalTests) * 100;
-                        progress.report({ message: output.stage, increment: reportIncrement });
-                        totalReportedComplete = completed;
-                        lastProgress = output.progress;
-                    } else {
-                        progress.report({ message: output.stage });
-                    }
-                };
-
-                progress.report({ message: 'Saving files...' });
-                // Ensure all files are saved before we run tests so they accurately reflect what the user has requested to run.
-                await vscode.workspace.saveAll(/*includeUntitled*/ false);
+    await vscode.window.withProgress(
+        {
+            location: vscode.ProgressLocation.Notification,
+            title: projectFile ? vscode.l10n.t('Dotnet Test: {0}', path.basename(projectFile)) : 'Dotnet Test',
+            cancellable: true,
+        },
+        async (progress, token) => {
+            let totalReportedComplete = 0;
+            const writeOutput = (output: RunTestsPartialResult) => {
+                if (output.message) {
+                    dotnetTestChannel.appendLine(output.message);
+                }
+
+                if (output.progress) {
+                    const totalTests = output.progress.totalTests;
+                    const completed =
+                        output.progress.testsPassed + output.progress.testsFailed + output.progress.testsSkipped;
 
+                    // VSCode requires us to report the additional amount completed (in x out of 100) from this report compared to what we've previously reported.
+                    const reportIncrement = ((completed - totalReportedComplete) / totalTests) * 100;
+                    progress.report({ message: output.stage, increment: reportIncrement });
+                    totalReportedComplete = completed;
+                    lastProgress = output.progress;
+                } else {
+                    progress.report({ message: output.stage });
+                }
+            };
+
+            for (const request of requests) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+
+                totalReportedComplete = 0;
                 progress.report({ message: 'Requesting server...' });
-                const responsePromise = languageServer.sendRequestWithProgress(
-                    RunTestsRequest.type,
+                const requestResults = await sendRunTestsRequest(
                     request,
-                    async (p) => {
-                        writeOutput(p);
-                    },
-                    token
-                );
-
-                await responsePromise.then(
-                    (result) => {
-                        result.forEach((r) => {
-                            writeOutput(r);
-                        });
-                        return;
-                    },
-                    (err) => {
-                        dotnetTestChannel.appendLine(err);
-                        return;
-                    }
+                    languageServer,
+                    writeOutput,
+                    (message) => dotnetTestChannel.appendLine(message),
+                    token,
+                    collectCoverage ? (report) => coverageReports.push(report) : undefined
                 );
+                results.push(...requestResults);
             }
-        )
-        .then(
-            () => {
-                _testRunInProgress = false;
-            },
-            () => {
-                _testRunInProgress = false;
-            }
-        );
+        }
+    );
 
+    if (coverageReports.length > 0) {
+        const coverage = mergeCoverage(coverageReports);
+        _coverageDecorations?.show(coverage);
+        const summary = formatCoverageSummary(coverage);
+        summary.forEach((line) => dotnetTestChannel.appendLine(line));
+        showInformationMessage(vscode, summary[0]);
+    }
+
+    await recordTestRun(requests, results);
     return lastProgress;
 }
 
-function getRunSettings(documentUri: string, dotnetTestChannel: vscode.OutputChannel): string | undefined {
-    const runSettingsPathOption = commonOptions.runSettingsPath;
-    if (runSettingsPathOption.length === 0) {
-        return undefined;
+/**
+ * Sends a {@link RunTestsRequest} to the server, reporting each partial (and final) result to {@link onOutput}.
+ * Errors from the server are reported to {@link onError} rather than thrown.
+ *
+ * Returns the individual test results from the run.  If the server did not report structured results, they are parsed
+ * from the output messages instead.  Runs for the same project wait for any earlier run of that project to complete;
+ * runs for other projects proceed concurrently.  Cancelling {@link token} only affects this run.
+ *
+ * If {@link onCoverage} is provided, code coverage is collected during the run and reported to it.
+ */
+export async function sendRunTestsRequest(
+    request: RunTestsParams,
+    languageServer: RoslynLanguageServer,
+    onOutput: (output: RunTestsPartialResult) => void,
+    onError: (message: string) => void,
+    token: vscode.CancellationToken,
+    onCoverage?: (coverage: CoverageReport) => void
+): Promise<TestResult[]> {
+    // Requests outside of a known project may touch any project, so they are exclusive.
+    const projectFile = getProjectFile(request);
+    const keys = projectFile ? [projectFile] : undefined;
+    if (_testRunQueue.isBusy(keys)) {
+        onOutput({ stage: vscode.l10n.t('Waiting for other test runs in this project to complete...'), message: '' });
     }
 
-    let absolutePath = runSettingsPathOption;
-    if (!path.isAbsolute(runSettingsPathOption)) {
-        // Path is relative to the workspace. Create absolute path.
-        const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.parse(documentUri));
-        if (workspaceFolder === undefined) {
-            dotnetTestChannel.appendLine(
-                `Warning: Unable to find workspace folder for ${documentUri}, cannot resolve run settings path ${runSettingsPathOption}.`
+    return _testRunQueue.enqueue(keys, async () => {
+        if (token.isCancellationRequested) {
+            return [];
+        }
+
+        return executeRunTestsRequest(request, languageServer, onOutput, onError, token, onCoverage);
+    });
+}
+
+async function executeRunTestsRequest(
+    request: RunTestsParams,
+    languageServer: RoslynLanguageServer,
+    onOutput: (output: RunTestsPartialResult) => void,
+    onError: (message: string) => void,
+    token: vscode.CancellationToken,
+    onCoverage: ((coverage: CoverageReport) => void) | undefined
+): Promise<TestResult[]> {
+    const results: TestResult[] = [];
+    let output = '';
+    let coverageRun: CoverageRun | undefined = undefined;
+    const handleOutput = (partialResult: RunTestsPartialResult) => {
+        if (partialResult.results) {
+            results.push(...partialResult.results);
+        }
+        if (partialResult.message) {
+            output += partialResult.message + '\n';
+        }
+        onOutput(partialResult);
+    };
+
+    try {
+        request.runSettingsPath = _runSettings?.resolve(
+            UriConverter.deserialize(request.textDocument.uri),
+            onError
+        )?.path;
+
+        if (onCoverage) {
+            coverageRun = await prepareCoverageRun(request.runSettingsPath);
+            request.runSettingsPath = coverageRun.runSettingsPath;
+        }
+
+        // Ensure all files are saved before we run tests so they accurately reflect what the user has requested to run.
+        await vscode.workspace.saveAll(/*includeUntitled*/ false);
+
+        const result = await languageServer.sendRequestWithProgress(
+            RunTestsRequest.type,
+            request,
+            async (p) => handleOutput(p),
+            token
+        );
+        result.forEach((r) => handleOutput(r));
+    } catch (err) {
+        if (!(err instanceof vscode.CancellationError)) {
+            onError(err instanceof Error ? err.message : `${err}`);
+        }
+    }
+
+    if (coverageRun && onCoverage) {
+        const coverage = await readCoverageResults(coverageRun);
+        if (coverage) {
+            onCoverage(coverage);
+        } else if (!token.isCancellationRequested) {
+            onError(
+                vscode.l10n.t(
+                    'No code coverage was collected. Make sure the test project references the coverlet.collector package.'
+                )
             );
-            return undefined;
         }
-        absolutePath = path.join(workspaceFolder.uri.fsPath, runSettingsPathOption);
     }
 
-    if (!fs.existsSync(absolutePath)) {
-        dotnetTestChannel.appendLine(`Warning: Unable to find run settings file at ${absolutePath}.`);
-        return undefined;
+    if (results.length === 0) {
+        results.push(...parseTestResultOutput(output));
     }
 
-    return absolutePath;
+    _testResultDiagnostics?.update(results);
+    return results;
+}
+
+/**
+ * Records the requests and results of a test run so that it can be rerun later.
+ */
+export async function recordTestRun(requests: RunTestsParams[], results: TestResult[]): Promise<void> {
+    await _testRunHistory?.record(requests, results);
+}
+
+function getProjectFile(request: RunTestsParams): string | undefined {
+    const uri = UriConverter.deserialize(request.textDocument.uri);
+    return uri.scheme === 'file' ? findContainingProjectFile(uri.fsPath) : undefined;
 }
@@ -425,7 +425,7 @@ export class StdioEngine implements IEngine {
     }
 
     private _handleResponsePacket(packet: protocol.WireProtocol.ResponsePacket) {
-        const request = this._requestQueue.dequeue(packet.Command, packet.Request_seq);
+        const request = this._requestQueue.dequeue(packet.Command, packet.Request_seq, packet.Success);
 
         if (!request) {
             this.eventStream.post(
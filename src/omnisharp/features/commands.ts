@@ -12,18 +12,23 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as protocol from '../protocol';
 import * as vscode from 'vscode';
-import { generateAssets } from '../../shared/assets';
+import { generateAssets, generateCompoundAssets } from '../../shared/assets';
 import {
     ShowOmniSharpChannel,
     CommandDotNetRestoreStart,
     CommandDotNetRestoreProgress,
     CommandDotNetRestoreSucceeded,
     CommandDotNetRestoreFailed,
+    ProjectConfiguration,
 } from '../omnisharpLoggingEvents';
 import { EventStream } from '../../eventStream';
 import { PlatformInformation } from '../../shared/platform';
 import CompositeDisposable from '../../compositeDisposable';
 import reportIssue from '../../shared/reportIssue';
+import { exportDiagnosticBundle } from '../../shared/diagnosticBundle';
+import { BufferedOutputChannel } from '../../shared/bufferedOutputChannel';
+import { ProjectConfigurationMessage } from '../../shared/projectConfiguration';
+import { EventType } from '../../shared/eventType';
 import { IHostExecutableResolver } from '../../shared/constants/IHostExecutableResolver';
 import { getDotnetInfo } from '../../shared/utils/getDotnetInfo';
 import { IWorkspaceDebugInformationProvider } from '../../shared/IWorkspaceDebugInformationProvider';
@@ -35,7 +40,8 @@ export default function registerCommands(
     eventStream: EventStream,
     monoResolver: IHostExecutableResolver,
     dotnetResolver: IHostExecutableResolver,
-    workspaceInformationProvider: IWorkspaceDebugInformationProvider
+    workspaceInformationProvider: IWorkspaceDebugInformationProvider,
+    omnisharpChannel: BufferedOutputChannel
 ): CompositeDisposable {
     const disposable = new CompositeDisposable();
     disposable.add(vscode.commands.registerCommand('o.restart', async () => restartOmniSharp(context, server)));
@@ -64,6 +70,11 @@ export default function registerCommands(
             generateAssets(workspaceInformationProvider, selectedIndex)
         )
     );
+    disposable.add(
+        vscode.commands.registerCommand('dotnet.generateAssets.compound', async (selectedIndices) =>
+            generateCompoundAssets(workspaceInformationProvider, selectedIndices)
+        )
+    );
 
     disposable.add(
         vscode.commands.registerCommand('csharp.reportIssue', async () =>
@@ -77,6 +88,28 @@ export default function registerCommands(
         )
     );
 
+    // Keep the latest configuration of each project for diagnostic bundles.
+    const projectConfigurations = new Map<string, ProjectConfigurationMessage>();
+    const subscription = eventStream.subscribe((event) => {
+        if (event.type === EventType.ProjectConfigurationReceived) {
+            const projectConfiguration = (<ProjectConfiguration>event).projectConfiguration;
+            projectConfigurations.set(projectConfiguration.ProjectId, projectConfiguration);
+        }
+    });
+    disposable.add({ dispose: () => subscription.unsubscribe() });
+
+    disposable.add(
+        vscode.commands.registerCommand('csharp.exportDiagnosticBundle', async () =>
+            exportDiagnosticBundle(
+                context,
+                dotnetResolver,
+                { name: 'OmniSharp', version: context.extension.packageJSON.defaults.omniSharp },
+                [omnisharpChannel],
+                [...projectConfigurations.values()]
+            )
+        )
+    );
+
     return new CompositeDisposable(disposable);
 }
 
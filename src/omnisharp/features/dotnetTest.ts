@@ -35,8 +35,18 @@ import Disposable from '../../disposable';
 import CompositeDisposable from '../../compositeDisposable';
 import { LanguageMiddlewareFeature } from '../languageMiddlewareFeature';
 import { commonOptions } from '../../shared/options';
+import { showInformationMessage } from '../../shared/observers/utils/showMessage';
 
 const TelemetryReportingDelay = 2 * 60 * 1000; // two minutes
+const LastTestRunStateKey = 'dotnet.test.omnisharpLastRun';
+
+/** The tests of the last test method or class run, which can be rerun (or just their failures). */
+interface TestRunRecord {
+    fileName: string;
+    testFrameworkName: string;
+    methodNames: string[];
+    failedMethodNames: string[];
+}
 
 export default class TestManager extends AbstractProvider {
     private _runCounts?: { [testFrameworkName: string]: number };
@@ -47,7 +57,8 @@ export default class TestManager extends AbstractProvider {
     constructor(
         server: OmniSharpServer,
         eventStream: EventStream,
-        languageMiddlewareFeature: LanguageMiddlewareFeature
+        languageMiddlewareFeature: LanguageMiddlewareFeature,
+        private readonly _workspaceState: vscode.Memento
     ) {
         super(server, languageMiddlewareFeature);
         this._eventStream = eventStream;
@@ -96,6 +107,16 @@ export default class TestManager extends AbstractProvider {
                 )
         );
 
+        const d8 = vscode.commands.registerCommand('dotnet.test.rerunLastRun', async () => this._rerunLastRun());
+
+        const d9 = vscode.commands.registerCommand('dotnet.test.rerunFailedTests', async () =>
+            this._rerunFailedTests(false)
+        );
+
+        const d10 = vscode.commands.registerCommand('dotnet.test.debugLastFailedTest', async () =>
+            this._rerunFailedTests(true)
+        );
+
         this._telemetryIntervalId = setInterval(() => this._reportTelemetry(), TelemetryReportingDelay);
 
         const d3 = new Disposable(() => {
@@ -107,7 +128,7 @@ export default class TestManager extends AbstractProvider {
             }
         });
 
-        this.addDisposables(new CompositeDisposable(d1, d2, d3, d4, d5, d6, d7));
+        this.addDisposables(new CompositeDisposable(d1, d2, d3, d4, d5, d6, d7, d8, d9, d10));
     }
 
     private _recordRunRequest(testFrameworkName?: string): void {
@@ -156,6 +177,75 @@ export default class TestManager extends AbstractProvider {
         this._debugCounts = undefined;
     }
 
+    /** The last run, kept in workspace state so that it can be rerun after a window reload. */
+    private get _lastRun(): TestRunRecord | undefined {
+        return this._workspaceState.get<TestRunRecord>(LastTestRunStateKey);
+    }
+
+    private async _rerunLastRun() {
+        const lastRun = this._lastRun;
+        if (lastRun === undefined) {
+            showInformationMessage(vscode, vscode.l10n.t('There is no previous test run to rerun.'));
+            return;
+        }
+
+        return this._runDotnetTests(lastRun.methodNames, lastRun.fileName, lastRun.testFrameworkName);
+    }
+
+    /**
+     * Reruns the tests that failed in the last run, or debugs the last of them if {@link debug} is set.
+     */
+    private async _rerunFailedTests(debug: boolean) {
+        const lastRun = this._lastRun;
+        if (lastRun === undefined || lastRun.failedMethodNames.length === 0) {
+            showInformationMessage(vscode, vscode.l10n.t('No tests failed in the last test run.'));
+            return;
+        }
+
+        if (debug) {
+            const lastFailedTest = lastRun.failedMethodNames[lastRun.failedMethodNames.length - 1];
+            return this.debugDotnetTest(lastFailedTest, lastRun.fileName, lastRun.testFrameworkName);
+        }
+
+        return this._runDotnetTests(lastRun.failedMethodNames, lastRun.fileName, lastRun.testFrameworkName);
+    }
+
+    private async _runDotnetTests(methodNames: string[], fileName: string, testFrameworkName: string) {
+        if (methodNames.length === 1) {
+            return this.runDotnetTest(methodNames[0], fileName, testFrameworkName);
+        }
+
+        // The tests of a run are all in the class that was run.
+        const className = methodNames[0].substring(0, methodNames[0].lastIndexOf('.'));
+        return this.runDotnetTestsInClass(className, methodNames, fileName, testFrameworkName);
+    }
+
+    /**
+     * Remembers the tests of a run to rerun them later.  Runs in context aren't remembered, as the test framework to
+     * run them again with isn't known.
+     */
+    private async _recordTestRun(
+        methodNames: string[],
+        fileName: string,
+        testFrameworkName: string,
+        results: protocol.V2.DotNetTestResult[]
+    ) {
+        const record: TestRunRecord = {
+            fileName,
+            testFrameworkName,
+            methodNames,
+            // Parameterized tests report a result per case, named after the method and the arguments of the case.
+            failedMethodNames: methodNames.filter((methodName) =>
+                results.some(
+                    (r) =>
+                        r.Outcome === protocol.V2.TestOutcomes.Failed &&
+                        (r.MethodName === methodName || r.MethodName.startsWith(`${methodName}(`))
+                )
+            ),
+        };
+        await this._workspaceState.update(LastTestRunStateKey, record);
+    }
+
     private async _saveDirtyFiles(): Promise<boolean> {
         return Promise.resolve(vscode.workspace.saveAll(/*includeUntitled*/ false));
     }
@@ -270,6 +360,7 @@ export default class TestManager extends AbstractProvider {
                 targetFrameworkVersion,
                 noBuild
             );
+            await this._recordTestRun([testMethod], fileName, testFrameworkName, results);
             this._eventStream.post(new ReportDotNetTestResults(results));
         } catch (error) {
             const message = (error as Error).message;
@@ -305,6 +396,7 @@ export default class TestManager extends AbstractProvider {
                 methodsInClass,
                 noBuild
             );
+            await this._recordTestRun(methodsInClass, fileName, testFrameworkName, results);
             this._eventStream.post(new ReportDotNetTestResults(results));
         } catch (error) {
             const message = (error as Error).message;
@@ -0,0 +1,65 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { BaseEvent } from '../../shared/loggingEvents';
+import {
+    OmnisharpLaunch,
+    OmnisharpRequestMessage,
+    OmnisharpServerDequeueRequest,
+    OmnisharpServerEnqueueRequest,
+    OmnisharpServerRequestCancelled,
+} from '../omnisharpLoggingEvents';
+import { EventType } from '../../shared/eventType';
+import { ServerHealthMonitor } from '../../shared/serverHealthMonitor';
+import { getRequestQueueName } from '../requestQueue';
+
+/**
+ * Feeds the requests going through the OmniSharp request queues to the health monitor.
+ */
+export class ServerHealthObserver {
+    constructor(private readonly _monitor: ServerHealthMonitor) {}
+
+    public post = (event: BaseEvent) => {
+        switch (event.type) {
+            case EventType.OmnisharpLaunch:
+                this._monitor.setProcess((<OmnisharpLaunch>event).pid);
+                break;
+            case EventType.OmnisharpServerOnStop:
+                this._monitor.setProcess(undefined);
+                break;
+            case EventType.OmnisharpServerEnqueueRequest:
+                this._monitor.changeQueueDepth((<OmnisharpServerEnqueueRequest>event).queueName, 1);
+                break;
+            case EventType.OmnisharpRequestMessage:
+                this.handleOmnisharpRequestMessage(<OmnisharpRequestMessage>event);
+                break;
+            case EventType.OmnisharpServerDequeueRequest:
+                this.handleOmnisharpServerDequeueRequest(<OmnisharpServerDequeueRequest>event);
+                break;
+            case EventType.OmnisharpServerRequestCancelled: {
+                const cancelled = <OmnisharpServerRequestCancelled>event;
+                if (cancelled.id !== undefined) {
+                    this._monitor.requestCompleted(cancelled.id, 'cancelled');
+                }
+                break;
+            }
+        }
+    };
+
+    private handleOmnisharpRequestMessage(event: OmnisharpRequestMessage) {
+        // The request left its queue to be sent to the server.
+        this._monitor.changeQueueDepth(getRequestQueueName(event.request.command), -1);
+        this._monitor.requestStarted(event.id, event.request.command);
+    }
+
+    private handleOmnisharpServerDequeueRequest(event: OmnisharpServerDequeueRequest) {
+        if (event.queueStatus === 'pending') {
+            // The request was cancelled before it was sent.
+            this._monitor.changeQueueDepth(event.queueName, -1);
+        } else if (event.id !== undefined) {
+            this._monitor.requestCompleted(event.id, event.success === false ? 'failed' : 'succeeded');
+        }
+    }
+}
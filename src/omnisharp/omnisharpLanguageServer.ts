@@ -22,6 +22,10 @@ import { PlatformInformation } from '../shared/platform';
 import { ProjectStatusBarObserver } from './observers/projectStatusBarObserver';
 import { BackgroundWorkStatusBarObserver } from './observers/backgroundWorkStatusBarObserver';
 import { OmnisharpDebugModeLoggerObserver } from './observers/omnisharpDebugModeLoggerObserver';
+import { ServerHealthObserver } from './observers/serverHealthObserver';
+import { ServerHealthMonitor } from '../shared/serverHealthMonitor';
+import { BufferedOutputChannel } from '../shared/bufferedOutputChannel';
+import { registerServerHealthDashboard } from '../shared/serverHealthDashboard';
 import { RazorLoggerObserver } from './observers/razorLoggerObserver';
 import { RazorOmnisharpDownloader } from '../razor/razorOmnisharpDownloader';
 import { omnisharpOptions, razorOptions } from '../shared/options';
@@ -36,6 +40,8 @@ import { OmnisharpWorkspaceDebugInformationProvider } from './omnisharpWorkspace
 import Disposable from '../disposable';
 import registerCommands from './features/commands';
 import { addAssetsIfNecessary } from '../shared/assets';
+import { LaunchJsonDriftService } from '../shared/launchJsonDrift';
+import { DotnetTaskProvider } from '../shared/dotnetTaskProvider';
 import {
     ActiveTextEditorChanged,
     OmnisharpStart,
@@ -89,7 +95,9 @@ export async function activateOmniSharpLanguageServer(
     eventStream.subscribe(dotnetTestChannelObserver.post);
     eventStream.subscribe(dotnetTestLoggerObserver.post);
 
-    const omnisharpChannel = vscode.window.createOutputChannel(vscode.l10n.t('OmniSharp Log'));
+    const omnisharpChannel = new BufferedOutputChannel(
+        vscode.window.createOutputChannel(vscode.l10n.t('OmniSharp Log'))
+    );
     const omnisharpLogObserver = new OmnisharpLoggerObserver(omnisharpChannel, platformInfo);
     const omnisharpChannelObserver = new OmnisharpChannelObserver(omnisharpChannel);
     eventStream.subscribe(omnisharpLogObserver.post);
@@ -138,6 +146,10 @@ export async function activateOmniSharpLanguageServer(
         eventStream.subscribe(omnisharpDebugModeLoggerObserver.post);
     }
 
+    const serverHealthMonitor = new ServerHealthMonitor(vscode.l10n.t('OmniSharp Server'));
+    eventStream.subscribe(new ServerHealthObserver(serverHealthMonitor).post);
+    registerServerHealthDashboard(context, serverHealthMonitor);
+
     const razorObserver = new RazorLoggerObserver(csharpChannel);
     eventStream.subscribe(razorObserver.post);
 
@@ -183,7 +195,7 @@ async function activate(
     provider: NetworkSettingsProvider,
     eventStream: EventStream,
     extensionPath: string,
-    outputChannel: vscode.OutputChannel
+    outputChannel: BufferedOutputChannel
 ) {
     const disposables = new CompositeDisposable();
 
@@ -208,7 +220,7 @@ async function activate(
         languageMiddlewareFeature
     );
     const advisor = new Advisor(server); // create before server is started
-    const testManager = new TestManager(server, eventStream, languageMiddlewareFeature);
+    const testManager = new TestManager(server, eventStream, languageMiddlewareFeature, context.workspaceState);
     const workspaceInformationProvider = new OmnisharpWorkspaceDebugInformationProvider(server);
 
     let registrations: Disposable | undefined;
@@ -234,12 +246,21 @@ async function activate(
             eventStream,
             omnisharpMonoResolver,
             omnisharpDotnetResolver,
-            workspaceInformationProvider
+            workspaceInformationProvider,
+            outputChannel
         )
     );
 
+    const launchJsonDriftService = new LaunchJsonDriftService(workspaceInformationProvider);
+    disposables.add(launchJsonDriftService);
+    disposables.add(
+        vscode.tasks.registerTaskProvider(DotnetTaskProvider.type, new DotnetTaskProvider(workspaceInformationProvider))
+    );
     disposables.add(
         server.onServerStart(async () => {
+            // Projects may have been renamed or retargeted since launch.json was generated.
+            await launchJsonDriftService.refresh();
+
             // Update or add tasks.json and launch.json
             await addAssetsIfNecessary(context, workspaceInformationProvider);
         })
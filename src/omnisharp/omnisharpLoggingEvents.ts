@@ -103,7 +103,14 @@ export class OmnisharpServerEnqueueRequest implements BaseEvent {
 
 export class OmnisharpServerDequeueRequest implements BaseEvent {
     type = EventType.OmnisharpServerDequeueRequest;
-    constructor(public queueName: string, public queueStatus: string, public command: string, public id?: number) {}
+    constructor(
+        public queueName: string,
+        public queueStatus: string,
+        public command: string,
+        public id?: number,
+        /** Whether the server reported the request as successful, for requests dequeued on their response. */
+        public success?: boolean
+    ) {}
 }
 
 export class OmnisharpServerRequestCancelled implements BaseEvent {
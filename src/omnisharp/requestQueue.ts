@@ -9,6 +9,7 @@ import {
     OmnisharpServerProcessRequestStart,
     OmnisharpServerDequeueRequest,
     OmnisharpServerEnqueueRequest,
+    OmnisharpServerRequestCancelled,
 } from './omnisharpLoggingEvents';
 import { EventStream } from '../eventStream';
 
@@ -47,13 +48,16 @@ class RequestQueue {
 
     /**
      * Dequeue a request that has completed.
+     * @param success Whether the server reported the request as successful.
      */
-    public dequeue(id: number) {
+    public dequeue(id: number, success?: boolean) {
         const request = this._waiting.get(id);
 
         if (request) {
             this._waiting.delete(id);
-            this.eventStream.post(new OmnisharpServerDequeueRequest(this._name, 'waiting', request.command, id));
+            this.eventStream.post(
+                new OmnisharpServerDequeueRequest(this._name, 'waiting', request.command, id, success)
+            );
         }
 
         return request;
@@ -69,6 +73,13 @@ class RequestQueue {
         if (request.id) {
             this.dequeue(request.id);
         }
+
+        for (const [id, waiting] of this._waiting) {
+            if (waiting === request) {
+                // The server still responds to a request that was already sent, so only report the cancellation.
+                this.eventStream.post(new OmnisharpServerRequestCancelled(request.command, id));
+            }
+        }
     }
 
     /**
@@ -111,6 +122,19 @@ class RequestQueue {
     }
 }
 
+/**
+ * Returns the name of the queue requests for the command go through.
+ */
+export function getRequestQueueName(command: string): 'Priority' | 'Normal' | 'Deferred' {
+    if (prioritization.isPriorityCommand(command)) {
+        return 'Priority';
+    } else if (prioritization.isNormalCommand(command)) {
+        return 'Normal';
+    } else {
+        return 'Deferred';
+    }
+}
+
 export class RequestQueueCollection {
     private _isProcessing: boolean;
     private _priorityQueue: RequestQueue;
@@ -130,12 +154,13 @@ export class RequestQueueCollection {
     }
 
     private getQueue(command: string) {
-        if (prioritization.isPriorityCommand(command)) {
-            return this._priorityQueue;
-        } else if (prioritization.isNormalCommand(command)) {
-            return this._normalQueue;
-        } else {
-            return this._deferredQueue;
+        switch (getRequestQueueName(command)) {
+            case 'Priority':
+                return this._priorityQueue;
+            case 'Normal':
+                return this._normalQueue;
+            case 'Deferred':
+                return this._deferredQueue;
         }
     }
 
@@ -152,9 +177,9 @@ export class RequestQueueCollection {
         this.drain();
     }
 
-    public dequeue(command: string, seq: number) {
+    public dequeue(command: string, seq: number, success?: boolean) {
         const queue = this.getQueue(command);
-        return queue.dequeue(seq);
+        return queue.dequeue(seq, success);
     }
 
     public cancelRequest(request: Request) {
@@ -15,9 +15,23 @@ import * as vscode from 'vscode';
 import { tolerantParse } from '../json';
 import { IWorkspaceDebugInformationProvider, ProjectDebugInformation } from './IWorkspaceDebugInformationProvider';
 import { showErrorMessage } from './observers/utils/showMessage';
+import { sortProjectsByDependencies } from './utils/projectFiles';
 
 type DebugConsoleOptions = { console: string };
 
+/** The name of the compound launch configuration that starts the startup projects together. */
+export const CompoundLaunchName = 'Startup Projects';
+
+/** The label of the task that builds the startup projects of the compound launch configuration. */
+export const CompoundBuildTaskLabel = 'build: startup projects';
+
+export interface CompoundLaunchConfiguration {
+    name: string;
+    configurations: string[];
+    preLaunchTask?: string;
+    stopAll?: boolean;
+}
+
 export class AssetGenerator {
     public vscodeFolder: string;
     public tasksJsonPath: string;
@@ -25,6 +39,7 @@ export class AssetGenerator {
 
     private executableProjects: ProjectDebugInformation[] = [];
     private startupProject: ProjectDebugInformation | undefined;
+    private startupProjects: ProjectDebugInformation[] = [];
     private fallbackBuildProject: ProjectDebugInformation | undefined;
 
     public constructor(projects: ProjectDebugInformation[], private workspaceFolder: vscode.WorkspaceFolder) {
@@ -90,6 +105,44 @@ export class AssetGenerator {
         this.startupProject = this.executableProjects[index];
     }
 
+    /**
+     * Asks the user which projects to start together with the compound launch configuration.
+     * @returns false if the user cancelled or didn't pick any project.
+     */
+    public async selectStartupProjects(): Promise<boolean> {
+        if (!this.hasExecutableProjects()) {
+            throw new Error(vscode.l10n.t('No executable projects'));
+        }
+
+        const items = this.executableProjects.map((project) => ({
+            label: project.projectName,
+            description: path.relative(this.workspaceFolder.uri.fsPath, project.projectPath),
+            project,
+        }));
+
+        const selectedItems = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            matchOnDescription: true,
+            placeHolder: vscode.l10n.t('Select the projects to launch together'),
+        });
+
+        if (selectedItems === undefined || selectedItems.length === 0) {
+            return false;
+        }
+
+        this.startupProjects = selectedItems.map((item) => item.project);
+        return true;
+    }
+
+    // This method is used by the unit tests instead of selectStartupProjects
+    public setStartupProjects(indices: number[]): void {
+        if (indices.some((index) => index >= this.executableProjects.length)) {
+            throw new Error(vscode.l10n.t('Invalid project index'));
+        }
+
+        this.startupProjects = indices.map((index) => this.executableProjects[index]);
+    }
+
     public hasWebServerDependency(): boolean {
         if (!this.startupProject) {
             throw new Error(vscode.l10n.t('Startup project not set'));
@@ -123,13 +176,7 @@ export class AssetGenerator {
             throw new Error(vscode.l10n.t('Startup project not set'));
         }
 
-        const relativeTargetPath = path.relative(this.workspaceFolder.uri.fsPath, this.startupProject.outputPath);
-        if (relativeTargetPath === this.startupProject.outputPath) {
-            // This can happen if, for example, the workspace folder and the target path
-            // are on completely different drives.
-            return this.startupProject.outputPath;
-        }
-        return path.join('${workspaceFolder}', relativeTargetPath);
+        return computeProgramPath(this.workspaceFolder.uri.fsPath, this.startupProject.outputPath);
     }
 
     private computeWorkingDirectory(): string {
@@ -332,6 +379,82 @@ export class AssetGenerator {
         };
     }
 
+    /**
+     * Creates a launch configuration for each startup project, and the compound configuration starting them in
+     * dependency order, so that a project is started after the projects it references.
+     */
+    public createCompoundLaunchConfigurations(): {
+        configurations: vscode.DebugConfiguration[];
+        compound: CompoundLaunchConfiguration;
+    } {
+        const configurations: vscode.DebugConfiguration[] = [];
+        const previousStartupProject = this.startupProject;
+        try {
+            for (const project of this.getOrderedStartupProjects()) {
+                this.startupProject = project;
+                const [configuration] = this.createLaunchJsonConfigurationsArray(
+                    this.computeProgramLaunchType(),
+                    false
+                ).filter((c) => c.request === 'launch');
+
+                // The compound builds all of the projects once before starting any of them.
+                delete configuration.preLaunchTask;
+                configurations.push({ ...configuration, name: `.NET Core Launch (${project.projectName})` });
+            }
+        } finally {
+            this.startupProject = previousStartupProject;
+        }
+
+        return {
+            configurations,
+            compound: {
+                name: CompoundLaunchName,
+                configurations: configurations.map((c) => c.name),
+                preLaunchTask: CompoundBuildTaskLabel,
+                stopAll: true,
+            },
+        };
+    }
+
+    /**
+     * Creates a build task for each startup project, and the task building all of them in dependency order that the
+     * compound configuration runs before launching.
+     */
+    public createCompoundTaskDescriptions(): tasks.TaskDescription[] {
+        const buildTasks: tasks.TaskDescription[] = this.getOrderedStartupProjects().map((project) => ({
+            label: `build: ${project.projectName}`,
+            command: 'dotnet',
+            type: 'process',
+            args: [
+                'build',
+                this.getBuildPath(project.projectPath),
+                '/property:GenerateFullPaths=true',
+                '/consoleloggerparameters:NoSummary;ForceNoAlign',
+            ],
+            problemMatcher: '$msCompile',
+        }));
+
+        return [
+            ...buildTasks,
+            {
+                label: CompoundBuildTaskLabel,
+                dependsOn: buildTasks.map((t) => t.label),
+                dependsOrder: 'sequence',
+                problemMatcher: [],
+            },
+        ];
+    }
+
+    private getOrderedStartupProjects(): ProjectDebugInformation[] {
+        if (this.startupProjects.length === 0) {
+            throw new Error(vscode.l10n.t('Startup project not set'));
+        }
+
+        return sortProjectsByDependencies(this.startupProjects.map((p) => p.projectPath)).map(
+            (projectPath) => this.startupProjects.find((p) => p.projectPath === projectPath)!
+        );
+    }
+
     private findExecutableMSBuildProjects(projects: ProjectDebugInformation[]) {
         const result: ProjectDebugInformation[] = [];
 
@@ -347,6 +470,20 @@ export class AssetGenerator {
     }
 }
 
+/**
+ * Returns the program path of a launch configuration running the output assembly, relative to the workspace folder
+ * when possible.
+ */
+export function computeProgramPath(workspaceFolderPath: string, outputPath: string): string {
+    const relativeTargetPath = path.relative(workspaceFolderPath, outputPath);
+    if (relativeTargetPath === outputPath) {
+        // This can happen if, for example, the workspace folder and the target path
+        // are on completely different drives.
+        return outputPath;
+    }
+    return path.join('${workspaceFolder}', relativeTargetPath);
+}
+
 export enum ProgramLaunchType {
     Console,
     Web,
@@ -947,6 +1084,96 @@ export async function generateAssets(
     }
 }
 
+/**
+ * Adds or replaces a launch configuration for each startup project and the compound configuration starting them
+ * together, along with the tasks building them.
+ */
+async function addCompoundAssets(generator: AssetGenerator): Promise<void> {
+    const formattingOptions = getFormattingOptions();
+
+    const { configurations, compound } = generator.createCompoundLaunchConfigurations();
+    let launchJsonText: string;
+    if (!fs.pathExistsSync(generator.launchJsonPath)) {
+        const text = JSON.stringify({ version: '0.2.0', configurations, compounds: [compound] });
+        launchJsonText = jsonc.applyEdits(text, jsonc.format(text, undefined, formattingOptions));
+    } else {
+        const content = fs.readFileSync(generator.launchJsonPath, { encoding: 'utf8' });
+        launchJsonText = updateJsonArrayWithComments(
+            content,
+            configurations,
+            'configurations',
+            'name',
+            formattingOptions
+        );
+        launchJsonText = updateJsonArrayWithComments(
+            launchJsonText,
+            [compound],
+            'compounds',
+            'name',
+            formattingOptions
+        );
+    }
+
+    const taskDescriptions = generator.createCompoundTaskDescriptions();
+    let tasksJsonText: string;
+    if (!fs.pathExistsSync(generator.tasksJsonPath)) {
+        const text = JSON.stringify({ version: '2.0.0', tasks: taskDescriptions });
+        tasksJsonText = jsonc.applyEdits(text, jsonc.format(text, undefined, formattingOptions));
+    } else {
+        const content = fs.readFileSync(generator.tasksJsonPath, { encoding: 'utf8' });
+        tasksJsonText = updateJsonArrayWithComments(content, taskDescriptions, 'tasks', 'label', formattingOptions);
+    }
+
+    await fs.writeFile(generator.launchJsonPath, launchJsonText);
+    await fs.writeFile(generator.tasksJsonPath, tasksJsonText);
+}
+
+/**
+ * Generates a compound launch configuration starting several projects of the workspace together, like a web frontend
+ * and the API it calls.
+ */
+export async function generateCompoundAssets(
+    workspaceInformationProvider: IWorkspaceDebugInformationProvider,
+    selectedIndices?: number[]
+): Promise<void> {
+    try {
+        if (!vscode.workspace.workspaceFolders) {
+            return;
+        }
+
+        for (const workspaceFolder of vscode.workspace.workspaceFolders) {
+            const workspaceInformation = await workspaceInformationProvider.getWorkspaceDebugInformation(
+                workspaceFolder.uri
+            );
+            const generator =
+                workspaceInformation && workspaceInformation.length > 0
+                    ? new AssetGenerator(workspaceInformation, workspaceFolder)
+                    : undefined;
+            if (generator === undefined || !generator.hasExecutableProjects()) {
+                showErrorMessage(
+                    vscode,
+                    vscode.l10n.t(
+                        `Could not locate an executable .NET Core project in '{0}'. Assets were not generated.`,
+                        workspaceFolder.name
+                    )
+                );
+                continue;
+            }
+
+            if (selectedIndices !== undefined) {
+                generator.setStartupProjects(selectedIndices);
+            } else if (!(await generator.selectStartupProjects())) {
+                return; // user cancelled
+            }
+
+            await fs.ensureDir(generator.vscodeFolder);
+            await addCompoundAssets(generator);
+        }
+    } catch (err) {
+        showErrorMessage(vscode, vscode.l10n.t('Unable to generate assets to build and debug. {0}.', `${err}`));
+    }
+}
+
 export function replaceCommentPropertiesWithComments(text: string) {
     // replacing dummy properties OS-COMMENT with the normal comment syntax
     const regex = /["']OS-COMMENT\d*["']\s*:\s*["'](.*)["']\s*?,/gi;
@@ -993,3 +1220,21 @@ export function updateJsonWithComments(
 
     return replaceCommentPropertiesWithComments(modified);
 }
+
+/**
+ * Same as {@link updateJsonWithComments}, but adds the node first if the file doesn't have it yet, like the
+ * `compounds` node of most launch.json files.
+ */
+function updateJsonArrayWithComments(
+    text: string,
+    replacements: any[],
+    nodeName: string,
+    keyName: string,
+    formattingOptions: FormattingOptions
+): string {
+    if (!Array.isArray(jsonc.parse(text)?.[nodeName])) {
+        text = jsonc.applyEdits(text, jsonc.modify(text, [nodeName], [], { formattingOptions }));
+    }
+
+    return updateJsonWithComments(text, replacements, nodeName, keyName, formattingOptions);
+}
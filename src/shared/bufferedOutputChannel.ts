@@ -0,0 +1,72 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as vscode from 'vscode';
+
+/** The amount of output kept by default, in characters. */
+const DefaultMaxLength = 10 * 1024 * 1024;
+
+/**
+ * Forwards everything to an output channel, keeping its most recent output so that it can be exported.  Unlike log
+ * output channels, plain output channels aren't written to the extension's log folder and can't be read back.
+ */
+export class BufferedOutputChannel implements vscode.OutputChannel {
+    private _contents = '';
+
+    constructor(protected readonly _channel: vscode.OutputChannel, private readonly _maxLength = DefaultMaxLength) {}
+
+    public get name(): string {
+        return this._channel.name;
+    }
+
+    /** The most recent output of the channel. */
+    public get contents(): string {
+        return this._contents;
+    }
+
+    public append(value: string): void {
+        this._channel.append(value);
+        this.onAppend(value);
+    }
+
+    public appendLine(value: string): void {
+        this._channel.appendLine(value);
+        this.onAppend(value + '\n');
+    }
+
+    public replace(value: string): void {
+        this._channel.replace(value);
+        this._contents = '';
+        this.onAppend(value);
+    }
+
+    public clear(): void {
+        this._channel.clear();
+        this._contents = '';
+    }
+
+    public show(columnOrPreserveFocus?: vscode.ViewColumn | boolean, preserveFocus?: boolean): void {
+        if (typeof columnOrPreserveFocus === 'boolean') {
+            this._channel.show(columnOrPreserveFocus);
+        } else {
+            this._channel.show(columnOrPreserveFocus, preserveFocus);
+        }
+    }
+
+    public hide(): void {
+        this._channel.hide();
+    }
+
+    public dispose(): void {
+        this._channel.dispose();
+    }
+
+    protected onAppend(text: string) {
+        this._contents += text;
+        if (this._contents.length > this._maxLength) {
+            this._contents = this._contents.substring(this._contents.length - this._maxLength);
+        }
+    }
+}
@@ -0,0 +1,237 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pipeline, Transform } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import * as vscode from 'vscode';
+import { IHostExecutableResolver } from './constants/IHostExecutableResolver';
+import { commonOptions, languageServerOptions, omnisharpOptions, razorOptions } from './options';
+import { ProjectConfigurationMessage } from './projectConfiguration';
+import { BufferedOutputChannel } from './bufferedOutputChannel';
+import { getDotnetInfo } from './utils/getDotnetInfo';
+import { writeZipFile, ZipEntry } from './utils/zipFile';
+import { showErrorMessage, showInformationMessage } from './observers/utils/showMessage';
+
+export interface RedactionPath {
+    path: string;
+    replacement: string;
+}
+
+/** Matches `key=value` and `"key": "value"` pairs whose key names a secret, capturing everything up to the value. */
+const SecretAssignmentRegex =
+    /((?:password|pwd|token|secret|api[-_]?key|access[-_]?key|account[-_]?key|client[-_]?secret|shared[-_]?access[-_]?key)"?\s*[:=]\s*"?)[^\s"';,&]+/gi;
+const AuthorizationRegex = /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/g;
+const UrlCredentialsRegex = /\b([a-z][a-z0-9+.-]*:\/\/)[^\s/:@]+:[^\s/@]+@/gi;
+const GitHubTokenRegex = /\bgh[pousr]_[A-Za-z0-9]{20,}\b/g;
+
+/**
+ * Replaces secrets in the text, and, when given, the paths with their replacements.  Paths are matched as written
+ * on the platform, with forward slashes and escaped in JSON.
+ */
+export function redact(text: string, paths: RedactionPath[] = []): string {
+    text = text
+        .replace(UrlCredentialsRegex, '$1<redacted>@')
+        .replace(AuthorizationRegex, '$1 <redacted>')
+        .replace(GitHubTokenRegex, '<redacted>')
+        .replace(SecretAssignmentRegex, '$1<redacted>');
+
+    // Replace the longest paths first so that workspace folders under the home folder keep their own replacement.
+    const sortedPaths = paths.filter((p) => p.path.length > 0).sort((a, b) => b.path.length - a.path.length);
+    for (const { path: redactedPath, replacement } of sortedPaths) {
+        const variants = new Set([
+            redactedPath,
+            redactedPath.replace(/\\/g, '/'),
+            JSON.stringify(redactedPath).slice(1, -1),
+        ]);
+        for (const variant of variants) {
+            text = text.split(variant).join(replacement);
+        }
+    }
+
+    return text;
+}
+
+/**
+ * Returns a stream redacting the text written to it line by line, so that large logs aren't held in memory.
+ */
+export function createRedactionStream(paths: RedactionPath[] = []): Transform {
+    const decoder = new StringDecoder('utf8');
+    let partialLine = '';
+    return new Transform({
+        transform(chunk: Buffer | string, _encoding, callback) {
+            const lines = (partialLine + (typeof chunk === 'string' ? chunk : decoder.write(chunk))).split('\n');
+            partialLine = lines.pop()!;
+            callback(null, lines.length > 0 ? lines.map((line) => redact(line, paths) + '\n').join('') : undefined);
+        },
+        flush(callback) {
+            const lastLine = partialLine + decoder.end();
+            callback(null, lastLine.length > 0 ? redact(lastLine, paths) : undefined);
+        },
+    });
+}
+
+/**
+ * Asks how to redact the bundle, then zips the logs, resolved options, `dotnet --info` output, server version and
+ * project configurations into the extension's log folder.
+ */
+export async function exportDiagnosticBundle(
+    context: vscode.ExtensionContext,
+    dotnetResolver: IHostExecutableResolver,
+    server: { name: string; version: string | undefined },
+    channels: BufferedOutputChannel[],
+    projectConfigurations: ProjectConfigurationMessage[]
+): Promise<void> {
+    const redactionItems = [
+        { label: vscode.l10n.t('Redact secrets and paths'), secrets: true, paths: true },
+        { label: vscode.l10n.t('Redact secrets only'), secrets: true, paths: false },
+        { label: vscode.l10n.t('Do not redact'), secrets: false, paths: false },
+    ];
+    const redaction = await vscode.window.showQuickPick(redactionItems, {
+        placeHolder: vscode.l10n.t('Logs can contain secrets and file paths. How should the bundle be redacted?'),
+    });
+    if (!redaction) {
+        return;
+    }
+
+    const redactionPaths: RedactionPath[] = [];
+    if (redaction.paths) {
+        vscode.workspace.workspaceFolders?.forEach((folder) =>
+            redactionPaths.push({ path: folder.uri.fsPath, replacement: `<workspace:${folder.name}>` })
+        );
+        redactionPaths.push({ path: os.homedir(), replacement: '<home>' });
+    }
+
+    try {
+        const zipPath = await vscode.window.withProgress(
+            {
+                location: vscode.ProgressLocation.Notification,
+                title: vscode.l10n.t('Exporting diagnostic bundle'),
+            },
+            async () => {
+                const entries = await getBundleEntries(
+                    context,
+                    dotnetResolver,
+                    server,
+                    channels,
+                    projectConfigurations
+                );
+                const bundleDirectory = path.join(context.logUri.fsPath, 'diagnosticBundles');
+                await fs.promises.mkdir(bundleDirectory, { recursive: true });
+                const zipPath = path.join(
+                    bundleDirectory,
+                    `diagnostics-${new Date().toISOString().replace(/[:.]/g, '-')}.zip`
+                );
+                const redactedEntries: ZipEntry[] = [];
+                for (const entry of entries) {
+                    if (!redaction.secrets) {
+                        redactedEntries.push(entry);
+                        continue;
+                    }
+
+                    if ('data' in entry) {
+                        redactedEntries.push({ name: entry.name, data: redact(entry.data.toString(), redactionPaths) });
+                    } else {
+                        const source = 'filePath' in entry ? fs.createReadStream(entry.filePath) : entry.stream;
+                        const stream = pipeline(source, createRedactionStream(redactionPaths), () => {
+                            // Errors are reported by writing the zip file.
+                        });
+                        redactedEntries.push({ name: entry.name, stream });
+                    }
+                }
+                await writeZipFile(zipPath, redactedEntries);
+                return zipPath;
+            }
+        );
+
+        showInformationMessage(vscode, vscode.l10n.t('The diagnostic bundle was exported. Review it before sharing.'), {
+            title: vscode.l10n.t('Reveal in File Explorer'),
+            command: 'revealFileInOS',
+            arguments: [vscode.Uri.file(zipPath)],
+        });
+    } catch (e) {
+        showErrorMessage(vscode, vscode.l10n.t('Failed to export the diagnostic bundle: {0}', `${e}`));
+    }
+}
+
+async function getBundleEntries(
+    context: vscode.ExtensionContext,
+    dotnetResolver: IHostExecutableResolver,
+    server: { name: string; version: string | undefined },
+    channels: BufferedOutputChannel[],
+    projectConfigurations: ProjectConfigurationMessage[]
+): Promise<ZipEntry[]> {
+    const environment = {
+        vscodeVersion: vscode.version,
+        extensionVersion: context.extension.packageJSON.version,
+        server: server.name,
+        serverVersion: server.version ?? 'unknown',
+        platform: `${process.platform} ${process.arch}`,
+        extensions: vscode.extensions.all
+            .filter((extension) => extension.packageJSON.isBuiltin === false)
+            .map((extension) => `${extension.id}@${extension.packageJSON.version}`)
+            .sort(),
+    };
+
+    const options = {
+        common: getResolvedOptions(commonOptions),
+        languageServer: getResolvedOptions(languageServerOptions),
+        omnisharp: getResolvedOptions(omnisharpOptions),
+        razor: getResolvedOptions(razorOptions),
+    };
+
+    const entries: ZipEntry[] = [
+        { name: 'environment.json', data: JSON.stringify(environment, undefined, 4) },
+        { name: 'options.json', data: JSON.stringify(options, undefined, 4) },
+        { name: 'dotnet-info.txt', data: await getServerDotnetInfo(dotnetResolver) },
+        { name: 'project-configurations.json', data: JSON.stringify(projectConfigurations, undefined, 4) },
+    ];
+
+    entries.push(...(await getLogFileEntries(context)));
+
+    for (const channel of channels) {
+        entries.push({ name: `logs/${channel.name.replace(/[\\/:*?"<>|]/g, '_')}.log`, data: channel.contents });
+    }
+
+    return entries;
+}
+
+/**
+ * Returns the zip entries of the log files of the extension, under a `logs` folder.  Log output channels, including
+ * the server logs, are written to the extension's log folder.
+ */
+export async function getLogFileEntries(context: vscode.ExtensionContext): Promise<ZipEntry[]> {
+    if (!fs.existsSync(context.logUri.fsPath)) {
+        return [];
+    }
+
+    return (await fs.promises.readdir(context.logUri.fsPath, { withFileTypes: true }))
+        .filter((entry) => entry.isFile())
+        .map((entry) => ({ name: `logs/${entry.name}`, filePath: path.join(context.logUri.fsPath, entry.name) }));
+}
+
+/** Reads the values of the option getters, which are defined on the prototype of the options implementation. */
+function getResolvedOptions(options: object): { [key: string]: unknown } {
+    const resolved: { [key: string]: unknown } = {};
+    const prototype = Object.getPrototypeOf(options);
+    for (const name of Object.getOwnPropertyNames(prototype)) {
+        if (Object.getOwnPropertyDescriptor(prototype, name)?.get) {
+            resolved[name] = (options as { [key: string]: unknown })[name];
+        }
+    }
+    return resolved;
+}
+
+async function getServerDotnetInfo(dotnetResolver: IHostExecutableResolver): Promise<string> {
+    // Like reportIssue, describe the dotnet the server runs on rather than the one user code runs on.
+    try {
+        const info = await dotnetResolver.getHostExecutableInfo();
+        return (await getDotnetInfo([path.dirname(info.path)])).FullInfo;
+    } catch (error) {
+        return error instanceof Error ? error.message : `${error}`;
+    }
+}
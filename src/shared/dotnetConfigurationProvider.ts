@@ -4,6 +4,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import * as fs from 'fs-extra';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { IWorkspaceDebugInformationProvider, ProjectDebugInformation } from './IWorkspaceDebugInformationProvider';
 import { AssetGenerator, AssetOperations, addTasksJsonIfNecessary, getBuildOperations } from './assets';
@@ -15,6 +16,8 @@ import {
     IDotnetDebugConfigurationServiceResult,
 } from '../lsptoolshost/services/IDotnetDebugConfigurationService';
 import { DotnetWorkspaceConfigurationProvider } from './workspaceConfigurationProvider';
+import { sortProjectsByDependencies } from './utils/projectFiles';
+import { applyLaunchProfile, getLaunchProfiles, getLaunchSettingsPath, LaunchProfile } from './utils/launchSettings';
 
 // User errors that can be shown to the user.
 class LaunchServiceError extends Error {}
@@ -54,12 +57,31 @@ function resolveWorkspaceFolderToken(projectPath: string, folderPath: string): s
     return projectPath;
 }
 
+/**
+ * Orders the configurations so that a project is started after the projects it references, when each configuration
+ * names a different project.  Otherwise the order the configurations were given in is kept.
+ */
+function orderConfigurationsByProjectDependencies(
+    configurations: vscode.DebugConfiguration[]
+): vscode.DebugConfiguration[] {
+    const projectPaths = configurations.map((c) => c.projectPath);
+    if (!projectPaths.every((p) => typeof p === 'string') || new Set(projectPaths).size !== projectPaths.length) {
+        return configurations;
+    }
+
+    return sortProjectsByDependencies(projectPaths).map(
+        (projectPath) => configurations[projectPaths.indexOf(projectPath)]
+    );
+}
+
 export class DotnetConfigurationResolver implements vscode.DebugConfigurationProvider {
     static dotnetType = 'dotnet';
 
     constructor(
         private workspaceDebugInfoProvider: IWorkspaceDebugInformationProvider,
-        private dotnetWorkspaceConfigurationProvider: DotnetWorkspaceConfigurationProvider
+        private dotnetWorkspaceConfigurationProvider: DotnetWorkspaceConfigurationProvider,
+        /** Returns the project to launch when the configuration doesn't specify one, if the user has chosen one. */
+        private getStartupProject?: () => string | undefined
     ) {}
 
     //#region vscode.DebugConfigurationProvider
@@ -88,7 +110,7 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
             }
         }
 
-        let projectPath: string | undefined = debugConfiguration.projectPath;
+        let projectPath: string | undefined = debugConfiguration.projectPath ?? this.getStartupProject?.();
         if (folder) {
             if (projectPath) {
                 projectPath = resolveWorkspaceFolderToken(projectPath, folder.uri.fsPath);
@@ -119,7 +141,8 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
 
                     return await this.resolveDebugConfigurationWithWorkspaceDebugInformationProvider(
                         folder,
-                        projectPath
+                        projectPath,
+                        debugConfiguration.launchProfile
                     );
                 } else if (e instanceof StopDebugLaunchServiceError) {
                     return undefined;
@@ -168,24 +191,31 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
         }
         if (debugConfigArray.length == 1) {
             return debugConfigArray[0];
-        } else if (debugConfigArray.length === 2) {
-            // This creates a onDidStartDebugSession event listener that will dispose of itself when it detects
-            // the debugConfiguration that is return from this method has started.
-            const startDebugEvent = vscode.debug.onDidStartDebugSession(async (debugSession: vscode.DebugSession) => {
-                if (debugSession.name === debugConfigArray[0].name) {
-                    startDebugEvent.dispose();
-                    await vscode.debug.startDebugging(debugSession.workspaceFolder, debugConfigArray[1], debugSession);
-                }
-            });
-
-            return debugConfigArray[0];
-        } else if (debugConfigArray.length > 2) {
-            throw new InternalServiceError('Multiple launch targets (>2) is not yet supported.');
-        } else {
-            throw new InternalServiceError(
-                'Unexpected configuration array from IDotnetDebugConfigurationServiceResult.'
-            );
         }
+
+        const orderedConfigurations = orderConfigurationsByProjectDependencies(debugConfigArray);
+
+        // This creates a onDidStartDebugSession event listener that starts the next configuration each time the one
+        // before it has started, beginning with the debugConfiguration that is returned from this method, and disposes
+        // of itself once the last one is started.  The other sessions are children of the first, so stopping it stops
+        // all of them.
+        let startedCount = 1;
+        let parentSession: vscode.DebugSession | undefined;
+        const startDebugEvent = vscode.debug.onDidStartDebugSession(async (debugSession: vscode.DebugSession) => {
+            if (debugSession.name !== orderedConfigurations[startedCount - 1].name) {
+                return;
+            }
+
+            parentSession ??= debugSession;
+            const nextConfiguration = orderedConfigurations[startedCount++];
+            if (startedCount === orderedConfigurations.length) {
+                startDebugEvent.dispose();
+            }
+
+            await vscode.debug.startDebugging(debugSession.workspaceFolder, nextConfiguration, parentSession);
+        });
+
+        return orderedConfigurations[0];
     }
 
     /**
@@ -193,12 +223,14 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
      *
      * @param folder The workspace folder for which the configurations are used. Required for 'dotnet' debug configuration resolution.
      * @param projectPath The expected path to the .csproj
-     * @returns
+     * @param launchProfileName The launchSettings.json profile to apply, if the configuration names one.
+     * @returns The configuration, or undefined if the user cancelled picking a launch profile.
      */
     private async resolveDebugConfigurationWithWorkspaceDebugInformationProvider(
         folder: vscode.WorkspaceFolder,
-        projectPath: string
-    ): Promise<vscode.DebugConfiguration> {
+        projectPath: string,
+        launchProfileName: string | undefined
+    ): Promise<vscode.DebugConfiguration | undefined> {
         const info: ProjectDebugInformation[] | undefined =
             await this.workspaceDebugInfoProvider.getWorkspaceDebugInformation(folder.uri);
         if (!info) {
@@ -232,7 +264,17 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
                     if (generatedDebugConfigurations.length === 1) {
                         const result = generatedDebugConfigurations[0];
                         // TODO: Pass through the launch configuration id if ILaunchConfigurationService names them the same or parse and return the actual one.
-                        return result;
+                        const launchProfile = await this.selectLaunchProfile(
+                            info[index].projectPath,
+                            launchProfileName
+                        );
+                        if (launchProfile === null) {
+                            return undefined;
+                        }
+
+                        return launchProfile
+                            ? applyLaunchProfile(result, launchProfile, info[index].projectPath)
+                            : result;
                     } else {
                         throw new Error(
                             vscode.l10n.t(
@@ -249,6 +291,46 @@ export class DotnetConfigurationResolver implements vscode.DebugConfigurationPro
         throw new Error(vscode.l10n.t("Unable to determine debug settings for project '{0}'", projectPath));
     }
 
+    /**
+     * Returns the launchSettings.json profile to launch the project with: the one named by the configuration, the only
+     * one, or the one the user picks when there are several.
+     * @returns The profile, undefined if the project has no profiles, or null if the user cancelled picking one.
+     */
+    private async selectLaunchProfile(
+        projectPath: string,
+        launchProfileName: string | undefined
+    ): Promise<LaunchProfile | undefined | null> {
+        const profiles = await getLaunchProfiles(projectPath);
+        if (launchProfileName !== undefined) {
+            const profile = profiles.find((p) => p.name === launchProfileName);
+            if (profile === undefined) {
+                throw new LaunchServiceError(
+                    vscode.l10n.t(
+                        "Launch profile '{0}' was not found in '{1}'.",
+                        launchProfileName,
+                        getLaunchSettingsPath(projectPath)
+                    )
+                );
+            }
+            return profile;
+        }
+
+        if (profiles.length <= 1) {
+            return profiles[0];
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            profiles.map((profile) => ({
+                label: profile.name,
+                description: profile.applicationUrl,
+                detail: profile.commandLineArgs,
+                profile,
+            })),
+            { placeHolder: vscode.l10n.t('Select the launch profile to start {0} with', path.basename(projectPath)) }
+        );
+        return selected?.profile ?? null;
+    }
+
     // Workaround for VS Code not calling into the 'coreclr' resolveDebugConfigurationWithSubstitutedVariables
     async resolveDebugConfigurationWithSubstitutedVariables(
         folder: vscode.WorkspaceFolder | undefined,
@@ -0,0 +1,156 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as util from '../common';
+import { IWorkspaceDebugInformationProvider, ProjectDebugInformation } from './IWorkspaceDebugInformationProvider';
+
+export type DotnetTaskCommand = 'build' | 'rebuild' | 'clean' | 'test' | 'publish' | 'watch' | 'pack';
+
+/** A task of type `dotnet`, as written in tasks.json. */
+export interface DotnetTaskDefinition extends vscode.TaskDefinition {
+    type: 'dotnet';
+    command: DotnetTaskCommand;
+
+    /** The project or solution to run the command on; the one in the working directory if not set. */
+    project?: string;
+}
+
+/** The problem matcher for the errors and warnings MSBuild writes to the console. */
+const MSBuildProblemMatcher = '$msCompile';
+
+/**
+ * Returns the arguments of the dotnet CLI running the command on the project.  MSBuild is asked for full paths and
+ * unaligned messages, as the problem matcher expects.
+ */
+export function getDotnetTaskArguments(command: DotnetTaskCommand, project: string | undefined): string[] {
+    const projectArgs = project ? [project] : [];
+    const msbuildArgs = ['/property:GenerateFullPaths=true', '/consoleloggerparameters:NoSummary;ForceNoAlign'];
+    switch (command) {
+        case 'rebuild':
+            return ['build', ...projectArgs, '--no-incremental', ...msbuildArgs];
+        case 'watch':
+            // NOTE: Don't add any additional args, or this will disable hot reload.
+            return ['watch', 'run', ...(project ? ['--project', project] : [])];
+        default:
+            return [command, ...projectArgs, ...msbuildArgs];
+    }
+}
+
+/**
+ * Returns the tasks provided for the projects of a workspace folder: building, cleaning and testing each solution and
+ * project, publishing and watching the executable projects, and packing the others.
+ */
+export function getDotnetTaskDefinitions(
+    workspaceFolderPath: string,
+    projects: ProjectDebugInformation[]
+): { name: string; definition: DotnetTaskDefinition }[] {
+    const tasks: { name: string; definition: DotnetTaskDefinition }[] = [];
+    const addTasks = (name: string, filePath: string, commands: DotnetTaskCommand[]) => {
+        const project = getWorkspacePath(workspaceFolderPath, filePath);
+        tasks.push(
+            ...commands.map((command) => ({
+                name: `${command}: ${name}`,
+                definition: { type: 'dotnet' as const, command, project },
+            }))
+        );
+    };
+
+    const solutionPaths = new Set(projects.map((p) => p.solutionPath).filter((p): p is string => !!p));
+    for (const solutionPath of solutionPaths) {
+        addTasks(path.basename(solutionPath), solutionPath, ['build', 'rebuild', 'clean', 'test']);
+    }
+
+    for (const project of projects) {
+        const isExecutable = project.isExe && (project.targetsDotnetCore || project.isBlazorWebAssemblyStandalone);
+        addTasks(project.projectName, project.projectPath, [
+            'build',
+            'rebuild',
+            'clean',
+            'test',
+            ...(isExecutable ? (['publish', 'watch'] as const) : (['pack'] as const)),
+        ]);
+    }
+
+    return tasks;
+}
+
+/** Returns the path relative to the workspace folder when possible, so that the tasks work in any clone. */
+function getWorkspacePath(workspaceFolderPath: string, filePath: string): string {
+    const relativePath = path.relative(workspaceFolderPath, filePath);
+    if (relativePath === filePath) {
+        // The file is on another drive than the workspace folder.
+        return util.convertNativePathToPosix(filePath);
+    }
+
+    return util.convertNativePathToPosix(path.join('${workspaceFolder}', relativePath));
+}
+
+/**
+ * Provides `dotnet` tasks for the projects and solutions of the workspace, so that they can be built, tested and run
+ * without a tasks.json file, and resolves the `dotnet` tasks written in tasks.json.
+ */
+export class DotnetTaskProvider implements vscode.TaskProvider {
+    static type = 'dotnet';
+
+    constructor(private readonly _workspaceInformationProvider: IWorkspaceDebugInformationProvider) {}
+
+    public async provideTasks(): Promise<vscode.Task[]> {
+        const tasks: vscode.Task[] = [];
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            const projects = await this._workspaceInformationProvider.getWorkspaceDebugInformation(workspaceFolder.uri);
+            for (const { name, definition } of getDotnetTaskDefinitions(workspaceFolder.uri.fsPath, projects ?? [])) {
+                tasks.push(createTask(workspaceFolder, name, definition));
+            }
+        }
+
+        return tasks;
+    }
+
+    public resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as DotnetTaskDefinition;
+        if (!definition.command) {
+            return undefined;
+        }
+
+        return createTask(task.scope ?? vscode.TaskScope.Workspace, task.name, definition);
+    }
+}
+
+function createTask(
+    scope: vscode.WorkspaceFolder | vscode.TaskScope,
+    name: string,
+    definition: DotnetTaskDefinition
+): vscode.Task {
+    const task = new vscode.Task(
+        definition,
+        scope,
+        name,
+        DotnetTaskProvider.type,
+        new vscode.ProcessExecution('dotnet', getDotnetTaskArguments(definition.command, definition.project)),
+        MSBuildProblemMatcher
+    );
+
+    switch (definition.command) {
+        case 'build':
+            task.group = vscode.TaskGroup.Build;
+            break;
+        case 'rebuild':
+            task.group = vscode.TaskGroup.Rebuild;
+            break;
+        case 'clean':
+            task.group = vscode.TaskGroup.Clean;
+            break;
+        case 'test':
+            task.group = vscode.TaskGroup.Test;
+            break;
+        case 'watch':
+            task.isBackground = true;
+            break;
+    }
+
+    return task;
+}
@@ -0,0 +1,303 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as jsonc from 'jsonc-parser';
+import { FormattingOptions } from 'jsonc-parser';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as util from '../common';
+import { computeProgramPath, getFormattingOptions } from './assets';
+import { IWorkspaceDebugInformationProvider, ProjectDebugInformation } from './IWorkspaceDebugInformationProvider';
+
+const WorkspaceFolderToken = '${workspaceFolder}';
+
+/** The source of the diagnostics reported on stale launch.json entries, which the quick fix is offered for. */
+const DiagnosticSource = 'C#';
+
+/** A launch configuration whose program path is no longer the output of the project it launches. */
+export interface StaleProgramPath {
+    /** The launch configuration, as written in launch.json. */
+    configuration: vscode.DebugConfiguration;
+
+    /** The index of the configuration in the configurations of launch.json. */
+    index: number;
+
+    /** The project the configuration launches, found from its working directory or program path. */
+    project: ProjectDebugInformation;
+
+    /** The program path the configuration would be generated with now. */
+    expectedProgram: string;
+
+    /** The location of the stale program path in the launch.json text. */
+    offset: number;
+    length: number;
+}
+
+/**
+ * Finds the coreclr launch configurations in the launch.json text whose program path is no longer the output of the
+ * project they launch, like after the project was renamed or retargeted to another framework.  A configuration is
+ * matched to a project by its working directory, or else by the project directory containing its program.
+ *
+ * Programs picked on purpose, like the Release or publish output of the project, are left alone: a program is only
+ * reported when it's in a bin/<configuration>/<target framework> folder of the project that doesn't match its assembly
+ * name or target frameworks anymore, or else when it doesn't exist.  Configurations with program paths using other
+ * variables than ${workspaceFolder} are left alone too.
+ */
+export function findStaleProgramPaths(
+    text: string,
+    workspaceFolderPath: string,
+    projects: ProjectDebugInformation[]
+): StaleProgramPath[] {
+    const root = jsonc.parseTree(text);
+    const configurationsNode = root ? jsonc.findNodeAtLocation(root, ['configurations']) : undefined;
+    if (configurationsNode?.type !== 'array' || configurationsNode.children === undefined) {
+        return [];
+    }
+
+    const executableProjects = projects.filter((p) => p.isExe && p.targetsDotnetCore);
+    const outputPaths = new Set(projects.map((p) => path.resolve(p.outputPath)));
+    const stale: StaleProgramPath[] = [];
+    for (const [index, configurationNode] of configurationsNode.children.entries()) {
+        const configuration = jsonc.getNodeValue(configurationNode);
+        const programNode = jsonc.findNodeAtLocation(configurationNode, ['program']);
+        if (
+            configuration?.type !== 'coreclr' ||
+            configuration.request !== 'launch' ||
+            typeof configuration.name !== 'string' ||
+            programNode?.type !== 'string'
+        ) {
+            continue;
+        }
+
+        const program = resolveWorkspaceFolder(configuration.program, workspaceFolderPath);
+        if (program === undefined || outputPaths.has(program)) {
+            continue;
+        }
+
+        const project = findLaunchedProject(
+            executableProjects,
+            program,
+            typeof configuration.cwd === 'string'
+                ? resolveWorkspaceFolder(configuration.cwd, workspaceFolderPath)
+                : undefined
+        );
+        if (project === undefined || !isProgramStale(program, project, projects)) {
+            continue;
+        }
+
+        stale.push({
+            configuration,
+            index,
+            project,
+            expectedProgram: util.convertNativePathToPosix(computeProgramPath(workspaceFolderPath, project.outputPath)),
+            offset: programNode.offset,
+            length: programNode.length,
+        });
+    }
+
+    return stale;
+}
+
+/**
+ * Updates the program path of the stale configuration, keeping the rest of the configuration (including its comments)
+ * and file as the user wrote it.
+ */
+export function updateStaleProgramPath(
+    text: string,
+    stale: StaleProgramPath,
+    formattingOptions: FormattingOptions
+): string {
+    const edits = jsonc.modify(text, ['configurations', stale.index, 'program'], stale.expectedProgram, {
+        formattingOptions,
+    });
+    return jsonc.applyEdits(text, edits);
+}
+
+/**
+ * Returns whether the program can't be the output of the project anymore.  Only the target framework and the assembly
+ * name are checked in bin/<configuration>/<target framework> folders, as the configuration, the runtime identifier or a
+ * publish folder below it are chosen by the user.
+ */
+function isProgramStale(program: string, project: ProjectDebugInformation, projects: ProjectDebugInformation[]) {
+    const projectDirectory = path.dirname(path.resolve(project.projectPath));
+    const segments = path.relative(projectDirectory, program).split(path.sep);
+    if (segments.length < 4 || segments[0].toLowerCase() !== 'bin') {
+        return !fs.existsSync(program);
+    }
+
+    // Projects targeting several frameworks are reported once for each of them.
+    const targetFrameworks = new Set(
+        projects
+            .filter((p) => path.resolve(p.projectPath) === path.resolve(project.projectPath))
+            .map((p) => path.basename(path.dirname(p.outputPath)).toLowerCase())
+    );
+    const targetFramework = segments[2].toLowerCase();
+    return !targetFrameworks.has(targetFramework) || getAssemblyName(program) !== getAssemblyName(project.outputPath);
+}
+
+/** Returns the name of the assembly or its app host. */
+function getAssemblyName(filePath: string): string {
+    return path
+        .basename(filePath)
+        .replace(/\.(dll|exe)$/i, '')
+        .toLowerCase();
+}
+
+/** Returns the absolute path, or undefined if it uses other variables than ${workspaceFolder}. */
+function resolveWorkspaceFolder(filePath: string, workspaceFolderPath: string): string | undefined {
+    const resolved = filePath.split(WorkspaceFolderToken).join(workspaceFolderPath);
+    return resolved.includes('${') ? undefined : path.resolve(workspaceFolderPath, resolved);
+}
+
+function findLaunchedProject(
+    projects: ProjectDebugInformation[],
+    program: string,
+    cwd: string | undefined
+): ProjectDebugInformation | undefined {
+    const projectInCwd = projects.find((p) => path.dirname(path.resolve(p.projectPath)) === cwd);
+    if (projectInCwd !== undefined) {
+        return projectInCwd;
+    }
+
+    // The program is usually in the bin folder of the project; take the innermost project containing it.
+    return projects
+        .filter((p) => program.startsWith(path.dirname(path.resolve(p.projectPath)) + path.sep))
+        .sort((a, b) => b.projectPath.length - a.projectPath.length)[0];
+}
+
+/**
+ * Reports launch.json configurations whose program path went stale as warnings, with a quick fix updating them.
+ * Checked whenever the projects are loaded and when launch.json is opened or edited.
+ */
+export class LaunchJsonDriftService implements vscode.CodeActionProvider, vscode.Disposable {
+    private readonly _disposables: vscode.Disposable[] = [];
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('dotnet-launch-json');
+
+    /** The projects of each workspace folder (keyed by folder uri) as of the last refresh. */
+    private readonly _projects = new Map<string, ProjectDebugInformation[]>();
+
+    /** The stale configurations of each launch.json file (keyed by file uri), matching the reported diagnostics. */
+    private readonly _staleProgramPaths = new Map<string, StaleProgramPath[]>();
+
+    constructor(private readonly _workspaceInformationProvider: IWorkspaceDebugInformationProvider) {
+        this._disposables.push(
+            this._diagnostics,
+            vscode.languages.registerCodeActionsProvider({ pattern: '**/.vscode/launch.json' }, this, {
+                providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
+            }),
+            vscode.workspace.onDidOpenTextDocument((document) => this.checkDocument(document)),
+            vscode.workspace.onDidChangeTextDocument((e) => this.checkDocument(e.document)),
+            vscode.workspace.onDidChangeWorkspaceFolders(async () => this.refresh())
+        );
+    }
+
+    public dispose() {
+        this._disposables.forEach((d) => d.dispose());
+    }
+
+    /** Gets the projects of every workspace folder again and checks their launch.json files. */
+    public async refresh(): Promise<void> {
+        this._projects.clear();
+        this._staleProgramPaths.clear();
+        this._diagnostics.clear();
+
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            const projects = await this._workspaceInformationProvider.getWorkspaceDebugInformation(workspaceFolder.uri);
+            if (projects === undefined || projects.length === 0) {
+                continue;
+            }
+
+            this._projects.set(workspaceFolder.uri.toString(), projects);
+
+            const launchJsonUri = vscode.Uri.joinPath(workspaceFolder.uri, '.vscode', 'launch.json');
+            const openDocument = vscode.workspace.textDocuments.find(
+                (d) => d.uri.toString() === launchJsonUri.toString()
+            );
+            if (openDocument !== undefined) {
+                this.checkDocument(openDocument);
+            } else if (fs.existsSync(launchJsonUri.fsPath)) {
+                const text = fs.readFileSync(launchJsonUri.fsPath, 'utf8');
+                this.check(launchJsonUri, text, (offset) => offsetToPosition(text, offset));
+            }
+        }
+    }
+
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const staleProgramPaths = this._staleProgramPaths.get(document.uri.toString()) ?? [];
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== DiagnosticSource) {
+                continue;
+            }
+
+            const stale = staleProgramPaths.find((s) => document.offsetAt(diagnostic.range.start) === s.offset);
+            if (stale === undefined) {
+                continue;
+            }
+
+            const text = document.getText();
+            const edit = new vscode.WorkspaceEdit();
+            edit.replace(
+                document.uri,
+                new vscode.Range(document.positionAt(0), document.positionAt(text.length)),
+                updateStaleProgramPath(text, stale, getFormattingOptions())
+            );
+
+            const action = new vscode.CodeAction(
+                vscode.l10n.t("Update the program path of '{0}'", stale.configuration.name),
+                vscode.CodeActionKind.QuickFix
+            );
+            action.diagnostics = [diagnostic];
+            action.edit = edit;
+            action.isPreferred = true;
+            actions.push(action);
+        }
+
+        return actions;
+    }
+
+    private checkDocument(document: vscode.TextDocument) {
+        if (path.basename(document.uri.fsPath) === 'launch.json') {
+            this.check(document.uri, document.getText(), (offset) => document.positionAt(offset));
+        }
+    }
+
+    private check(launchJsonUri: vscode.Uri, text: string, positionAt: (offset: number) => vscode.Position) {
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(launchJsonUri);
+        const projects = workspaceFolder ? this._projects.get(workspaceFolder.uri.toString()) : undefined;
+        if (workspaceFolder === undefined || projects === undefined) {
+            return;
+        }
+
+        const staleProgramPaths = findStaleProgramPaths(text, workspaceFolder.uri.fsPath, projects);
+        this._staleProgramPaths.set(launchJsonUri.toString(), staleProgramPaths);
+        this._diagnostics.set(
+            launchJsonUri,
+            staleProgramPaths.map((stale) => {
+                const diagnostic = new vscode.Diagnostic(
+                    new vscode.Range(positionAt(stale.offset), positionAt(stale.offset + stale.length)),
+                    vscode.l10n.t(
+                        "The program is not the output of project '{0}', which is now '{1}'.",
+                        stale.project.projectName,
+                        stale.expectedProgram
+                    ),
+                    vscode.DiagnosticSeverity.Warning
+                );
+                diagnostic.source = DiagnosticSource;
+                return diagnostic;
+            })
+        );
+    }
+}
+
+function offsetToPosition(text: string, offset: number): vscode.Position {
+    const lines = text.substring(0, offset).split(/\r?\n/);
+    return new vscode.Position(lines.length - 1, lines[lines.length - 1].length);
+}
@@ -15,6 +15,9 @@ export interface CommonOptions {
 
     /** The default solution; this has been normalized to a full file path from the workspace folder it was configured in, or the string "disable" if that has been disabled */
     readonly defaultSolution: string;
+
+    /** The default solution configured for each workspace folder, normalized to full file paths. */
+    readonly defaultSolutions: string[];
     readonly unitTestDebuggingOptions: object;
     readonly runSettingsPath: string;
     readonly organizeImportsOnFormat: boolean;
@@ -81,6 +84,8 @@ export interface LanguageServerOptions {
     readonly suppressLspErrorToasts: boolean;
     readonly suppressMiscellaneousFilesToasts: boolean;
     readonly useServerGC: boolean;
+    readonly automaticRestorePolicy: string;
+    readonly eventPipeProviders: string[];
 }
 
 export interface RazorOptions {
@@ -151,6 +156,24 @@ class CommonOptionsImpl implements CommonOptions {
         return defaultSolution;
     }
 
+    public get defaultSolutions() {
+        const defaultSolutions = new Set<string>();
+        for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+            const workspaceFolderConfig = vscode.workspace.getConfiguration(undefined, workspaceFolder.uri);
+            const defaultSolution = readOptionFromConfig<string>(
+                workspaceFolderConfig,
+                'dotnet.defaultSolution',
+                '',
+                'omnisharp.defaultLaunchSolution'
+            );
+            if (defaultSolution !== '' && defaultSolution !== 'disable') {
+                defaultSolutions.add(path.resolve(workspaceFolder.uri.fsPath, defaultSolution));
+            }
+        }
+
+        return [...defaultSolutions];
+    }
+
     public get unitTestDebuggingOptions() {
         return readOption<object>('dotnet.unitTestDebuggingOptions', {}, 'csharp.unitTestDebuggingOptions');
     }
@@ -414,6 +437,14 @@ class LanguageServerOptionsImpl implements LanguageServerOptions {
     public get useServerGC() {
         return readOption<boolean>('dotnet.server.useServerGC', true);
     }
+    public get automaticRestorePolicy() {
+        return readOption<string>('dotnet.projects.automaticRestorePolicy', 'always');
+    }
+    public get eventPipeProviders() {
+        return readOption<string[]>('dotnet.server.eventPipeProviders', [
+            'Microsoft-Windows-DotNETRuntime:0x1F000080018:5',
+        ]);
+    }
 }
 
 class RazorOptionsImpl implements RazorOptions {
@@ -116,14 +116,16 @@ async function getMonoIfPlatformValid(monoResolver: IHostExecutableResolver): Pr
 
 function getLogInfo(useOmnisharp: boolean): string {
     if (useOmnisharp) {
-        return `### OmniSharp log ###
+        return `<!-- A diagnostic bundle with the logs can be exported by running the \`CSharp: Export Diagnostic Bundle\` command. -->
+
+### OmniSharp log ###
 <details>Post the output from Output-->OmniSharp log here</details>
         
 ### C# log ###
 <details>Post the output from Output-->C# here</details>`;
     } else {
         return `<!--
-If you can, it would be the most helpful to zip up and attach the entire extensions log folder.  The folder can be opened by running the \`workbench.action.openExtensionLogsFolder\` command.
+If you can, it would be the most helpful to attach a diagnostic bundle, which collects the logs, settings and \`dotnet --info\` output.  The bundle can be exported by running the \`CSharp: Export Diagnostic Bundle\` command.
 
 Additionally, if you can reproduce the issue reliably, set the \`C#\` output window log level to 'Trace' re-run the scenario to get more detailed logs.
 -->
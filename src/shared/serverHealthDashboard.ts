@@ -0,0 +1,193 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as vscode from 'vscode';
+import { ServerHealthMonitor } from './serverHealthMonitor';
+import { showErrorMessage } from './observers/utils/showMessage';
+
+/** How often the dashboard is refreshed, in milliseconds. */
+const RefreshInterval = 1000;
+
+export function registerServerHealthDashboard(context: vscode.ExtensionContext, monitor: ServerHealthMonitor) {
+    const dashboard = new ServerHealthDashboard(monitor);
+    context.subscriptions.push(dashboard);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('dotnet.server.showHealthDashboard', () => dashboard.show())
+    );
+}
+
+/**
+ * A webview showing what the language server is doing: the requests in flight, the latency of each method, the
+ * depth of the request queues and the memory used by the server process.
+ */
+class ServerHealthDashboard implements vscode.Disposable {
+    public static readonly viewType = 'dotnetServerHealth';
+
+    private _panel: vscode.WebviewPanel | undefined;
+    private _refreshTimer: NodeJS.Timeout | undefined;
+
+    constructor(private readonly _monitor: ServerHealthMonitor) {}
+
+    public show() {
+        if (this._panel) {
+            this._panel.reveal();
+            return;
+        }
+
+        this._panel = vscode.window.createWebviewPanel(
+            ServerHealthDashboard.viewType,
+            vscode.l10n.t('{0} Health', this._monitor.serverName),
+            vscode.ViewColumn.Active,
+            {
+                enableScripts: true,
+                // Disallow any remote sources
+                localResourceRoots: [],
+            }
+        );
+        this._panel.webview.html = this.getHtml();
+        this._panel.webview.onDidReceiveMessage(async (message) => {
+            if (message.command === 'export') {
+                await this.export();
+            }
+        });
+        this._panel.onDidDispose(() => {
+            clearInterval(this._refreshTimer);
+            this._refreshTimer = undefined;
+            this._panel = undefined;
+        });
+
+        this._refreshTimer = setInterval(async () => this.refresh(), RefreshInterval);
+        void this.refresh();
+    }
+
+    public dispose() {
+        this._panel?.dispose();
+    }
+
+    private async refresh() {
+        const snapshot = await this._monitor.snapshot();
+        await this._panel?.webview.postMessage({
+            command: 'update',
+            snapshot,
+            hasRequests: this._monitor.hasRequests,
+        });
+    }
+
+    private async export() {
+        const uri = await vscode.window.showSaveDialog({
+            filters: { JSON: ['json'] },
+            saveLabel: vscode.l10n.t('Export'),
+        });
+        if (!uri) {
+            return;
+        }
+
+        try {
+            const snapshot = await this._monitor.snapshot();
+            await fs.promises.writeFile(uri.fsPath, JSON.stringify(snapshot, undefined, 4));
+        } catch (e) {
+            showErrorMessage(vscode, vscode.l10n.t('Failed to export the server health: {0}', `${e}`));
+        }
+    }
+
+    private getHtml(): string {
+        const nonce = crypto.randomBytes(16).toString('base64');
+        const labels = {
+            process: vscode.l10n.t('Process'),
+            memory: vscode.l10n.t('Memory'),
+            notRunning: vscode.l10n.t('Not running'),
+            unknown: vscode.l10n.t('Unknown'),
+            inFlight: vscode.l10n.t('Requests in flight'),
+            queues: vscode.l10n.t('Request queues'),
+            methods: vscode.l10n.t('Latency by method (ms)'),
+            method: vscode.l10n.t('Method'),
+            id: vscode.l10n.t('Id'),
+            duration: vscode.l10n.t('Duration (ms)'),
+            queue: vscode.l10n.t('Queue'),
+            depth: vscode.l10n.t('Depth'),
+            completed: vscode.l10n.t('Completed'),
+            failed: vscode.l10n.t('Failed'),
+            cancelled: vscode.l10n.t('Cancelled'),
+            none: vscode.l10n.t('None'),
+            noRequests: vscode.l10n.t(
+                'No requests seen yet. For the Roslyn server, requests are read from the LSP trace: set the log level of the C# output to Trace to collect them.'
+            ),
+        };
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+        table { border-collapse: collapse; margin-bottom: 1.5em; }
+        th, td { text-align: left; padding: 2px 12px 2px 0; }
+        th { border-bottom: 1px solid var(--vscode-panel-border); }
+        td.number { text-align: right; }
+        button {
+            color: var(--vscode-button-foreground);
+            background: var(--vscode-button-background);
+            border: none;
+            padding: 4px 12px;
+            cursor: pointer;
+        }
+        button:hover { background: var(--vscode-button-hoverBackground); }
+        .hint { color: var(--vscode-descriptionForeground); }
+    </style>
+</head>
+<body>
+    <button id="export">${vscode.l10n.t('Export to JSON')}</button>
+    <div id="content"></div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const labels = ${JSON.stringify(labels)};
+        document.getElementById('export').addEventListener('click', () => vscode.postMessage({ command: 'export' }));
+
+        function escape(value) {
+            return String(value).replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+        }
+
+        function table(title, headers, rows) {
+            const head = headers.map((h) => '<th>' + escape(h) + '</th>').join('');
+            const body = rows.length === 0
+                ? '<tr><td colspan="' + headers.length + '">' + escape(labels.none) + '</td></tr>'
+                : rows.map((r) => '<tr>' + r.map((c) => typeof c === 'number'
+                    ? '<td class="number">' + c + '</td>'
+                    : '<td>' + escape(c) + '</td>').join('') + '</tr>').join('');
+            return '<h3>' + escape(title) + '</h3><table><tr>' + head + '</tr>' + body + '</table>';
+        }
+
+        window.addEventListener('message', (event) => {
+            if (event.data.command !== 'update') {
+                return;
+            }
+
+            const snapshot = event.data.snapshot;
+            const memory = snapshot.memory === undefined ? labels.unknown : Math.round(snapshot.memory / (1024 * 1024)) + ' MB';
+            let html = '<h2>' + escape(snapshot.server) + '</h2>';
+            html += '<p>' + escape(labels.process) + ': ' + escape(snapshot.processId ?? labels.notRunning)
+                + ' &mdash; ' + escape(labels.memory) + ': ' + escape(memory) + '</p>';
+            if (!event.data.hasRequests) {
+                html += '<p class="hint">' + escape(labels.noRequests) + '</p>';
+            }
+            html += table(labels.inFlight, [labels.method, labels.id, labels.duration],
+                snapshot.inFlight.map((r) => [r.method, String(r.id), r.durationMs]));
+            if (snapshot.queues.length > 0) {
+                html += table(labels.queues, [labels.queue, labels.depth], snapshot.queues.map((q) => [q.name, q.depth]));
+            }
+            html += table(labels.methods,
+                [labels.method, 'p50', 'p90', 'p99', 'max', labels.completed, labels.failed, labels.cancelled],
+                snapshot.methods.map((m) => [m.method, m.p50, m.p90, m.p99, m.max, m.completed, m.failed, m.cancelled]));
+            document.getElementById('content').innerHTML = html;
+        });
+    </script>
+</body>
+</html>`;
+    }
+}
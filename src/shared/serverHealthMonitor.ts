@@ -0,0 +1,165 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import pidusage from 'pidusage';
+
+/** The number of latencies kept for each method to compute its percentiles. */
+const MaxLatencySamples = 500;
+
+export type RequestOutcome = 'succeeded' | 'failed' | 'cancelled';
+
+export interface MethodStatistics {
+    method: string;
+    completed: number;
+    failed: number;
+    cancelled: number;
+    p50: number;
+    p90: number;
+    p99: number;
+    max: number;
+}
+
+export interface ServerHealthSnapshot {
+    server: string;
+    time: string;
+    processId: number | undefined;
+
+    /** The memory used by the server process, in bytes, if it could be measured. */
+    memory: number | undefined;
+    inFlight: { id: number | string; method: string; durationMs: number }[];
+    methods: MethodStatistics[];
+    queues: { name: string; depth: number }[];
+}
+
+interface MethodSamples {
+    latencies: number[];
+    completed: number;
+    failed: number;
+    cancelled: number;
+}
+
+/**
+ * Collects the requests sent to a language server (in flight, latencies, cancellations) and the depth of its request
+ * queues.  Fed by the LSP trace for Roslyn and by the request queue events for OmniSharp.
+ */
+export class ServerHealthMonitor {
+    private readonly _inFlight = new Map<number | string, { method: string; start: number }>();
+    private readonly _methods = new Map<string, MethodSamples>();
+    private readonly _queues = new Map<string, number>();
+    private _processId: number | undefined;
+
+    constructor(public readonly serverName: string) {}
+
+    /** Whether any request was seen, which needs tracing for Roslyn. */
+    public get hasRequests(): boolean {
+        return this._inFlight.size > 0 || this._methods.size > 0;
+    }
+
+    /**
+     * Sets the server process, when it starts or stops (with no process id).
+     */
+    public setProcess(processId: number | undefined) {
+        this._processId = processId;
+        // Requests in flight and queued are lost with the previous process.
+        this._inFlight.clear();
+        this._queues.clear();
+    }
+
+    public requestStarted(id: number | string, method: string, time = Date.now()) {
+        this._inFlight.set(id, { method, start: time });
+    }
+
+    /**
+     * Records the completion of a request.
+     * @param durationMs The duration of the request, if known more precisely than from the time it was started.
+     */
+    public requestCompleted(id: number | string, outcome: RequestOutcome, time = Date.now(), durationMs?: number) {
+        const request = this._inFlight.get(id);
+        if (request === undefined) {
+            return;
+        }
+
+        this._inFlight.delete(id);
+        let samples = this._methods.get(request.method);
+        if (samples === undefined) {
+            samples = { latencies: [], completed: 0, failed: 0, cancelled: 0 };
+            this._methods.set(request.method, samples);
+        }
+
+        if (outcome === 'cancelled') {
+            // The latency of a cancelled request says little about the server, so leave it out of the percentiles.
+            samples.cancelled++;
+            return;
+        }
+
+        if (outcome === 'failed') {
+            samples.failed++;
+        } else {
+            samples.completed++;
+        }
+
+        samples.latencies.push(durationMs ?? time - request.start);
+        if (samples.latencies.length > MaxLatencySamples) {
+            samples.latencies.shift();
+        }
+    }
+
+    public changeQueueDepth(queue: string, delta: number) {
+        this._queues.set(queue, Math.max((this._queues.get(queue) ?? 0) + delta, 0));
+    }
+
+    public async snapshot(time = Date.now()): Promise<ServerHealthSnapshot> {
+        return {
+            server: this.serverName,
+            time: new Date(time).toISOString(),
+            processId: this._processId,
+            memory: await this.getMemoryUsage(),
+            inFlight: [...this._inFlight.entries()]
+                .map(([id, r]) => ({ id, method: r.method, durationMs: time - r.start }))
+                .sort((a, b) => b.durationMs - a.durationMs),
+            methods: [...this._methods.entries()]
+                .map(([method, s]) => {
+                    const sorted = [...s.latencies].sort((a, b) => a - b);
+                    return {
+                        method,
+                        completed: s.completed,
+                        failed: s.failed,
+                        cancelled: s.cancelled,
+                        p50: percentile(sorted, 50),
+                        p90: percentile(sorted, 90),
+                        p99: percentile(sorted, 99),
+                        max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+                    };
+                })
+                .sort((a, b) => b.p90 - a.p90),
+            queues: [...this._queues.entries()].map(([name, depth]) => ({ name, depth })),
+        };
+    }
+
+    private async getMemoryUsage(): Promise<number | undefined> {
+        if (this._processId === undefined) {
+            return undefined;
+        }
+
+        try {
+            // The resident set size of the process, or its working set on Windows.
+            return (await pidusage(this._processId)).memory;
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Returns the percentile of sorted values using the nearest-rank method, or 0 when there are none.
+ */
+export function percentile(sortedValues: number[], p: number): number {
+    if (sortedValues.length === 0) {
+        return 0;
+    }
+
+    const rank = Math.ceil((p / 100) * sortedValues.length);
+    return sortedValues[Math.min(Math.max(rank, 1), sortedValues.length) - 1];
+}
@@ -0,0 +1,116 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { tolerantParse } from '../../json';
+
+/** The pattern of the message ASP.NET Core writes once it is listening, used to launch the browser. */
+const ServerReadyPattern = '\\bNow listening on:\\s+(https?://\\S+)';
+
+/**
+ * A profile of a launchSettings.json file.  Only the settings that apply when the project is run with `dotnet run`
+ * are described.
+ */
+export interface LaunchProfile {
+    name: string;
+    commandName?: string;
+    commandLineArgs?: string;
+    environmentVariables?: { [key: string]: string };
+    applicationUrl?: string;
+    workingDirectory?: string;
+    launchBrowser?: boolean;
+    launchUrl?: string;
+}
+
+export function getLaunchSettingsPath(projectPath: string): string {
+    return path.join(path.dirname(projectPath), 'Properties', 'launchSettings.json');
+}
+
+/**
+ * Returns the profiles of the launchSettings.json text that run the project itself, as `dotnet run` does.  Profiles
+ * for other commands, like IIS Express, are left out.
+ */
+export function parseLaunchProfiles(text: string): LaunchProfile[] {
+    const settings = tolerantParse(text);
+    const profiles = settings?.profiles;
+    if (typeof profiles !== 'object' || profiles === null) {
+        return [];
+    }
+
+    return Object.entries(profiles)
+        .filter(
+            ([, profile]) =>
+                typeof profile === 'object' && profile !== null && (profile as LaunchProfile).commandName === 'Project'
+        )
+        .map(([name, profile]) => ({ ...(profile as LaunchProfile), name }));
+}
+
+/**
+ * Reads the launch profiles of the project's Properties/launchSettings.json file, returning none if it doesn't exist
+ * or can't be parsed.
+ */
+export async function getLaunchProfiles(projectPath: string): Promise<LaunchProfile[]> {
+    try {
+        return parseLaunchProfiles(await fs.promises.readFile(getLaunchSettingsPath(projectPath), 'utf8'));
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Applies a launch profile to a coreclr launch configuration the same way `dotnet run` applies it to the process.
+ * @param configuration The configuration to update.
+ * @param profile The launch profile.
+ * @param projectPath The project the profile belongs to, which relative working directories are resolved against.
+ */
+export function applyLaunchProfile(
+    configuration: vscode.DebugConfiguration,
+    profile: LaunchProfile,
+    projectPath: string
+): vscode.DebugConfiguration {
+    if (profile.commandLineArgs !== undefined) {
+        // The debugger accepts the arguments as a single string, which it passes to the process as is.
+        configuration.args = profile.commandLineArgs;
+    }
+
+    if (profile.workingDirectory) {
+        configuration.cwd = path.resolve(path.dirname(projectPath), profile.workingDirectory);
+    }
+
+    const env: { [key: string]: string } = { ...configuration.env, ...profile.environmentVariables };
+    if (profile.applicationUrl && env.ASPNETCORE_URLS === undefined) {
+        env.ASPNETCORE_URLS = profile.applicationUrl;
+    }
+    if (Object.keys(env).length > 0) {
+        configuration.env = env;
+    }
+
+    if (profile.launchBrowser === true) {
+        configuration.serverReadyAction = {
+            action: 'openExternally',
+            pattern: ServerReadyPattern,
+            uriFormat: getBrowserUriFormat(profile.launchUrl),
+        };
+    } else if (profile.launchBrowser === false) {
+        delete configuration.serverReadyAction;
+    }
+
+    return configuration;
+}
+
+/** Returns the uri to open in the browser, where `%s` is replaced with the url the server listens on. */
+function getBrowserUriFormat(launchUrl: string | undefined): string {
+    if (!launchUrl) {
+        return '%s';
+    }
+
+    if (/^https?:\/\//i.test(launchUrl)) {
+        return launchUrl;
+    }
+
+    return `%s/${launchUrl.replace(/^\//, '')}`;
+}
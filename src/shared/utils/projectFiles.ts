@@ -0,0 +1,183 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+/**
+ * Returns the full path normalized the way VS Code normalizes the paths of uris (with a lower case drive letter on
+ * Windows), so that paths reported by the server or read from project and solution files compare equal to the paths of
+ * documents.
+ */
+export function normalizeFilePath(filePath: string): string {
+    return vscode.Uri.file(path.resolve(filePath)).fsPath;
+}
+
+export function isProjectFile(filePath: string): boolean {
+    return filePath.endsWith('.csproj') || filePath.endsWith('.vbproj');
+}
+
+/**
+ * Finds the project file in the closest directory containing the given file.
+ * @param cache Optional cache of the project file found for each directory, used when looking up many files.
+ */
+export function findContainingProjectFile(
+    filePath: string,
+    cache?: Map<string, string | undefined>
+): string | undefined {
+    const directory = path.dirname(filePath);
+    if (cache?.has(directory)) {
+        return cache.get(directory);
+    }
+
+    let projectFile: string | undefined = undefined;
+    try {
+        const entry = fs.readdirSync(directory).find((f) => isProjectFile(f));
+        if (entry) {
+            projectFile = path.join(directory, entry);
+        }
+    } catch {
+        // Ignore directories we can't read.
+    }
+
+    if (projectFile === undefined && path.dirname(directory) !== directory) {
+        projectFile = findContainingProjectFile(directory, cache);
+    }
+
+    cache?.set(directory, projectFile);
+    return projectFile;
+}
+
+export interface PackageReference {
+    id: string;
+    version: string | undefined;
+}
+
+/**
+ * Returns the project files referenced by the project, directly or transitively.
+ */
+export function getProjectReferences(projectFile: string, references = new Set<string>()): Set<string> {
+    let text: string;
+    try {
+        text = fs.readFileSync(projectFile, 'utf8');
+    } catch {
+        return references;
+    }
+
+    for (const reference of parseProjectReferences(projectFile, text)) {
+        if (!references.has(reference)) {
+            references.add(reference);
+            getProjectReferences(reference, references);
+        }
+    }
+
+    return references;
+}
+
+/**
+ * Orders the projects so that every project comes after the projects it references, keeping the given order
+ * otherwise.  Used to start projects that depend on each other, like a frontend calling an API it references.
+ * @param projectFiles The projects to order.
+ * @param getReferences Returns the projects a project references, directly or transitively.
+ */
+export function sortProjectsByDependencies(
+    projectFiles: string[],
+    getReferences: (projectFile: string) => Set<string> = (projectFile) => getProjectReferences(projectFile)
+): string[] {
+    const sorted: string[] = [];
+    const remaining = [...projectFiles];
+    const references = new Map(projectFiles.map((p) => [p, getReferences(p)]));
+    while (remaining.length > 0) {
+        // Take the first project that doesn't reference any project still to be started; with a reference cycle,
+        // which MSBuild doesn't allow anyway, fall back to the given order.
+        const index = Math.max(
+            0,
+            remaining.findIndex((p) => !remaining.some((other) => other !== p && references.get(p)!.has(other)))
+        );
+        sorted.push(...remaining.splice(index, 1));
+    }
+
+    return sorted;
+}
+
+/**
+ * Returns the full paths of the projects directly referenced in the text of a project file.
+ */
+export function parseProjectReferences(projectFile: string, text: string): string[] {
+    return [...text.matchAll(/<ProjectReference\s+Include\s*=\s*"([^"]+)"/g)].map((match) =>
+        path.resolve(path.dirname(projectFile), match[1].replace(/\\/g, path.sep))
+    );
+}
+
+/**
+ * Returns the packages referenced in the text of a project file.  The version may be given as an attribute or a child
+ * element, or not at all when versions are managed centrally.
+ */
+export function parsePackageReferences(text: string): PackageReference[] {
+    const references: PackageReference[] = [];
+    for (const match of text.matchAll(/<PackageReference\b([^>]*?)(?:\/>|>([\s\S]*?)<\/PackageReference>)/g)) {
+        const id = /\bInclude\s*=\s*"([^"]+)"/.exec(match[1])?.[1];
+        if (id === undefined) {
+            continue;
+        }
+
+        const version =
+            /\bVersion\s*=\s*"([^"]*)"/.exec(match[1])?.[1] ??
+            (match[2] !== undefined ? /<Version>\s*([^<]*?)\s*<\/Version>/.exec(match[2])?.[1] : undefined);
+        references.push({ id, version });
+    }
+
+    return references;
+}
+
+/** Matches the solution files the language server can open: solutions, XML solutions and solution filters. */
+export const SolutionFilesGlob = '**/*.{sln,slnx,slnf}';
+
+/** Matches the solutions opened by default, leaving out solution filters. */
+export const SolutionsGlob = '**/*.{sln,slnx}';
+
+/** Matches the solution filters, which are only opened by default when the workspace has no solution. */
+export const SolutionFiltersGlob = '**/*.slnf';
+
+/** Matches the project files opened when the workspace has no solution. */
+export const ProjectFilesGlob = '**/*.{csproj,vbproj}';
+
+/**
+ * Returns the full paths of the projects in the text of a solution file, which may be a solution (.sln), an XML
+ * solution (.slnx) or a solution filter (.slnf).
+ */
+export function parseSolutionProjects(solutionFile: string, solutionText: string): string[] {
+    const resolve = (directory: string, projectPath: string) =>
+        path.resolve(directory, projectPath.replace(/\\/g, path.sep));
+
+    switch (path.extname(solutionFile).toLowerCase()) {
+        case '.slnx':
+            return [...solutionText.matchAll(/<Project\b[^>]*?\bPath\s*=\s*"([^"]+)"/g)].map((match) =>
+                resolve(path.dirname(solutionFile), match[1])
+            );
+        case '.slnf': {
+            // The projects of a solution filter are relative to the solution it filters.
+            let filter: { solution?: { path?: string; projects?: string[] } };
+            try {
+                filter = JSON.parse(solutionText);
+            } catch {
+                return [];
+            }
+
+            const solutionPath = filter.solution?.path;
+            if (solutionPath === undefined) {
+                return [];
+            }
+
+            const solutionDirectory = path.dirname(resolve(path.dirname(solutionFile), solutionPath));
+            return (filter.solution?.projects ?? []).map((p) => resolve(solutionDirectory, p));
+        }
+        default:
+            return [...solutionText.matchAll(/^Project\("[^"]*"\)\s*=\s*"[^"]*"\s*,\s*"([^"]+\.\w+proj)"/gim)].map(
+                (match) => resolve(path.dirname(solutionFile), match[1])
+            );
+    }
+}
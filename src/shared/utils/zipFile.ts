@@ -0,0 +1,49 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import archiver from 'archiver';
+import * as fs from 'fs';
+import { Readable } from 'stream';
+
+/** An entry of a zip file, with its content in memory, in a file on disk or read from a stream. */
+export type ZipEntry = {
+    /** The path of the entry in the zip file, using forward slashes. */
+    name: string;
+} & ({ data: Buffer | string } | { filePath: string } | { stream: Readable });
+
+/**
+ * Writes the entries to a zip file, compressed with deflate.  Entries read from disk or from streams are streamed into
+ * the zip file, so that large files like traces are never held in memory.
+ */
+export async function writeZipFile(zipPath: string, entries: ZipEntry[], date = new Date()): Promise<void> {
+    const output = fs.createWriteStream(zipPath);
+    const archive = archiver('zip');
+    const written = new Promise<void>((resolve, reject) => {
+        output.on('close', resolve);
+        output.on('error', reject);
+        archive.on('error', reject);
+        // Warnings are raised for files that can't be read, which would be missing from the zip file.
+        archive.on('warning', reject);
+    });
+
+    archive.pipe(output);
+    for (const entry of entries) {
+        const name = entry.name.replace(/\\/g, '/');
+        if ('filePath' in entry) {
+            archive.file(entry.filePath, { name, date });
+        } else if ('stream' in entry) {
+            archive.append(entry.stream, { name, date });
+        } else {
+            archive.append(entry.data, { name, date });
+        }
+    }
+
+    try {
+        await Promise.all([archive.finalize(), written]);
+    } catch (e) {
+        output.destroy();
+        throw e;
+    }
+}
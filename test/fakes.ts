@@ -3,6 +3,7 @@
  *  Licensed under the MIT License. See License.txt in the project root for license information.
  *--------------------------------------------------------------------------------------------*/
 
+import type { Memento } from 'vscode';
 import * as vscode from '../src/vscodeAdapter';
 import * as protocol from '../src/omnisharp/protocol';
 import { ITelemetryReporter } from '../src/shared/telemetryReporter';
@@ -347,3 +348,20 @@ export async function updateConfig(
     const configEntry = section ? `${section}.${config}` : config;
     await workspaceConfig.update(configEntry, value);
 }
+
+/**
+ * Returns an in-memory workspace or global state.  Values round trip through JSON like they do in the real state.
+ */
+export function getFakeMemento(): Memento {
+    const values = new Map<string, unknown>();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) => {
+            const value = values.get(key);
+            return value === undefined ? defaultValue : (JSON.parse(JSON.stringify(value)) as T);
+        },
+        update: async (key: string, value: unknown) => {
+            values.set(key, value);
+        },
+    };
+}
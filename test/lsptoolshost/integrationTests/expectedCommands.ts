@@ -6,11 +6,14 @@
 // Commands used by all activation contexts of the extension.
 const CommonCommands = [
     'dotnet.generateAssets',
+    'dotnet.generateAssets.compound',
     'csharp.listProcess',
     'csharp.listRemoteProcess',
     'csharp.listRemoteDockerProcess',
     'csharp.attachToProcess',
     'csharp.reportIssue',
+    'csharp.exportDiagnosticBundle',
+    'dotnet.server.showHealthDashboard',
 ];
 
 // Commands used by both O# and Roslyn standalone activation contexts.
@@ -19,6 +22,9 @@ const CommonStandaloneCommands = [
     'dotnet.restore.all',
     'dotnet.test.runTestsInContext',
     'dotnet.test.debugTestsInContext',
+    'dotnet.test.rerunLastRun',
+    'dotnet.test.rerunFailedTests',
+    'dotnet.test.debugLastFailedTest',
 ];
 
 // Commands used only in an O# activation context.
@@ -36,10 +42,36 @@ const OmniSharpOnlyCommands = [
 export const OmniSharpCommands = [...OmniSharpOnlyCommands, ...CommonCommands, ...CommonStandaloneCommands];
 
 // Commands used only in a Roslyn activation context.
-const RoslynCommonCommands = ['dotnet.restartServer'];
+const RoslynCommonCommands = [
+    'dotnet.restartServer',
+    'csharp.changeProjectContext',
+    'dotnet.server.recordPerformanceTrace',
+    'dotnet.sourceGeneratedDocuments.refresh',
+    'dotnet.sourceGeneratedDocuments.compareWithPrevious',
+    'dotnet.sourceGeneratedDocuments.saveToDisk',
+    'dotnet.buildDiagnostics.changeFilter',
+    'dotnet.buildDiagnostics.selectBuild',
+    'dotnet.buildDiagnostics.clearHistory',
+];
 
 // Commands used only in a Roslyn standalone activation context.
-const RoslynStandaloneOnlyCommands = ['dotnet.openSolution'];
+const RoslynStandaloneOnlyCommands = [
+    'dotnet.openSolution',
+    'dotnet.restore.showStatus',
+    'dotnet.restore.showAutomaticRestoreHistory',
+    'dotnet.test.runTestsInContextWithCoverage',
+    'dotnet.test.clearCoverage',
+    'dotnet.test.toggleContinuousTesting',
+    'dotnet.test.selectRunSettings',
+    'dotnet.test.runTestsInProject',
+    'dotnet.solutionExplorer.refresh',
+    'dotnet.solutionExplorer.restoreProject',
+    'dotnet.solutionExplorer.runTests',
+    'dotnet.solutionExplorer.openProjectFile',
+    'dotnet.solutionExplorer.setStartupProject',
+    'csharp.hotReload.apply',
+    'csharp.hotReload.restart',
+];
 
 // All commands used in a Roslyn standalone activation context.
 export const RoslynStandaloneCommands = [
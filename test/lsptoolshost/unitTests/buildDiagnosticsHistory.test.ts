@@ -0,0 +1,75 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, test, expect } from '@jest/globals';
+import { getFakeMemento } from '../../fakes';
+import {
+    BuildDiagnostic,
+    BuildDiagnosticsHistory,
+    compareBuilds,
+} from '../../../src/lsptoolshost/buildDiagnosticsHistory';
+
+function diagnostic(code: string, line: number, message = `${code} message`): BuildDiagnostic {
+    return { file: '/src/App/Program.cs', code, severity: 1, message, line, character: 4, buildOnly: false };
+}
+
+describe('compareBuilds', () => {
+    test('marks diagnostics as new, unchanged or fixed', () => {
+        const previous = { time: 0, diagnostics: [diagnostic('CS0168', 10), diagnostic('CA1822', 20)] };
+        const current = { time: 1, diagnostics: [diagnostic('CS0168', 12), diagnostic('CS8618', 30)] };
+
+        expect(compareBuilds(current, previous).map((d) => [d.diagnostic.code, d.diagnostic.line, d.status])).toEqual([
+            ['CS0168', 12, 'unchanged'],
+            ['CS8618', 30, 'new'],
+            ['CA1822', 20, 'fixed'],
+        ]);
+    });
+
+    test('matches repeated diagnostics one to one', () => {
+        const previous = { time: 0, diagnostics: [diagnostic('CS0168', 10)] };
+        const current = { time: 1, diagnostics: [diagnostic('CS0168', 10), diagnostic('CS0168', 11)] };
+
+        expect(compareBuilds(current, previous).map((d) => d.status)).toEqual(['unchanged', 'new']);
+    });
+
+    test('treats every diagnostic of the first build as unchanged', () => {
+        const build = { time: 0, diagnostics: [diagnostic('CS0168', 10)] };
+        expect(compareBuilds(build, undefined).map((d) => d.status)).toEqual(['unchanged']);
+    });
+
+    test('does not compare truncated builds', () => {
+        const previous = { time: 0, diagnostics: [diagnostic('CS0168', 10)], truncated: true };
+        const current = { time: 1, diagnostics: [diagnostic('CS8618', 30)] };
+
+        expect(compareBuilds(current, previous).map((d) => [d.diagnostic.code, d.status])).toEqual([
+            ['CS8618', 'unchanged'],
+        ]);
+    });
+});
+
+describe('BuildDiagnosticsHistory', () => {
+    test('keeps the recent builds until cleared', async () => {
+        const history = new BuildDiagnosticsHistory(getFakeMemento());
+        for (let i = 0; i < 15; i++) {
+            await history.record({ time: i, diagnostics: [diagnostic('CS0168', i)] });
+        }
+
+        expect(history.builds.map((b) => b.time)).toEqual([5, 6, 7, 8, 9, 10, 11, 12, 13, 14]);
+
+        await history.clear();
+        expect(history.builds).toEqual([]);
+    });
+
+    test('marks builds with too many diagnostics as truncated', async () => {
+        const history = new BuildDiagnosticsHistory(getFakeMemento());
+        await history.record({ time: 0, diagnostics: [diagnostic('CS0168', 1)] });
+        await history.record({ time: 1, diagnostics: Array.from({ length: 2001 }, (_, i) => diagnostic('CS0168', i)) });
+
+        expect(history.builds.map((b) => [b.diagnostics.length, b.truncated])).toEqual([
+            [1, undefined],
+            [2000, true],
+        ]);
+    });
+});
@@ -0,0 +1,124 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { describe, test, expect } from '@jest/globals';
+import { mergeCoverage, parseCobertura } from '../../../src/lsptoolshost/coberturaParser';
+import { addCoverageCollector, findXmlErrors } from '../../../src/lsptoolshost/runSettingsParser';
+
+const report = `<?xml version="1.0" encoding="utf-8"?>
+<coverage line-rate="0.75" branch-rate="0.5" version="1.9" timestamp="1700000000">
+  <sources>
+    <source>/other/</source>
+    <source>/src/</source>
+  </sources>
+  <packages>
+    <package name="MyLib" line-rate="0.75" branch-rate="0.5" complexity="2">
+      <classes>
+        <class name="MyLib.Calculator" filename="MyLib/Calculator.cs" line-rate="0.75" branch-rate="0.5" complexity="2">
+          <methods>
+            <method name="Add" signature="(System.Int32,System.Int32)" line-rate="1" branch-rate="1" complexity="1">
+              <lines>
+                <line number="5" hits="3" branch="false" />
+              </lines>
+            </method>
+          </methods>
+          <lines>
+            <line number="5" hits="3" branch="false" />
+            <line number="9" hits="2" branch="true" condition-coverage="50% (1/2)">
+              <conditions>
+                <condition number="0" type="jump" coverage="50%" />
+              </conditions>
+            </line>
+            <line number="10" hits="0" branch="false" />
+          </lines>
+        </class>
+        <class name="MyLib.Calculator/&lt;&gt;c" filename="MyLib/Calculator.cs" line-rate="1" branch-rate="1" complexity="1">
+          <lines>
+            <line number="12" hits="1" branch="false" />
+          </lines>
+        </class>
+      </classes>
+    </package>
+  </packages>
+</coverage>`;
+
+describe('Cobertura parser', () => {
+    test('parses line and branch coverage per file', () => {
+        const filePath = path.join('/src/', 'MyLib/Calculator.cs');
+        const coverage = parseCobertura(report, (p) => p === filePath);
+
+        expect(coverage).toEqual({
+            files: [
+                {
+                    path: filePath,
+                    packageName: 'MyLib',
+                    lines: [
+                        { line: 5, hits: 3 },
+                        { line: 9, hits: 2, branches: { covered: 1, total: 2 } },
+                        { line: 10, hits: 0 },
+                        { line: 12, hits: 1 },
+                    ],
+                },
+            ],
+        });
+    });
+
+    test('merges coverage from several runs', () => {
+        const first = parseCobertura(report, () => false);
+        const second = {
+            files: [{ path: first.files[0].path, packageName: 'MyLib', lines: [{ line: 10, hits: 4 }] }],
+        };
+
+        const merged = mergeCoverage([first, second]);
+
+        expect(merged.files).toHaveLength(1);
+        expect(merged.files[0].lines.find((l) => l.line === 10)).toEqual({ line: 10, hits: 4 });
+        expect(first.files[0].lines.find((l) => l.line === 10)).toEqual({ line: 10, hits: 0 });
+    });
+});
+
+describe('Coverage run settings', () => {
+    test('creates run settings when the user has none', () => {
+        const runSettings = addCoverageCollector(undefined, '/tmp/results');
+
+        expect(findXmlErrors(runSettings)).toEqual([]);
+        expect(runSettings).toContain('<ResultsDirectory>/tmp/results</ResultsDirectory>');
+        expect(runSettings).toContain('<DataCollector friendlyName="XPlat code coverage">');
+    });
+
+    test('adds the collector to existing run settings', () => {
+        const runSettings = addCoverageCollector(
+            `<RunSettings>
+  <RunConfiguration>
+    <ResultsDirectory>./TestResults</ResultsDirectory>
+  </RunConfiguration>
+  <DataCollectionRunSettings>
+    <DataCollectors>
+      <DataCollector friendlyName="blame" />
+    </DataCollectors>
+  </DataCollectionRunSettings>
+</RunSettings>`,
+            '/tmp/a&b'
+        );
+
+        expect(findXmlErrors(runSettings)).toEqual([]);
+        expect(runSettings).toContain('<ResultsDirectory>/tmp/a&amp;b</ResultsDirectory>');
+        expect(runSettings).not.toContain('./TestResults');
+        expect(runSettings.match(/<DataCollectors>/g)).toHaveLength(1);
+        expect(runSettings).toContain('friendlyName="XPlat code coverage"');
+        expect(runSettings).toContain('friendlyName="blame"');
+    });
+
+    test('keeps an existing coverage collector configuration', () => {
+        const existing =
+            '<RunSettings><DataCollectionRunSettings><DataCollectors><DataCollector friendlyName="XPlat Code Coverage"><Configuration><Include>[MyLib]*</Include></Configuration></DataCollector></DataCollectors></DataCollectionRunSettings></RunSettings>';
+
+        const runSettings = addCoverageCollector(existing, '/tmp/results');
+
+        expect(runSettings.match(/DataCollector friendlyName/g)).toHaveLength(1);
+        expect(runSettings).toContain('<Include>[MyLib]*</Include>');
+    });
+});
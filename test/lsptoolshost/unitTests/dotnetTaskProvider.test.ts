@@ -0,0 +1,72 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { describe, test, expect } from '@jest/globals';
+import { getDotnetTaskArguments, getDotnetTaskDefinitions } from '../../../src/shared/dotnetTaskProvider';
+import { ProjectDebugInformation } from '../../../src/shared/IWorkspaceDebugInformationProvider';
+
+const workspaceFolderPath = path.resolve('/workspace');
+
+function project(name: string, isExe: boolean): ProjectDebugInformation {
+    const projectPath = path.join(workspaceFolderPath, 'src', name, `${name}.csproj`);
+    return {
+        projectPath,
+        solutionPath: path.join(workspaceFolderPath, 'App.sln'),
+        outputPath: path.join(path.dirname(projectPath), 'bin', 'Debug', 'net8.0', `${name}.dll`),
+        projectName: name,
+        targetsDotnetCore: true,
+        isExe,
+        isWebProject: false,
+        isBlazorWebAssemblyHosted: false,
+        isBlazorWebAssemblyStandalone: false,
+    };
+}
+
+describe('getDotnetTaskArguments', () => {
+    test('asks MSBuild for output the problem matcher understands', () => {
+        expect(getDotnetTaskArguments('rebuild', 'App.csproj')).toEqual([
+            'build',
+            'App.csproj',
+            '--no-incremental',
+            '/property:GenerateFullPaths=true',
+            '/consoleloggerparameters:NoSummary;ForceNoAlign',
+        ]);
+    });
+
+    test('passes no additional arguments to watch', () => {
+        expect(getDotnetTaskArguments('watch', 'App.csproj')).toEqual(['watch', 'run', '--project', 'App.csproj']);
+        expect(getDotnetTaskArguments('watch', undefined)).toEqual(['watch', 'run']);
+    });
+});
+
+describe('getDotnetTaskDefinitions', () => {
+    test('provides tasks for the solution and each project', () => {
+        const tasks = getDotnetTaskDefinitions(workspaceFolderPath, [project('App', true), project('Lib', false)]);
+
+        expect(tasks.map((t) => t.name)).toEqual([
+            'build: App.sln',
+            'rebuild: App.sln',
+            'clean: App.sln',
+            'test: App.sln',
+            'build: App',
+            'rebuild: App',
+            'clean: App',
+            'test: App',
+            'publish: App',
+            'watch: App',
+            'build: Lib',
+            'rebuild: Lib',
+            'clean: Lib',
+            'test: Lib',
+            'pack: Lib',
+        ]);
+        expect(tasks[4].definition).toEqual({
+            type: 'dotnet',
+            command: 'build',
+            project: '${workspaceFolder}/src/App/App.csproj',
+        });
+    });
+});
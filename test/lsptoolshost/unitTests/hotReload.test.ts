@@ -0,0 +1,63 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { describe, test, expect } from '@jest/globals';
+import { addHotReloadEnvironment, findLaunchedProject } from '../../../src/lsptoolshost/hotReload';
+import { ProjectDebugInformation } from '../../../src/shared/IWorkspaceDebugInformationProvider';
+
+describe('addHotReloadEnvironment', () => {
+    test('lets the runtime of launched processes accept updates', () => {
+        const configuration = addHotReloadEnvironment({
+            name: 'App',
+            type: 'coreclr',
+            request: 'launch',
+            env: { ASPNETCORE_ENVIRONMENT: 'Development' },
+        });
+
+        expect(configuration.env).toEqual({
+            DOTNET_MODIFIABLE_ASSEMBLIES: 'debug',
+            ASPNETCORE_ENVIRONMENT: 'Development',
+        });
+    });
+
+    test('keeps the value set by the configuration', () => {
+        const configuration = addHotReloadEnvironment({
+            name: 'App',
+            type: 'coreclr',
+            request: 'launch',
+            env: { DOTNET_MODIFIABLE_ASSEMBLIES: 'none' },
+        });
+
+        expect(configuration.env).toEqual({ DOTNET_MODIFIABLE_ASSEMBLIES: 'none' });
+    });
+
+    test('leaves attach and run without debugging configurations alone', () => {
+        expect(addHotReloadEnvironment({ name: 'Attach', type: 'coreclr', request: 'attach' }).env).toBeUndefined();
+        expect(
+            addHotReloadEnvironment({ name: 'App', type: 'coreclr', request: 'launch', noDebug: true }).env
+        ).toBeUndefined();
+    });
+});
+
+describe('findLaunchedProject', () => {
+    const project: ProjectDebugInformation = {
+        projectPath: path.resolve('/src/App/App.csproj'),
+        solutionPath: null,
+        outputPath: path.resolve('/src/App/bin/Debug/net8.0/App.dll'),
+        projectName: 'App',
+        targetsDotnetCore: true,
+        isExe: true,
+        isWebProject: false,
+        isBlazorWebAssemblyHosted: false,
+        isBlazorWebAssemblyStandalone: false,
+    };
+
+    test('finds the project whose output is the program', () => {
+        expect(findLaunchedProject([project], path.resolve('/src/App/bin/Debug/net8.0/App.dll'))).toBe(project);
+        expect(findLaunchedProject([project], path.resolve('/tools/Tool.dll'))).toBeUndefined();
+        expect(findLaunchedProject([project], undefined)).toBeUndefined();
+    });
+});
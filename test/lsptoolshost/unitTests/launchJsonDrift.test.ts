@@ -0,0 +1,142 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import { describe, test, expect } from '@jest/globals';
+import { findStaleProgramPaths, updateStaleProgramPath } from '../../../src/shared/launchJsonDrift';
+import { ProjectDebugInformation } from '../../../src/shared/IWorkspaceDebugInformationProvider';
+
+const workspaceFolderPath = path.resolve('/workspace');
+
+function project(name: string, targetFramework: string, folderPath = workspaceFolderPath): ProjectDebugInformation {
+    const projectPath = path.join(folderPath, name, `${name}.csproj`);
+    return {
+        projectPath,
+        solutionPath: null,
+        outputPath: path.join(path.dirname(projectPath), 'bin', 'Debug', targetFramework, `${name}.dll`),
+        projectName: name,
+        targetsDotnetCore: true,
+        isExe: true,
+        isWebProject: false,
+        isBlazorWebAssemblyHosted: false,
+        isBlazorWebAssemblyStandalone: false,
+    };
+}
+
+const launchJson = `{
+    "version": "0.2.0",
+    "configurations": [
+        {
+            // Launches the API.
+            "name": "Api",
+            "type": "coreclr",
+            "request": "launch",
+            "program": "\${workspaceFolder}/Api/bin/Debug/net6.0/Api.dll",
+            "args": ["--verbose"],
+            "cwd": "\${workspaceFolder}/Api"
+        },
+        {
+            "name": "Worker",
+            "type": "coreclr",
+            "request": "launch",
+            "program": "\${workspaceFolder}/Worker/bin/Debug/net8.0/Worker.dll"
+        },
+        {
+            "name": "Custom",
+            "type": "coreclr",
+            "request": "launch",
+            "program": "\${env:TOOLS}/Tool.dll"
+        },
+        {
+            "name": "Attach",
+            "type": "coreclr",
+            "request": "attach"
+        }
+    ]
+}`;
+
+describe('findStaleProgramPaths', () => {
+    test('finds the configurations whose program is no longer the output of their project', () => {
+        const projects = [project('Api', 'net8.0'), project('Worker', 'net8.0')];
+
+        const stale = findStaleProgramPaths(launchJson, workspaceFolderPath, projects);
+
+        expect(stale.map((s) => [s.configuration.name, s.project.projectName, s.expectedProgram])).toEqual([
+            ['Api', 'Api', '${workspaceFolder}/Api/bin/Debug/net8.0/Api.dll'],
+        ]);
+        expect(launchJson.substring(stale[0].offset, stale[0].offset + stale[0].length)).toBe(
+            '"${workspaceFolder}/Api/bin/Debug/net6.0/Api.dll"'
+        );
+    });
+
+    test('finds the project from the program path when the configuration has no working directory', () => {
+        const worker = project('Worker', 'net8.0');
+        const projects = [
+            project('Api', 'net6.0'),
+            { ...worker, outputPath: path.join(path.dirname(worker.outputPath), 'Renamed.dll') },
+        ];
+
+        const stale = findStaleProgramPaths(launchJson, workspaceFolderPath, projects);
+
+        expect(stale.map((s) => [s.configuration.name, s.expectedProgram])).toEqual([
+            ['Worker', '${workspaceFolder}/Worker/bin/Debug/net8.0/Renamed.dll'],
+        ]);
+    });
+
+    test('leaves the Release output of the project alone', () => {
+        const text = launchJsonWithProgram('${workspaceFolder}/Api/bin/Release/net8.0/linux-x64/Api.dll');
+
+        expect(findStaleProgramPaths(text, workspaceFolderPath, [project('Api', 'net8.0')])).toEqual([]);
+    });
+
+    test('leaves an existing publish output of the project alone', async () => {
+        const folderPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'launchJsonDrift-'));
+        try {
+            await fs.promises.mkdir(path.join(folderPath, 'Api', 'publish'), { recursive: true });
+            await fs.promises.writeFile(path.join(folderPath, 'Api', 'publish', 'Api.dll'), '');
+            const projects = [project('Api', 'net8.0', folderPath)];
+
+            const published = launchJsonWithProgram('${workspaceFolder}/Api/publish/Api.dll');
+            expect(findStaleProgramPaths(published, folderPath, projects)).toEqual([]);
+
+            const missing = launchJsonWithProgram('${workspaceFolder}/Api/out/Api.dll');
+            expect(findStaleProgramPaths(missing, folderPath, projects).map((s) => s.expectedProgram)).toEqual([
+                '${workspaceFolder}/Api/bin/Debug/net8.0/Api.dll',
+            ]);
+        } finally {
+            await fs.promises.rm(folderPath, { recursive: true, force: true });
+        }
+    });
+});
+
+function launchJsonWithProgram(program: string): string {
+    return JSON.stringify({
+        version: '0.2.0',
+        configurations: [{ name: 'Api', type: 'coreclr', request: 'launch', program, cwd: '${workspaceFolder}/Api' }],
+    });
+}
+
+describe('updateStaleProgramPath', () => {
+    test('updates only the program path of the stale configuration', () => {
+        const [stale] = findStaleProgramPaths(launchJson, workspaceFolderPath, [project('Api', 'net8.0')]);
+
+        const updated = updateStaleProgramPath(launchJson, stale, { tabSize: 4, insertSpaces: true, eol: '\n' });
+
+        expect(updated).toBe(launchJson.replace('Api/bin/Debug/net6.0/Api.dll', 'Api/bin/Debug/net8.0/Api.dll'));
+        const configurations = jsonc.parse(updated).configurations;
+        expect(configurations[0]).toEqual({
+            name: 'Api',
+            type: 'coreclr',
+            request: 'launch',
+            program: '${workspaceFolder}/Api/bin/Debug/net8.0/Api.dll',
+            args: ['--verbose'],
+            cwd: '${workspaceFolder}/Api',
+        });
+        expect(configurations.slice(1)).toEqual(jsonc.parse(launchJson).configurations.slice(1));
+    });
+});
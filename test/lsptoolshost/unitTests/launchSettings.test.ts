@@ -0,0 +1,85 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { describe, test, expect } from '@jest/globals';
+import { applyLaunchProfile, parseLaunchProfiles } from '../../../src/shared/utils/launchSettings';
+
+const launchSettings = `{
+    // Comments are allowed, as in the templates.
+    "profiles": {
+        "http": {
+            "commandName": "Project",
+            "launchBrowser": true,
+            "launchUrl": "swagger",
+            "applicationUrl": "http://localhost:5000",
+            "environmentVariables": {
+                "ASPNETCORE_ENVIRONMENT": "Development"
+            }
+        },
+        "IIS Express": {
+            "commandName": "IISExpress",
+            "launchBrowser": true
+        },
+        "worker": {
+            "commandName": "Project",
+            "commandLineArgs": "--once \\"some file.txt\\"",
+            "workingDirectory": "data",
+            "launchBrowser": false,
+        }
+    }
+}`;
+
+describe('parseLaunchProfiles', () => {
+    test('returns the profiles that run the project', () => {
+        expect(parseLaunchProfiles(launchSettings).map((p) => p.name)).toEqual(['http', 'worker']);
+    });
+
+    test('returns no profiles for settings without any', () => {
+        expect(parseLaunchProfiles('{}')).toEqual([]);
+    });
+});
+
+describe('applyLaunchProfile', () => {
+    const projectPath = path.resolve('/src/App/App.csproj');
+    const [http, worker] = parseLaunchProfiles(launchSettings);
+
+    test('applies the environment, urls and browser launch of a web profile', () => {
+        const configuration = applyLaunchProfile(
+            { name: 'App', type: 'coreclr', request: 'launch', env: { ASPNETCORE_ENVIRONMENT: 'Production' } },
+            http,
+            projectPath
+        );
+
+        expect(configuration.env).toEqual({
+            ASPNETCORE_ENVIRONMENT: 'Development',
+            ASPNETCORE_URLS: 'http://localhost:5000',
+        });
+        expect(configuration.serverReadyAction).toEqual({
+            action: 'openExternally',
+            pattern: '\\bNow listening on:\\s+(https?://\\S+)',
+            uriFormat: '%s/swagger',
+        });
+    });
+
+    test('applies the arguments and working directory, and turns off the browser launch', () => {
+        const configuration = applyLaunchProfile(
+            {
+                name: 'App',
+                type: 'coreclr',
+                request: 'launch',
+                args: [],
+                serverReadyAction: { action: 'openExternally' },
+            },
+            worker,
+            projectPath
+        );
+
+        expect(configuration.args).toBe('--once "some file.txt"');
+        expect(configuration.cwd).toBe(path.resolve('/src/App/data'));
+        expect(configuration.serverReadyAction).toBeUndefined();
+        expect(configuration.env).toBeUndefined();
+    });
+});
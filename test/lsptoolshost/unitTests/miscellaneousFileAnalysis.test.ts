@@ -0,0 +1,55 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { describe, test, expect } from '@jest/globals';
+import { findProjectExclusion } from '../../../src/lsptoolshost/miscellaneousFileAnalysis';
+
+const projectFile = path.resolve('/src/App/App.csproj');
+
+describe('Miscellaneous file analysis', () => {
+    test('finds the Compile Remove glob that excludes a file', () => {
+        const projectText = `<Project Sdk="Microsoft.NET.Sdk">
+  <ItemGroup>
+    <Compile Remove="Generated\\*.cs;Samples\\**" />
+  </ItemGroup>
+</Project>`;
+
+        expect(
+            findProjectExclusion(projectFile, projectText, path.resolve('/src/App/Samples/Nested/Sample.cs'))
+        ).toEqual({
+            kind: 'compileRemove',
+            pattern: 'Samples\\**',
+            line: 2,
+        });
+        expect(findProjectExclusion(projectFile, projectText, path.resolve('/src/App/Generated/Nested/Code.cs'))).toBe(
+            undefined
+        );
+    });
+
+    test('reports files in the default excluded folders', () => {
+        expect(findProjectExclusion(projectFile, '<Project />', path.resolve('/src/App/obj/Debug/App.cs'))).toEqual({
+            kind: 'defaultItemExcludes',
+            folder: 'obj',
+        });
+    });
+
+    test('reports disabled default compile items unless the file is included explicitly', () => {
+        const projectText = `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup>
+    <EnableDefaultCompileItems>false</EnableDefaultCompileItems>
+  </PropertyGroup>
+  <ItemGroup>
+    <Compile Include="Program.cs" />
+  </ItemGroup>
+</Project>`;
+
+        expect(findProjectExclusion(projectFile, projectText, path.resolve('/src/App/Other.cs'))).toEqual({
+            kind: 'defaultCompileItemsDisabled',
+            line: 2,
+        });
+        expect(findProjectExclusion(projectFile, projectText, path.resolve('/src/App/Program.cs'))).toBe(undefined);
+    });
+});
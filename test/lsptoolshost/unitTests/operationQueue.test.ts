@@ -0,0 +1,87 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, test, expect } from '@jest/globals';
+import { OperationQueue } from '../../../src/lsptoolshost/operationQueue';
+
+function createGate(): { promise: Promise<void>; open: () => void } {
+    let open!: () => void;
+    const promise = new Promise<void>((resolve) => (open = resolve));
+    return { promise, open };
+}
+
+describe('OperationQueue', () => {
+    test('runs operations with the same key one after another', async () => {
+        const queue = new OperationQueue();
+        const events: string[] = [];
+        const gate = createGate();
+
+        const first = queue.enqueue(['a'], async () => {
+            events.push('first started');
+            await gate.promise;
+            events.push('first finished');
+        });
+        const second = queue.enqueue(['a'], async () => {
+            events.push('second started');
+        });
+
+        await Promise.resolve();
+        expect(queue.isBusy(['a'])).toBe(true);
+        gate.open();
+        await Promise.all([first, second]);
+
+        expect(events).toEqual(['first started', 'first finished', 'second started']);
+        expect(queue.isBusy(['a'])).toBe(false);
+    });
+
+    test('runs operations with different keys concurrently', async () => {
+        const queue = new OperationQueue();
+        const gate = createGate();
+        let secondRan = false;
+
+        const first = queue.enqueue(['a'], async () => gate.promise);
+        await queue.enqueue(['b'], async () => {
+            secondRan = true;
+        });
+
+        expect(secondRan).toBe(true);
+        expect(queue.isBusy(['b'])).toBe(false);
+        expect(queue.isBusy(['a'])).toBe(true);
+
+        gate.open();
+        await first;
+    });
+
+    test('operations without keys wait for and block every other operation', async () => {
+        const queue = new OperationQueue();
+        const events: string[] = [];
+        const gate = createGate();
+
+        const first = queue.enqueue(['a'], async () => {
+            await gate.promise;
+            events.push('a');
+        });
+        const exclusive = queue.enqueue(undefined, async () => {
+            events.push('exclusive');
+        });
+        const last = queue.enqueue(['b'], async () => {
+            events.push('b');
+        });
+
+        expect(queue.isBusy(['c'])).toBe(true);
+        gate.open();
+        await Promise.all([first, exclusive, last]);
+
+        expect(events).toEqual(['a', 'exclusive', 'b']);
+    });
+
+    test('a failed operation does not block later operations', async () => {
+        const queue = new OperationQueue();
+
+        await expect(queue.enqueue(['a'], async () => Promise.reject(new Error('failed')))).rejects.toThrow('failed');
+        await expect(queue.enqueue(['a'], async () => 42)).resolves.toBe(42);
+        expect(queue.isBusy(undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,113 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as path from 'path';
+import { describe, test, expect } from '@jest/globals';
+import {
+    isProjectFile,
+    parsePackageReferences,
+    parseProjectReferences,
+    parseSolutionProjects,
+    sortProjectsByDependencies,
+} from '../../../src/shared/utils/projectFiles';
+
+const projectText = `<Project Sdk="Microsoft.NET.Sdk">
+  <ItemGroup>
+    <ProjectReference Include="..\\Lib\\Lib.csproj" />
+    <PackageReference Include="Newtonsoft.Json" Version="13.0.3" />
+    <PackageReference Include="xunit">
+      <Version>2.9.0</Version>
+    </PackageReference>
+    <PackageReference Include="Centrally.Managed" />
+    <PackageReference Update="Not.A.Reference" Version="1.0.0" />
+  </ItemGroup>
+</Project>`;
+
+describe('Project file parsing', () => {
+    test('recognizes C# and Visual Basic projects', () => {
+        expect(isProjectFile(path.resolve('/src/App/App.csproj'))).toBe(true);
+        expect(isProjectFile(path.resolve('/src/Lib/Lib.vbproj'))).toBe(true);
+        expect(isProjectFile(path.resolve('/src/App.sln'))).toBe(false);
+    });
+
+    test('finds project references relative to the project', () => {
+        const projectFile = path.resolve('/src/App/App.csproj');
+
+        expect(parseProjectReferences(projectFile, projectText)).toEqual([path.resolve('/src/Lib/Lib.csproj')]);
+    });
+
+    test('finds package references and their versions', () => {
+        expect(parsePackageReferences(projectText)).toEqual([
+            { id: 'Newtonsoft.Json', version: '13.0.3' },
+            { id: 'xunit', version: '2.9.0' },
+            { id: 'Centrally.Managed', version: undefined },
+        ]);
+    });
+
+    test('finds the projects in a solution', () => {
+        const solutionText = `Microsoft Visual Studio Solution File, Format Version 12.00
+Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "App", "src\\App\\App.csproj", "{11111111-1111-1111-1111-111111111111}"
+EndProject
+Project("{2150E333-8FDC-42A3-9474-1A3956D46DE8}") = "Solution Items", "Solution Items", "{22222222-2222-2222-2222-222222222222}"
+EndProject`;
+
+        expect(parseSolutionProjects(path.resolve('/App.sln'), solutionText)).toEqual([
+            path.resolve('/src/App/App.csproj'),
+        ]);
+    });
+
+    test('finds the projects in an XML solution', () => {
+        const solutionText = `<Solution>
+  <Folder Name="/Solution Items/">
+    <File Path="README.md" />
+  </Folder>
+  <Project Path="src/App/App.csproj" />
+  <Project Path="src\\Lib\\Lib.vbproj" Type="Classic VB" />
+</Solution>`;
+
+        expect(parseSolutionProjects(path.resolve('/App.slnx'), solutionText)).toEqual([
+            path.resolve('/src/App/App.csproj'),
+            path.resolve('/src/Lib/Lib.vbproj'),
+        ]);
+    });
+
+    test('finds the projects in a solution filter relative to its solution', () => {
+        const filterText = JSON.stringify({
+            solution: { path: '..\\App.sln', projects: ['src\\App\\App.csproj'] },
+        });
+
+        expect(parseSolutionProjects(path.resolve('/filters/App.slnf'), filterText)).toEqual([
+            path.resolve('/src/App/App.csproj'),
+        ]);
+        expect(parseSolutionProjects(path.resolve('/filters/Broken.slnf'), '{')).toEqual([]);
+    });
+});
+
+describe('sortProjectsByDependencies', () => {
+    test('orders referenced projects first, keeping the given order otherwise', () => {
+        const references: { [project: string]: string[] } = {
+            'Web.csproj': ['Api.csproj', 'Shared.csproj'],
+            'Worker.csproj': [],
+            'Api.csproj': ['Shared.csproj'],
+            'Shared.csproj': [],
+        };
+
+        expect(sortProjectsByDependencies(Object.keys(references), (p) => new Set(references[p]))).toEqual([
+            'Worker.csproj',
+            'Shared.csproj',
+            'Api.csproj',
+            'Web.csproj',
+        ]);
+    });
+
+    test('keeps the given order of projects referencing each other', () => {
+        const references: { [project: string]: string[] } = { 'A.csproj': ['B.csproj'], 'B.csproj': ['A.csproj'] };
+
+        expect(sortProjectsByDependencies(['A.csproj', 'B.csproj'], (p) => new Set(references[p]))).toEqual([
+            'A.csproj',
+            'B.csproj',
+        ]);
+    });
+});
@@ -0,0 +1,59 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, test, expect } from '@jest/globals';
+import { parseRestoreOutputLine } from '../../../src/lsptoolshost/restoreOutputParser';
+
+describe('Restore output parser', () => {
+    test('parses NuGet errors reported for a project', () => {
+        expect(
+            parseRestoreOutputLine(
+                '/src/App/App.csproj : error NU1101: Unable to find package Foo.Bar. No packages exist with this id in source(s): nuget.org'
+            )
+        ).toEqual({
+            kind: 'diagnostic',
+            diagnostic: {
+                projectFile: '/src/App/App.csproj',
+                severity: 'error',
+                code: 'NU1101',
+                message: 'Unable to find package Foo.Bar. No packages exist with this id in source(s): nuget.org',
+                packageId: 'Foo.Bar',
+            },
+        });
+    });
+
+    test('parses NuGet warnings attributed to a project in brackets', () => {
+        expect(
+            parseRestoreOutputLine(
+                '  C:\\sdk\\NuGet.targets(156,5): warning NU1603: App depends on Newtonsoft.Json (>= 13.0.0) but Newtonsoft.Json 13.0.0 was not found. [C:\\src\\App\\App.csproj]'
+            )
+        ).toEqual({
+            kind: 'diagnostic',
+            diagnostic: {
+                projectFile: 'C:\\src\\App\\App.csproj',
+                severity: 'warning',
+                code: 'NU1603',
+                message: 'App depends on Newtonsoft.Json (>= 13.0.0) but Newtonsoft.Json 13.0.0 was not found.',
+                packageId: undefined,
+            },
+        });
+    });
+
+    test('parses project results', () => {
+        expect(parseRestoreOutputLine('  Restored /src/App/App.csproj (in 1.2 sec).')).toEqual({
+            kind: 'restored',
+            projectFile: '/src/App/App.csproj',
+        });
+        expect(parseRestoreOutputLine('  Failed to restore /src/App/App.csproj (in 300 ms).')).toEqual({
+            kind: 'failed',
+            projectFile: '/src/App/App.csproj',
+        });
+    });
+
+    test('ignores other output', () => {
+        expect(parseRestoreOutputLine('  Determining projects to restore...')).toBeUndefined();
+        expect(parseRestoreOutputLine('/src/App/Program.cs(3,1): error CS1002: ; expected')).toBeUndefined();
+    });
+});
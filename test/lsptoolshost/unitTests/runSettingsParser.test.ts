@@ -0,0 +1,96 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, test, expect } from '@jest/globals';
+import * as path from 'path';
+import {
+    findXmlErrors,
+    getRootElementName,
+    getRunSettingsFilePath,
+    resolveRunSettingsFilePath,
+} from '../../../src/lsptoolshost/runSettingsParser';
+
+describe('Run settings parser', () => {
+    test('accepts a well formed runsettings file', () => {
+        const text = `<?xml version="1.0" encoding="utf-8"?>
+<!-- Settings for the unit tests -->
+<RunSettings>
+  <RunConfiguration>
+    <ResultsDirectory>.\\TestResults</ResultsDirectory>
+    <TargetPlatform>x64</TargetPlatform>
+  </RunConfiguration>
+  <DataCollectionRunSettings>
+    <DataCollectors>
+      <DataCollector friendlyName="XPlat code coverage" enabled='true' />
+    </DataCollectors>
+  </DataCollectionRunSettings>
+  <TestRunParameters><![CDATA[ <not a tag> ]]></TestRunParameters>
+</RunSettings>
+`;
+
+        expect(findXmlErrors(text)).toEqual([]);
+        expect(getRootElementName(text)).toBe('RunSettings');
+    });
+
+    test('reports mismatched and unclosed elements', () => {
+        const text = '<RunSettings>\n  <RunConfiguration>\n  </RunConfig>\n';
+
+        expect(findXmlErrors(text).map((e) => [e.message, text.substr(e.offset, e.length)])).toEqual([
+            ["Unexpected end tag 'RunConfig'.", '</RunConfig>'],
+            ["Element 'RunSettings' is not closed.", 'RunSettings'],
+            ["Element 'RunConfiguration' is not closed.", 'RunConfiguration'],
+        ]);
+    });
+
+    test('reports malformed tags and attributes', () => {
+        const text = '<RunSettings>\n  <DataCollector friendlyName=foo a="1" a="2" />\n  <Broken\n</RunSettings>';
+
+        expect(findXmlErrors(text).map((e) => e.message)).toEqual([
+            'Invalid attribute; expected name="value".',
+            'Tag is not closed.',
+        ]);
+    });
+
+    test('reports content outside of a single root element', () => {
+        expect(findXmlErrors('<A></A>\n<B/>').map((e) => e.message)).toEqual(['Only one root element is allowed.']);
+        expect(findXmlErrors('text <A/>').map((e) => e.message)).toEqual([
+            'Text is not allowed outside of the root element.',
+        ]);
+        expect(findXmlErrors('<!-- only a comment -->').map((e) => e.message)).toEqual([
+            'The document has no root element.',
+        ]);
+        expect(findXmlErrors('<A><!-- unclosed </A>').map((e) => e.message)).toEqual([
+            'Comment is not closed.',
+            "Element 'A' is not closed.",
+        ]);
+    });
+
+    test('reads the run settings path declared in an MSBuild file', () => {
+        const props = `<Project>
+  <!-- <RunSettingsFilePath>old.runsettings</RunSettingsFilePath> -->
+  <PropertyGroup>
+    <RunSettingsFilePath Condition="'$(CI)' != 'true'"> $(MSBuildThisFileDirectory)test.runsettings </RunSettingsFilePath>
+  </PropertyGroup>
+</Project>`;
+
+        expect(getRunSettingsFilePath(props)).toBe('$(MSBuildThisFileDirectory)test.runsettings');
+        expect(getRunSettingsFilePath('<Project><PropertyGroup /></Project>')).toBeUndefined();
+    });
+
+    test('resolves the declared run settings path for the project', () => {
+        const propsFile = path.resolve('/repo/Directory.Build.props');
+        const projectDirectory = path.resolve('/repo/tests/App.Tests');
+
+        expect(
+            resolveRunSettingsFilePath('$(MSBuildThisFileDirectory)tests\\ci.runsettings', propsFile, projectDirectory)
+        ).toBe(path.resolve('/repo/tests/ci.runsettings'));
+        expect(resolveRunSettingsFilePath('..\\test.runsettings', propsFile, projectDirectory)).toBe(
+            path.resolve('/repo/tests/test.runsettings')
+        );
+        expect(
+            resolveRunSettingsFilePath('$(SolutionDir)test.runsettings', propsFile, projectDirectory)
+        ).toBeUndefined();
+    });
+});
@@ -0,0 +1,52 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, test, expect } from '@jest/globals';
+import { getFakeMemento } from '../../fakes';
+import { CrashLoopWindow, ServerCrash, ServerCrashHistory } from '../../../src/lsptoolshost/serverCrashHistory';
+
+function crash(time: number, workspace = ['/src/App.sln']): ServerCrash {
+    return { time, exitCode: 134, signal: null, workspace, stderr: ['Unhandled exception.'] };
+}
+
+describe('ServerCrashHistory', () => {
+    test('detects a crash loop with the same solution open', async () => {
+        const history = new ServerCrashHistory(getFakeMemento());
+        await history.record(crash(0));
+        await history.record(crash(1000));
+        expect(history.isCrashLoop()).toBe(false);
+
+        await history.record(crash(2000));
+        expect(history.isCrashLoop()).toBe(true);
+    });
+
+    test('does not detect a crash loop when crashes are spread out or with different solutions', async () => {
+        const spreadOut = new ServerCrashHistory(getFakeMemento());
+        await spreadOut.record(crash(0));
+        await spreadOut.record(crash(1000));
+        await spreadOut.record(crash(CrashLoopWindow + 1));
+        expect(spreadOut.isCrashLoop()).toBe(false);
+
+        const differentSolutions = new ServerCrashHistory(getFakeMemento());
+        await differentSolutions.record(crash(0));
+        await differentSolutions.record(crash(1000, ['/src/Other.sln']));
+        await differentSolutions.record(crash(2000));
+        expect(differentSolutions.isCrashLoop()).toBe(false);
+    });
+
+    test('keeps the recent crashes until cleared', async () => {
+        const history = new ServerCrashHistory(getFakeMemento());
+        for (let i = 0; i < 25; i++) {
+            await history.record(crash(i));
+        }
+
+        expect(history.crashes.length).toBe(20);
+        expect(history.crashes[0].time).toBe(5);
+
+        await history.clear();
+        expect(history.crashes).toEqual([]);
+        expect(history.isCrashLoop()).toBe(false);
+    });
+});
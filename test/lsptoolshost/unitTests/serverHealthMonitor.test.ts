@@ -0,0 +1,98 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, test, expect } from '@jest/globals';
+import { percentile, ServerHealthMonitor } from '../../../src/shared/serverHealthMonitor';
+import { parseLspTraceLine } from '../../../src/lsptoolshost/lspTraceMonitor';
+
+describe('ServerHealthMonitor', () => {
+    test('computes nearest-rank percentiles', () => {
+        const values = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+        expect(percentile(values, 50)).toBe(5);
+        expect(percentile(values, 90)).toBe(9);
+        expect(percentile(values, 99)).toBe(10);
+        expect(percentile([], 50)).toBe(0);
+    });
+
+    test('tracks requests in flight and the latencies of completed requests', async () => {
+        const monitor = new ServerHealthMonitor('Test Server');
+        monitor.requestStarted(1, 'textDocument/hover', 0);
+        monitor.requestStarted(2, 'textDocument/hover', 0);
+        monitor.requestStarted(3, 'textDocument/completion', 0);
+        monitor.requestStarted(4, 'textDocument/completion', 50);
+        monitor.requestCompleted(1, 'succeeded', 10);
+        monitor.requestCompleted(2, 'failed', 0, 30);
+        monitor.requestCompleted(3, 'cancelled', 500);
+
+        const snapshot = await monitor.snapshot(100);
+
+        expect(snapshot.inFlight).toEqual([{ id: 4, method: 'textDocument/completion', durationMs: 50 }]);
+        expect(snapshot.methods).toEqual([
+            { method: 'textDocument/hover', completed: 1, failed: 1, cancelled: 0, p50: 10, p90: 30, p99: 30, max: 30 },
+            {
+                method: 'textDocument/completion',
+                completed: 0,
+                failed: 0,
+                cancelled: 1,
+                p50: 0,
+                p90: 0,
+                p99: 0,
+                max: 0,
+            },
+        ]);
+    });
+
+    test('forgets requests in flight and queued when the server process changes', async () => {
+        const monitor = new ServerHealthMonitor('Test Server');
+        monitor.changeQueueDepth('Normal', 2);
+        monitor.requestStarted(1, 'textDocument/hover');
+
+        monitor.setProcess(undefined);
+        const snapshot = await monitor.snapshot();
+
+        expect(snapshot.inFlight).toEqual([]);
+        expect(snapshot.queues).toEqual([]);
+        expect(snapshot.memory).toBeUndefined();
+    });
+});
+
+describe('parseLspTraceLine', () => {
+    test('parses sent requests and received responses', () => {
+        expect(parseLspTraceLine("[Trace - 10:15:02 AM] Sending request 'textDocument/hover - (12)'.")).toEqual({
+            kind: 'requestSent',
+            method: 'textDocument/hover',
+            id: 12,
+        });
+        expect(
+            parseLspTraceLine("[Trace - 10:15:02 AM] Received response 'textDocument/hover - (12)' in 15ms.")
+        ).toEqual({
+            kind: 'responseReceived',
+            method: 'textDocument/hover',
+            id: 12,
+            durationMs: 15,
+            errorCode: undefined,
+        });
+    });
+
+    test('parses the error code of failed responses', () => {
+        expect(
+            parseLspTraceLine(
+                "[Trace - 10:15:02 AM] Received response 'textDocument/completion - (13)' in 4ms. Request failed: The request was cancelled (-32800)."
+            )
+        ).toEqual({
+            kind: 'responseReceived',
+            method: 'textDocument/completion',
+            id: 13,
+            durationMs: 4,
+            errorCode: -32800,
+        });
+    });
+
+    test('ignores other lines', () => {
+        expect(parseLspTraceLine("[Trace - 10:15:02 AM] Sending notification 'textDocument/didOpen'.")).toBeUndefined();
+        expect(parseLspTraceLine('Params: {}')).toBeUndefined();
+    });
+});
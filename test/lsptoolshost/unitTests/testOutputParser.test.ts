@@ -0,0 +1,82 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, test, expect } from '@jest/globals';
+import { findMethodResults, parseStackTrace, parseTestResultOutput } from '../../../src/lsptoolshost/testOutputParser';
+
+describe('Test output parser', () => {
+    test('parses passed, failed and skipped results', () => {
+        const output = `Starting test execution, please wait...
+  Passed Tests.UnitTest1.Test1 [3 ms]
+  Failed Tests.UnitTest1.Test2 [1 s 20 ms]
+  Error Message:
+   Assert.Equal() Failure
+Expected: 1
+Actual:   2
+  Stack Trace:
+     at Tests.UnitTest1.Test2() in /src/test/UnitTest1.cs:line 17
+     at System.RuntimeMethodHandle.InvokeMethod(Object target, Void** arguments, Signature sig, Boolean isConstructor)
+
+  Skipped Tests.UnitTest1.Test3 [< 1 ms]
+
+Failed!  - Failed:     1, Passed:     1, Skipped:     1, Total:     3`;
+
+        const results = parseTestResultOutput(output);
+
+        expect(results).toEqual([
+            { fullyQualifiedName: 'Tests.UnitTest1.Test1', outcome: 'passed', duration: 3 },
+            {
+                fullyQualifiedName: 'Tests.UnitTest1.Test2',
+                outcome: 'failed',
+                duration: 1020,
+                errorMessage: 'Assert.Equal() Failure\nExpected: 1\nActual:   2',
+                stackTrace:
+                    'at Tests.UnitTest1.Test2() in /src/test/UnitTest1.cs:line 17\n     at System.RuntimeMethodHandle.InvokeMethod(Object target, Void** arguments, Signature sig, Boolean isConstructor)',
+            },
+            { fullyQualifiedName: 'Tests.UnitTest1.Test3', outcome: 'skipped', duration: 1 },
+        ]);
+    });
+
+    test('parses bracketed outcomes', () => {
+        const results = parseTestResultOutput('[Passed] Tests.A.B\n[Failed] Tests.A.C(x: 1)\n');
+
+        expect(results).toEqual([
+            { fullyQualifiedName: 'Tests.A.B', outcome: 'passed', duration: undefined },
+            { fullyQualifiedName: 'Tests.A.C(x: 1)', outcome: 'failed', duration: undefined },
+        ]);
+    });
+
+    test('ignores output that is not a test result', () => {
+        expect(parseTestResultOutput('Building project...\nPassed!  - Failed: 0, Passed: 1')).toEqual([]);
+        expect(
+            parseTestResultOutput(
+                '  Failed to restore /src/Tests/Tests.csproj [/src/App.sln]\nPassed arguments to the test host'
+            )
+        ).toEqual([]);
+    });
+
+    test('parses stack frames with and without file locations', () => {
+        const frames = parseStackTrace(`   at Tests.UnitTest1.Test2() in C:\\src\\test\\UnitTest1.cs:line 17
+   at System.RuntimeMethodHandle.InvokeMethod(Object target)`);
+
+        expect(frames).toEqual([
+            { label: 'Tests.UnitTest1.Test2()', filePath: 'C:\\src\\test\\UnitTest1.cs', line: 17 },
+            { label: 'System.RuntimeMethodHandle.InvokeMethod(Object target)', filePath: undefined, line: undefined },
+        ]);
+    });
+});
+
+describe('findMethodResults', () => {
+    test('folds the results of parameterized tests and overloads into their method', () => {
+        const results = parseTestResultOutput(`  Passed Tests.MathTests.Add(a: 1) [1 ms]
+  Failed Tests.MathTests.Add [2 ms]
+  Passed Tests.MathTests.Add [3 ms]
+  Passed Tests.MathTests.AddAll [4 ms]
+  Passed Tests.MathTests+Nested.Add [5 ms]`);
+
+        expect(findMethodResults(results, 'Tests.MathTests.Add').map((r) => r.duration)).toEqual([1, 2, 3]);
+        expect(findMethodResults(results, 'Tests.MathTests.Nested.Add').map((r) => r.duration)).toEqual([5]);
+    });
+});
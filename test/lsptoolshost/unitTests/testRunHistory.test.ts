@@ -0,0 +1,65 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import { describe, test, expect } from '@jest/globals';
+import { getFakeMemento } from '../../fakes';
+import { TestRunHistory } from '../../../src/lsptoolshost/testRunHistory';
+import { RunTestsParams } from '../../../src/lsptoolshost/roslynProtocol';
+
+const request: RunTestsParams = {
+    textDocument: { uri: 'file:///src/test/UnitTest1.cs' },
+    range: { start: { line: 5, character: 4 }, end: { line: 20, character: 5 } },
+    attachDebugger: false,
+    runSettingsPath: '/src/test/test.runsettings',
+};
+
+describe('TestRunHistory', () => {
+    test('has no last run until one is recorded', () => {
+        const history = new TestRunHistory(getFakeMemento());
+
+        expect(history.lastRun).toBeUndefined();
+        expect(history.failedTests).toEqual([]);
+    });
+
+    test('records the requests and outcomes of the last run', async () => {
+        const workspaceState = getFakeMemento();
+        await new TestRunHistory(workspaceState).record(
+            [request],
+            [
+                { fullyQualifiedName: 'Tests.UnitTest1.Test1', outcome: 'passed' },
+                { fullyQualifiedName: 'Tests.UnitTest1.Test2', outcome: 'failed', errorMessage: 'Assert failed' },
+            ]
+        );
+
+        // A new instance reads the persisted run, as it would after a window reload.
+        const history = new TestRunHistory(workspaceState);
+        expect(history.lastRun).toEqual({
+            requests: [{ textDocument: request.textDocument, range: request.range, attachDebugger: false }],
+            outcomes: { 'Tests.UnitTest1.Test1': 'passed', 'Tests.UnitTest1.Test2': 'failed' },
+        });
+        expect(history.failedTests).toEqual(['Tests.UnitTest1.Test2']);
+    });
+
+    test('a parameterized test fails if any of its cases failed', async () => {
+        const history = new TestRunHistory(getFakeMemento());
+        await history.record(
+            [request],
+            [
+                { fullyQualifiedName: 'Tests.UnitTest1.Theory', outcome: 'failed' },
+                { fullyQualifiedName: 'Tests.UnitTest1.Theory', outcome: 'passed' },
+            ]
+        );
+
+        expect(history.failedTests).toEqual(['Tests.UnitTest1.Theory']);
+    });
+
+    test('a new run replaces the previous one', async () => {
+        const history = new TestRunHistory(getFakeMemento());
+        await history.record([request], [{ fullyQualifiedName: 'Tests.UnitTest1.Test2', outcome: 'failed' }]);
+        await history.record([request], [{ fullyQualifiedName: 'Tests.UnitTest1.Test2', outcome: 'passed' }]);
+
+        expect(history.failedTests).toEqual([]);
+    });
+});
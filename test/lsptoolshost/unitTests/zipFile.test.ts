@@ -0,0 +1,66 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yauzl from 'yauzl';
+import { describe, test, expect } from '@jest/globals';
+import { writeZipFile } from '../../../src/shared/utils/zipFile';
+
+async function readZipFile(zipPath: string): Promise<Map<string, string>> {
+    return new Promise((resolve, reject) => {
+        yauzl.open(zipPath, { lazyEntries: true }, (err, zipFile) => {
+            if (err || !zipFile) {
+                return reject(err);
+            }
+
+            const contents = new Map<string, string>();
+            zipFile.on('entry', (entry: yauzl.Entry) => {
+                zipFile.openReadStream(entry, (err, stream) => {
+                    if (err || !stream) {
+                        return reject(err);
+                    }
+
+                    const chunks: Buffer[] = [];
+                    stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+                    stream.on('end', () => {
+                        contents.set(entry.fileName, Buffer.concat(chunks).toString('utf8'));
+                        zipFile.readEntry();
+                    });
+                });
+            });
+            zipFile.on('end', () => resolve(contents));
+            zipFile.on('error', reject);
+            zipFile.readEntry();
+        });
+    });
+}
+
+describe('writeZipFile', () => {
+    test('writes entries that can be read back', async () => {
+        const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'zipFile-'));
+        const zipPath = path.join(directory, 'bundle.zip');
+        const tracePath = path.join(directory, 'trace.nettrace');
+        try {
+            await fs.promises.writeFile(tracePath, 'nettrace');
+            await writeZipFile(zipPath, [
+                { name: 'dotnet-info.txt', data: '.NET SDK:\n Version: 8.0.100\n' },
+                { name: 'logs\\server.log', data: Buffer.from('x'.repeat(10000)) },
+                { name: 'empty.txt', data: '' },
+                { name: 'trace.nettrace', filePath: tracePath },
+            ]);
+
+            const contents = await readZipFile(zipPath);
+            expect([...contents.keys()]).toEqual(['dotnet-info.txt', 'logs/server.log', 'empty.txt', 'trace.nettrace']);
+            expect(contents.get('dotnet-info.txt')).toBe('.NET SDK:\n Version: 8.0.100\n');
+            expect(contents.get('logs/server.log')).toBe('x'.repeat(10000));
+            expect(contents.get('empty.txt')).toBe('');
+            expect(contents.get('trace.nettrace')).toBe('nettrace');
+        } finally {
+            await fs.promises.rm(directory, { recursive: true, force: true });
+        }
+    });
+});
@@ -11,6 +11,8 @@ import * as jsonc from 'jsonc-parser';
 
 import {
     AssetGenerator,
+    CompoundBuildTaskLabel,
+    CompoundLaunchName,
     ProgramLaunchType,
     replaceCommentPropertiesWithComments,
     updateJsonWithComments,
@@ -474,6 +476,55 @@ describe('Asset generation: csproj', () => {
 
         expect(JSON.stringify(launchConfigurations).indexOf('OS-COMMENT')).toBeLessThan(0);
     });
+
+    test('Create compound launch configuration for multiple startup projects', () => {
+        const rootPath = path.resolve('testRoot');
+        const info = [
+            ...createMSBuildWorkspaceInformation(path.join(rootPath, 'Api', 'Api.csproj'), 'Api', 'net8.0'),
+            ...createMSBuildWorkspaceInformation(
+                path.join(rootPath, 'Web', 'Web.csproj'),
+                'Web',
+                'net8.0',
+                /*targetPath*/ undefined,
+                /*isExe*/ true,
+                /*isWebProject*/ true
+            ),
+        ];
+        const generator = new AssetGenerator(info, createMockWorkspaceFolder(rootPath));
+        generator.setStartupProjects([0, 1]);
+        const { configurations, compound } = generator.createCompoundLaunchConfigurations();
+
+        expect(configurations.map((c) => c.name)).toStrictEqual([
+            `.NET Core Launch (${info[0].projectName})`,
+            `.NET Core Launch (${info[1].projectName})`,
+        ]);
+        expect(configurations.every((c) => c.request === 'launch' && c.preLaunchTask === undefined)).toBe(true);
+        expect(configurations[1].serverReadyAction).toBeDefined();
+
+        expect(compound.name).toEqual(CompoundLaunchName);
+        expect(compound.configurations).toStrictEqual(configurations.map((c) => c.name));
+        expect(compound.preLaunchTask).toEqual(CompoundBuildTaskLabel);
+    });
+
+    test('Create build tasks for multiple startup projects', () => {
+        const rootPath = path.resolve('testRoot');
+        const info = [
+            ...createMSBuildWorkspaceInformation(path.join(rootPath, 'Api', 'Api.csproj'), 'Api', 'net8.0'),
+            ...createMSBuildWorkspaceInformation(path.join(rootPath, 'Worker', 'Worker.csproj'), 'Worker', 'net8.0'),
+        ];
+        const generator = new AssetGenerator(info, createMockWorkspaceFolder(rootPath));
+        generator.setStartupProjects([1, 0]);
+        const tasks = generator.createCompoundTaskDescriptions();
+
+        expect(tasks.map((t) => t.args?.[1])).toStrictEqual([
+            '${workspaceFolder}/Worker/Worker.csproj',
+            '${workspaceFolder}/Api/Api.csproj',
+            undefined,
+        ]);
+        expect(tasks[2].label).toEqual(CompoundBuildTaskLabel);
+        expect(tasks[2].dependsOn).toStrictEqual([tasks[0].label, tasks[1].label]);
+        expect(tasks[2].dependsOrder).toEqual('sequence');
+    });
 });
 
 function checkProgramPath(rootPath: string, programPath: string, targetPath: string): void {
@@ -126,14 +126,16 @@ declare module "vscode-tasks" {
         /**
          * The type of a custom task. Tasks of type "shell" are executed
          * inside a shell (e.g. bash, cmd, powershell, ...)
+         * Tasks that only run the tasks they depend on have no type.
          */
-        type: "shell" | "process";
+        type?: "shell" | "process";
 
         /**
          * The command to execute. If the type is "shell" it should be the full
          * command line including any additional arguments passed to the command.
+         * Tasks that only run the tasks they depend on have no command.
          */
-        command: string;
+        command?: string;
 
         /**
          * Whether the executed command is kept alive and runs in the background.
@@ -166,6 +168,17 @@ declare module "vscode-tasks" {
          * output.
          */
         problemMatcher?: string | ProblemMatcher | (string | ProblemMatcher)[];
+
+        /**
+         * The labels of the tasks to run before this task.
+         */
+        dependsOn?: string | string[];
+
+        /**
+         * Whether the tasks this task depends on run one after the other or
+         * all at once. Defaults to "parallel".
+         */
+        dependsOrder?: "parallel" | "sequence";
     }
 
     export interface PresentationOptions {